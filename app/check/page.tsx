@@ -0,0 +1,212 @@
+// app/check/page.tsx - Pre-flight system check with a shareable pass/fail report for support tickets
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { useUserSession } from '@/hooks/useUserSession'
+import { useSystemCheck } from '@/hooks/useSystemCheck'
+import UserPicker from '@/components/UserPicker'
+import {
+  DiagnosticReport,
+  DiagnosticResult,
+  DiagnosticStatus,
+  decodeDiagnosticReport,
+  encodeDiagnosticReport,
+  formatDiagnosticReport
+} from '@/lib/diagnostics'
+import { Stethoscope, CheckCircle, XCircle, AlertTriangle, Loader, MinusCircle, Circle, Copy, Download, Link2, Play, Users } from 'lucide-react'
+
+const REPORT_HASH_PREFIX = '#report='
+
+const STATUS_STYLES: Record<DiagnosticStatus, string> = {
+  pending: 'text-gray-400',
+  running: 'text-blue-600',
+  pass: 'text-green-600',
+  warn: 'text-yellow-600',
+  fail: 'text-red-600',
+  skipped: 'text-gray-400'
+}
+
+const StatusIcon = ({ status }: { status: DiagnosticStatus }) => {
+  const className = STATUS_STYLES[status]
+  switch (status) {
+    case 'running':
+      return <Loader size={20} className={`${className} animate-spin`} />
+    case 'pass':
+      return <CheckCircle size={20} className={className} />
+    case 'warn':
+      return <AlertTriangle size={20} className={className} />
+    case 'fail':
+      return <XCircle size={20} className={className} />
+    case 'skipped':
+      return <MinusCircle size={20} className={className} />
+    default:
+      return <Circle size={20} className={className} />
+  }
+}
+
+const ResultList = ({ results }: { results: DiagnosticResult[] }) => (
+  <ul className="divide-y divide-gray-100">
+    {results.map(result => (
+      <li key={result.id} className="flex items-start space-x-3 py-3">
+        <StatusIcon status={result.status} />
+        <div className="flex-1">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-900">{result.label}</span>
+            <span className={`text-xs font-semibold uppercase ${STATUS_STYLES[result.status]}`}>
+              {result.status}
+              {result.duration_ms !== null && <span className="ml-2 font-normal text-gray-500 normal-case">{result.duration_ms}ms</span>}
+            </span>
+          </div>
+          {result.detail && <p className="text-sm text-gray-600 mt-1">{result.detail}</p>}
+        </div>
+      </li>
+    ))}
+  </ul>
+)
+
+const OVERALL_STYLES: Record<DiagnosticReport['overall'], { className: string; text: string }> = {
+  pass: { className: 'bg-green-50 border-green-200 text-green-800', text: 'All checks passed - this device is ready for face registration and verification.' },
+  warn: { className: 'bg-yellow-50 border-yellow-200 text-yellow-800', text: 'Usable, but some checks need attention. Results may be less reliable.' },
+  fail: { className: 'bg-red-50 border-red-200 text-red-800', text: 'One or more checks failed. Share this report with support.' }
+}
+
+const SystemCheckPage = () => {
+  const { users, selectedUserId, setSelectedUserId, usersLoading, usersError } = useUserSession()
+  const { videoRef, results, running, report, run } = useSystemCheck(selectedUserId)
+  const [sharedReport, setSharedReport] = useState<DiagnosticReport | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  // A report opened from a shared link is shown read-only until a new check is run
+  useEffect(() => {
+    const { hash } = window.location
+    if (hash.startsWith(REPORT_HASH_PREFIX)) {
+      setSharedReport(decodeDiagnosticReport(hash.slice(REPORT_HASH_PREFIX.length)))
+    }
+  }, [])
+
+  const startCheck = () => {
+    setSharedReport(null)
+    setNotice(null)
+    window.history.replaceState(null, '', window.location.pathname)
+    run()
+  }
+
+  const shownReport = sharedReport ?? report
+
+  const copy = async (text: string, message: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setNotice(message)
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error)
+      setNotice('Copy failed - select and copy the report text below instead')
+    }
+  }
+
+  const copyText = () => shownReport && copy(formatDiagnosticReport(shownReport), 'Report copied to clipboard')
+
+  const copyLink = () => {
+    if (!shownReport) return
+    const url = `${window.location.origin}${window.location.pathname}${REPORT_HASH_PREFIX}${encodeDiagnosticReport(shownReport)}`
+    copy(url, 'Share link copied to clipboard')
+  }
+
+  const downloadJson = () => {
+    if (!shownReport) return
+    const blob = new Blob([JSON.stringify(shownReport, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `system-check-${shownReport.report_id}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="container">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">System Check</h1>
+        <p className="text-lg text-gray-600">
+          Test your camera, lighting and connection before registering or taking a proctored quiz
+        </p>
+      </div>
+
+      {sharedReport === null && (
+        <div className="card mb-6">
+          <div className="flex items-center space-x-3 mb-4">
+            <Users className="text-primary-600" size={24} />
+            <h2 className="text-xl font-semibold text-gray-900">User</h2>
+          </div>
+          <UserPicker
+            users={users}
+            selectedUserId={selectedUserId}
+            onSelect={setSelectedUserId}
+            loading={usersLoading}
+            error={usersError}
+            disabled={running}
+          />
+          <p className="text-sm text-gray-600 mt-2">
+            The WebSocket checks connect as this user. A user without a registered face still confirms the server is reachable.
+          </p>
+        </div>
+      )}
+
+      <div className="card mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <Stethoscope className="text-primary-600" size={24} />
+            <h2 className="text-xl font-semibold text-gray-900">
+              {sharedReport ? 'Shared Report' : 'Diagnostics'}
+            </h2>
+          </div>
+          <button onClick={startCheck} disabled={running} className="btn-primary flex items-center space-x-2 disabled:opacity-50">
+            {running ? <Loader size={16} className="animate-spin" /> : <Play size={16} />}
+            <span>{running ? 'Running...' : sharedReport ? 'Run on this device' : report ? 'Run again' : 'Run checks'}</span>
+          </button>
+        </div>
+
+        {/* Camera preview while the camera checks run; released as soon as they finish */}
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={`w-64 rounded border border-gray-300 bg-black mb-4 ${running && !sharedReport ? '' : 'hidden'}`}
+        />
+
+        <ResultList results={sharedReport ? sharedReport.results : results} />
+      </div>
+
+      {shownReport && (
+        <div className="card">
+          <div className={`p-4 border rounded-lg mb-4 ${OVERALL_STYLES[shownReport.overall].className}`}>
+            <div className="font-semibold">Overall: {shownReport.overall.toUpperCase()}</div>
+            <p className="text-sm mt-1">{OVERALL_STYLES[shownReport.overall].text}</p>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            <button onClick={copyText} className="btn-secondary flex items-center space-x-2">
+              <Copy size={16} />
+              <span>Copy report</span>
+            </button>
+            <button onClick={copyLink} className="btn-secondary flex items-center space-x-2">
+              <Link2 size={16} />
+              <span>Copy share link</span>
+            </button>
+            <button onClick={downloadJson} className="btn-secondary flex items-center space-x-2">
+              <Download size={16} />
+              <span>Download JSON</span>
+            </button>
+          </div>
+          {notice && <p className="text-sm text-gray-600 mb-2">{notice}</p>}
+
+          <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-3 whitespace-pre-wrap break-all">
+            {formatDiagnosticReport(shownReport)}
+          </pre>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SystemCheckPage
@@ -2,35 +2,35 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { faceAPI, FaceStatusResponse } from '@/lib/api'
+import { useUserSession } from '@/hooks/useUserSession'
 import RealTimeFaceVerification from '@/components/RealTimeFaceVerification'
-import { BookOpen, Shield, CheckCircle, AlertCircle, Award, Users, Lock, Eye, Clock, RefreshCw, TrendingUp } from 'lucide-react'
+import SnapshotFaceCapture from '@/components/SnapshotFaceCapture'
+import UserPicker from '@/components/UserPicker'
+import ProctoringMonitor from '@/components/ProctoringMonitor'
+import { useProctoring } from '@/hooks/useProctoring'
+import { PROCTORING_EVENT_LABELS } from '@/lib/proctoring'
+import { BookOpen, Shield, CheckCircle, AlertCircle, Award, Users, Lock, Eye, Clock, RefreshCw, TrendingUp, Camera, WifiOff } from 'lucide-react'
 
 const CoursePage = () => {
-  const [userId, setUserId] = useState<number>(1)
   const [currentSection, setCurrentSection] = useState<'course' | 'verification' | 'quiz' | 'results'>('course')
   const [verificationResult, setVerificationResult] = useState<any>(null)
   const [quizAnswer, setQuizAnswer] = useState<string>('')
   const [quizResult, setQuizResult] = useState<{ correct: boolean; score: number } | null>(null)
-  const [faceStatus, setFaceStatus] = useState<FaceStatusResponse | null>(null)
-  const [statusLoading, setStatusLoading] = useState(false)
   const [verificationAttempts, setVerificationAttempts] = useState(0)
   const [lastAttemptTime, setLastAttemptTime] = useState<Date | null>(null)
   const [isVerifying, setIsVerifying] = useState(false)
+  const [requireLiveness, setRequireLiveness] = useState(false)
+  // Single photo over HTTP instead of the WebSocket stream
+  const [snapshotMode, setSnapshotMode] = useState(false)
+  const [websocketBlocked, setWebsocketBlocked] = useState(false)
 
   // Course and quiz identifiers - matches backend structure
   const courseId = 'intro-to-programming'
   const quizId = 'quiz-1'
   const maxVerificationAttempts = 5  // Matches backend MAX_VERIFICATION_ATTEMPTS
   const cooldownMinutes = 2
-
-  // Demo users - matches backend AppUser structure
-  const demoUsers = [
-    { id: 1, name: 'John Doe', email: 'john@example.com', role: 'Student' },
-    { id: 2, name: 'Jane Smith', email: 'jane@example.com', role: 'Student' },
-    { id: 3, name: 'Bob Johnson', email: 'bob@example.com', role: 'Instructor' },
-    { id: 4, name: 'Alice Wilson', email: 'alice@example.com', role: 'Student' },
-  ]
+  // Course setting chosen by the instructor; students cannot opt out of proctoring
+  const proctoringEnabled = true
 
   // Quiz data
   const quizQuestion = {
@@ -44,42 +44,36 @@ const CoursePage = () => {
     correctAnswer: 1
   }
 
+  // Current user and registration status come from the app-wide session
+  const {
+    users,
+    selectedUser,
+    selectedUserId: userId,
+    setSelectedUserId,
+    usersLoading,
+    usersError,
+    faceStatus,
+    faceStatusLoading: statusLoading,
+    faceStatusError: statusError
+  } = useUserSession()
+
+  const proctoring = useProctoring({
+    userId,
+    quizId,
+    courseId,
+    verificationId: verificationResult?.verification_id
+  })
+  const { start: startProctoring, stop: stopProctoring } = proctoring
+
+  // Proctoring runs for exactly as long as the quiz section is shown
   useEffect(() => {
-    const saved = localStorage.getItem('selectedUserId')
-    if (saved) {
-      setUserId(parseInt(saved))
-    }
-  }, [])
+    if (currentSection !== 'quiz' || !proctoringEnabled) return
+    startProctoring()
+    return () => stopProctoring()
+  }, [currentSection, proctoringEnabled, startProctoring, stopProctoring])
 
+  // Reset states whenever the user changes, including from another tab
   useEffect(() => {
-    const checkFaceStatus = async () => {
-      try {
-        setStatusLoading(true)
-        const status = await faceAPI.getFaceStatus(userId)
-        setFaceStatus(status)
-      } catch (error) {
-        console.error('Failed to check face status:', error)
-        // Provide fallback status for demo
-        setFaceStatus({
-          user_id: userId,
-          user_name: demoUsers.find(u => u.id === userId)?.name || `User ${userId}`,
-          registered: false
-        })
-      } finally {
-        setStatusLoading(false)
-      }
-    }
-
-    if (userId) {
-      checkFaceStatus()
-    }
-  }, [userId])
-
-  const handleUserChange = (newUserId: number) => {
-    setUserId(newUserId)
-    localStorage.setItem('selectedUserId', newUserId.toString())
-    
-    // Reset states when changing user
     setCurrentSection('course')
     setVerificationResult(null)
     setQuizAnswer('')
@@ -87,7 +81,7 @@ const CoursePage = () => {
     setVerificationAttempts(0)
     setLastAttemptTime(null)
     setIsVerifying(false)
-  }
+  }, [userId])
 
   const canStartVerification = () => {
     if (!lastAttemptTime) return true
@@ -176,8 +170,6 @@ const CoursePage = () => {
     }
   }
 
-  const selectedUser = demoUsers.find(user => user.id === userId)
-
   return (
     <div className="container">
       <div className="text-center mb-8">
@@ -193,28 +185,30 @@ const CoursePage = () => {
           <Users className="text-primary-600" size={20} />
           <h2 className="text-lg font-semibold text-gray-900">Current User</h2>
         </div>
-        <div className="flex items-center justify-between">
-          <div className="flex flex-wrap gap-2">
-            {demoUsers.map(user => (
-              <button
-                key={user.id}
-                onClick={() => handleUserChange(user.id)}
-                disabled={isVerifying}
-                className={`px-3 py-1 rounded font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
-                  userId === user.id
-                    ? 'bg-primary-600 text-white'
-                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                }`}
-              >
-                {user.name}
-              </button>
-            ))}
-          </div>
-          <div className="text-sm text-gray-600">
-            Selected: {selectedUser?.name} (ID: {userId}) | Role: {selectedUser?.role}
-          </div>
+        <UserPicker
+          users={users}
+          selectedUserId={userId}
+          onSelect={setSelectedUserId}
+          loading={usersLoading}
+          error={usersError}
+          disabled={isVerifying}
+        />
+        <div className="text-sm text-gray-600 mt-2">
+          {selectedUser
+            ? <>Selected: {selectedUser.name} (ID: {selectedUser.id}) | Role: {selectedUser.role}</>
+            : 'No user selected'}
         </div>
 
+        {/* Status lookup failed - unknown, not "unregistered" */}
+        {statusError && (
+          <div className="mt-4 p-3 rounded-lg border border-red-200 bg-red-50">
+            <div className="flex items-center space-x-2 text-red-700">
+              <AlertCircle size={16} />
+              <span className="text-sm">Could not load registration status: {statusError}</span>
+            </div>
+          </div>
+        )}
+
         {/* Face Registration Status */}
         {!statusLoading && faceStatus && (
           <div className="mt-4 p-3 rounded-lg border">
@@ -367,7 +361,7 @@ const CoursePage = () => {
       )}
 
       {/* Real-Time Face Verification - matches backend exactly */}
-      {currentSection === 'verification' && (
+      {currentSection === 'verification' && userId !== null && (
         <div className="card">
           <div className="flex items-center space-x-3 mb-6">
             <Eye className="text-primary-600" size={24} />
@@ -384,16 +378,74 @@ const CoursePage = () => {
             <div className="mt-3 text-sm text-blue-600">
               Attempt {verificationAttempts}/{maxVerificationAttempts}
             </div>
+            {/* Liveness challenges need the live stream */}
+            {!snapshotMode && (
+              <label className="mt-3 inline-flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={requireLiveness}
+                  onChange={(e) => setRequireLiveness(e.target.checked)}
+                />
+                <span>Require liveness challenges (blink, head turn, nod, smile)</span>
+              </label>
+            )}
+            {proctoringEnabled && (
+              <p className="mt-2 text-sm text-gray-600">
+                This quiz is proctored: your camera stays on and your identity is re-checked at random times.
+              </p>
+            )}
           </div>
 
-          <RealTimeFaceVerification
-            userId={userId}
-            quizId={quizId}
-            courseId={courseId}
-            onSuccess={handleVerificationSuccess}
-            onError={handleVerificationError}
-            className="w-full"
-          />
+          {/* Offered when the stream could not connect at all, e.g. behind a proxy that blocks WebSockets */}
+          {websocketBlocked && !snapshotMode && (
+            <div className="alert-info mb-6">
+              <div className="flex items-center space-x-2">
+                <WifiOff size={20} />
+                <div className="flex-1">
+                  <p className="font-medium">Live streaming is unavailable on this network</p>
+                  <p className="text-sm">The real-time connection could not be opened. You can verify with a single photo instead.</p>
+                </div>
+                <button onClick={() => setSnapshotMode(true)} className="btn-primary">
+                  Use Snapshot Mode
+                </button>
+              </div>
+            </div>
+          )}
+
+          {snapshotMode ? (
+            <SnapshotFaceCapture
+              kind="verification"
+              userId={userId}
+              quizId={quizId}
+              courseId={courseId}
+              onSuccess={handleVerificationSuccess}
+              onError={handleVerificationError}
+              className="w-full"
+            />
+          ) : (
+            // Remounted when the mode changes so the socket reconnects with the new setting
+            <RealTimeFaceVerification
+              key={requireLiveness ? 'liveness' : 'standard'}
+              userId={userId}
+              quizId={quizId}
+              courseId={courseId}
+              livenessChallenges={requireLiveness}
+              onSuccess={handleVerificationSuccess}
+              onError={handleVerificationError}
+              onConnectionFailed={() => setWebsocketBlocked(true)}
+              className="w-full"
+            />
+          )}
+
+          <div className="mt-4 text-center">
+            <button
+              onClick={() => setSnapshotMode(!snapshotMode)}
+              className="inline-flex items-center space-x-2 text-sm text-primary-600 hover:text-primary-700"
+            >
+              <Camera size={16} />
+              <span>{snapshotMode ? 'Back to real-time verification' : "Can't use live streaming? Verify with a single photo (snapshot mode)"}</span>
+            </button>
+          </div>
 
           {/* Verification Result Display */}
           {verificationResult && (
@@ -411,6 +463,9 @@ const CoursePage = () => {
                         {verificationResult.max_similarity_score && (
                           <p><strong>Best Match:</strong> {verificationResult.max_similarity_score?.toFixed(1)}%</p>
                         )}
+                        {verificationResult.matched_template_label && (
+                          <p><strong>Matched Template:</strong> {verificationResult.matched_template_label}</p>
+                        )}
                         <p><strong>Quality Score:</strong> {verificationResult.quality_score?.toFixed(1)}%</p>
                         <p><strong>Match Ratio:</strong> {(verificationResult.match_ratio * 100)?.toFixed(1)}%</p>
                         <p><strong>Confidence:</strong> {verificationResult.confidence_score?.toFixed(1)}%</p>
@@ -485,6 +540,8 @@ const CoursePage = () => {
             </div>
           )}
 
+          {proctoringEnabled && <ProctoringMonitor proctoring={proctoring} className="mb-6" />}
+
           <div className="mb-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">{quizQuestion.question}</h3>
             
@@ -548,6 +605,33 @@ const CoursePage = () => {
               )}
             </div>
 
+            {/* Proctoring Report - events recorded against this attempt for instructor review */}
+            {proctoringEnabled && proctoring.attemptId && (
+              <div className={`p-4 rounded-lg mb-6 text-left ${proctoring.events.length > 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+                <h3 className={`font-semibold mb-2 ${proctoring.events.length > 0 ? 'text-red-900' : 'text-green-900'}`}>Proctoring Report</h3>
+                <div className={`text-sm space-y-1 ${proctoring.events.length > 0 ? 'text-red-800' : 'text-green-800'}`}>
+                  <p><strong>Attempt ID:</strong> {proctoring.attemptId}</p>
+                  <p><strong>Identity Re-checks:</strong> {proctoring.checksRun}</p>
+                  {proctoring.events.length === 0 ? (
+                    <p>No events flagged ✓</p>
+                  ) : (
+                    <>
+                      <p><strong>Flagged Events:</strong> {proctoring.events.length} (sent for instructor review)</p>
+                      <ul className="list-disc pl-6">
+                        {proctoring.events.map(event => (
+                          <li key={event.id}>
+                            {new Date(event.started_at).toLocaleTimeString()} - {PROCTORING_EVENT_LABELS[event.type]}
+                            {event.ended_at !== null && ` (${Math.round((event.ended_at - event.started_at) / 1000)}s)`}
+                            {event.similarity_score !== undefined && ` - similarity ${event.similarity_score.toFixed(1)}%`}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Complete Verification Summary - matches backend FaceVerification structure */}
             {verificationResult && (
               <div className="bg-blue-50 p-4 rounded-lg mb-6">
@@ -561,6 +645,9 @@ const CoursePage = () => {
                   {verificationResult.max_similarity_score && (
                     <p><strong>Peak Similarity:</strong> {verificationResult.max_similarity_score?.toFixed(1)}%</p>
                   )}
+                  {verificationResult.matched_template_label && (
+                    <p><strong>Matched Template:</strong> {verificationResult.matched_template_label}</p>
+                  )}
                   <p><strong>Quality Score:</strong> {verificationResult.quality_score?.toFixed(1)}%</p>
                   <p><strong>Anti-spoofing Score:</strong> {(verificationResult.antispoofing_score * 100)?.toFixed(1)}%</p>
                   {verificationResult.match_ratio !== undefined && (
@@ -1,6 +1,8 @@
 import './globals.css'
 import { Inter } from 'next/font/google'
 import Navigation from '@/components/Navigation'
+import ContractWarningsPanel from '@/components/ContractWarningsPanel'
+import UserSessionProvider from '@/components/UserSessionProvider'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -17,10 +19,13 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
-        <Navigation />
-        <main className="min-h-screen">
-          {children}
-        </main>
+        <UserSessionProvider>
+          <Navigation />
+          <main className="min-h-screen">
+            {children}
+          </main>
+          {process.env.NODE_ENV !== 'production' && <ContractWarningsPanel />}
+        </UserSessionProvider>
       </body>
     </html>
   )
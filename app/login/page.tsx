@@ -0,0 +1,122 @@
+// app/login/page.tsx - Sign in against the backend token endpoint
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import axios from 'axios'
+import { login, logout, isAuthenticated, onAuthChange } from '@/lib/auth'
+import { LogIn, LogOut, AlertCircle, CheckCircle, Loader } from 'lucide-react'
+
+const LoginPage = () => {
+  const router = useRouter()
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [authenticated, setAuthenticated] = useState(false)
+
+  useEffect(() => {
+    setAuthenticated(isAuthenticated())
+    return onAuthChange(setAuthenticated)
+  }, [])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    try {
+      setSubmitting(true)
+      setError(null)
+      await login({ username, password })
+      setPassword('')
+      router.push('/')
+    } catch (err) {
+      console.error('Login failed:', err)
+      setError(axios.isAxiosError(err) && err.response?.status === 401 ? 'Invalid username or password' : 'Login failed. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleLogout = async () => {
+    await logout()
+  }
+
+  return (
+    <div className="container">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">Sign In</h1>
+        <p className="text-lg text-gray-600">
+          Sign in to access face registration and secure assessments
+        </p>
+      </div>
+
+      <div className="card max-w-md mx-auto">
+        {authenticated ? (
+          <div className="space-y-4">
+            <div className="alert-success">
+              <div className="flex items-center space-x-2">
+                <CheckCircle size={20} />
+                <p className="font-medium">You are signed in</p>
+              </div>
+            </div>
+            <button
+              onClick={handleLogout}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <LogOut size={20} />
+              <span>Sign Out</span>
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+              <input
+                id="username"
+                type="text"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-primary-500"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+              <input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-primary-500"
+              />
+            </div>
+
+            {error && (
+              <div className="alert-error">
+                <div className="flex items-center space-x-2">
+                  <AlertCircle size={20} />
+                  <p className="text-sm">{error}</p>
+                </div>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="btn-primary w-full flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              {submitting ? <Loader size={20} className="animate-spin" /> : <LogIn size={20} />}
+              <span>{submitting ? 'Signing in...' : 'Sign In'}</span>
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default LoginPage
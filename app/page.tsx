@@ -3,25 +3,35 @@
 
 import React, { useState, useEffect } from 'react'
 import Link from 'next/link'
-import { faceAPI, HealthResponse } from '@/lib/api'
-import { UserCircle, BookOpen, Shield, TrendingUp, Server, Database, Wifi, Activity, CheckCircle, AlertCircle, XCircle, Users, Eye, Award, Clock } from 'lucide-react'
+import { faceAPI, HealthResponse, SystemStatsResponse } from '@/lib/api'
+import { getErrorMessage, isBackendUnavailable } from '@/lib/errors'
+import { useUserSession } from '@/hooks/useUserSession'
+import UserPicker from '@/components/UserPicker'
+import { BookOpen, Shield, TrendingUp, Server, Database, Wifi, Activity, CheckCircle, AlertCircle, XCircle, Users, Eye, Award, Clock } from 'lucide-react'
 
 const HomePage = () => {
-  const [selectedUserId, setSelectedUserId] = useState<number>(1)
   const [healthStatus, setHealthStatus] = useState<HealthResponse | null>(null)
-  const [systemStats, setSystemStats] = useState<any>(null)
+  const [systemStats, setSystemStats] = useState<SystemStatsResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [savedUserId, setSavedUserId] = useState<number | null>(null)
 
-  // Demo users - matches backend AppUser structure
-  const demoUsers = [
-    { id: 1, name: 'John Doe', email: 'john@example.com', role: 'Student' },
-    { id: 2, name: 'Jane Smith', email: 'jane@example.com', role: 'Student' },
-    { id: 3, name: 'Bob Johnson', email: 'bob@example.com', role: 'Instructor' },
-    { id: 4, name: 'Alice Wilson', email: 'alice@example.com', role: 'Student' },
-  ]
+  // Current user is shared app-wide; selecting here persists it for every page and tab
+  const {
+    users,
+    selectedUser,
+    selectedUserId,
+    setSelectedUserId,
+    usersLoading,
+    usersError,
+    faceStatus,
+    faceStatusLoading
+  } = useUserSession()
 
   useEffect(() => {
+    const controller = new AbortController()
+    const { signal } = controller
+
     const checkHealth = async () => {
       try {
         setLoading(true)
@@ -29,67 +39,53 @@ const HomePage = () => {
         
         // Fetch system health and stats
         const [healthResult, statsResult] = await Promise.allSettled([
-          faceAPI.getHealth(),
-          faceAPI.getStats()
+          faceAPI.getHealth({ signal }),
+          faceAPI.getStats({ signal })
         ])
+
+        if (signal.aborted) return
         
         if (healthResult.status === 'fulfilled') {
           setHealthStatus(healthResult.value)
         } else {
           console.error('Failed to check health:', healthResult.reason)
-          setHealthStatus({
-            status: 'error',
-            timestamp: new Date().toISOString(),
-            engine: 'unknown',
-            database: 'unknown'
-          })
+          setHealthStatus(null)
+          setError(isBackendUnavailable(healthResult.reason)
+            ? 'Failed to connect to backend services'
+            : getErrorMessage(healthResult.reason, 'Health check failed'))
         }
         
+        // Leave stats empty on failure so the overview is hidden rather than showing zeros
         if (statsResult.status === 'fulfilled') {
           setSystemStats(statsResult.value)
         } else {
           console.error('Failed to get stats:', statsResult.reason)
-          setSystemStats({
-            total_users: 4,
-            registered_faces: 0,
-            registration_rate: 0,
-            success_rate_24h: 0,
-            system_health: 'unknown'
-          })
+          setSystemStats(null)
         }
         
       } catch (error) {
         console.error('Failed to fetch system data:', error)
         setError('Failed to connect to backend services')
       } finally {
-        setLoading(false)
+        if (!signal.aborted) setLoading(false)
       }
     }
 
     checkHealth()
+    return () => controller.abort()
   }, [])
 
-  const saveUserId = () => {
-    localStorage.setItem('selectedUserId', selectedUserId.toString())
-    // Show confirmation
-    const button = document.querySelector('.save-user-btn') as HTMLButtonElement
-    if (button) {
-      const originalText = button.textContent
-      button.textContent = 'Saved!'
-      button.disabled = true
-      setTimeout(() => {
-        button.textContent = originalText
-        button.disabled = false
-      }, 2000)
-    }
-  }
-
+  // Brief "Saved" confirmation after picking a user
   useEffect(() => {
-    const saved = localStorage.getItem('selectedUserId')
-    if (saved) {
-      setSelectedUserId(parseInt(saved))
-    }
-  }, [])
+    if (savedUserId === null) return
+    const timer = setTimeout(() => setSavedUserId(null), 2000)
+    return () => clearTimeout(timer)
+  }, [savedUserId])
+
+  const selectUser = (userId: number) => {
+    setSelectedUserId(userId)
+    setSavedUserId(userId)
+  }
 
   const getHealthIcon = (status: string) => {
     switch (status) {
@@ -124,8 +120,6 @@ const HomePage = () => {
     }
   }
 
-  const selectedUser = demoUsers.find(user => user.id === selectedUserId)
-
   return (
     <div className="container">
       <div className="text-center mb-8">
@@ -243,52 +237,41 @@ const HomePage = () => {
       {/* User Selection - matches backend AppUser structure */}
       <div className="mb-8">
         <div className="card">
-          <h2 className="text-2xl font-semibold text-gray-900 mb-4">Select Demo User</h2>
+          <h2 className="text-2xl font-semibold text-gray-900 mb-4">Select User</h2>
           <p className="text-gray-600 mb-4">
             Choose a user to test the face recognition system. In a real application, 
             this would be handled by your authentication system.
           </p>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-            {demoUsers.map(user => (
-              <div
-                key={user.id}
-                className={`p-4 border-2 rounded-lg cursor-pointer transition-all hover:shadow-md ${
-                  selectedUserId === user.id
-                    ? 'border-primary-500 bg-primary-50 shadow-md'
-                    : 'border-gray-200 hover:border-gray-300'
-                }`}
-                onClick={() => setSelectedUserId(user.id)}
-              >
-                <div className="flex items-center space-x-3">
-                  <UserCircle 
-                    size={40} 
-                    className={selectedUserId === user.id ? 'text-primary-600' : 'text-gray-400'} 
-                  />
-                  <div>
-                    <h3 className="font-medium text-gray-900">{user.name}</h3>
-                    <p className="text-sm text-gray-600">{user.email}</p>
-                    <div className="flex items-center space-x-2 mt-1">
-                      <span className="text-xs text-gray-500">ID: {user.id}</span>
-                      <span className="text-xs text-gray-500">•</span>
-                      <span className="text-xs text-gray-500">Role: {user.role}</span>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            ))}
+          <div className="mb-4">
+            <UserPicker
+              users={users}
+              selectedUserId={selectedUserId}
+              onSelect={selectUser}
+              loading={usersLoading}
+              error={usersError}
+            />
           </div>
           
           <div className="flex items-center justify-between">
             <div className="text-sm text-gray-600">
-              Selected: <span className="font-medium">{selectedUser?.name} (ID: {selectedUserId})</span>
+              Selected: <span className="font-medium">{selectedUser ? `${selectedUser.name} (ID: ${selectedUser.id})` : 'None'}</span>
+            </div>
+            <div className="flex items-center space-x-3 text-sm">
+              {selectedUserId !== null && savedUserId === selectedUserId && (
+                <span className="flex items-center text-green-600 font-medium">
+                  <CheckCircle size={16} className="mr-1" />
+                  Saved!
+                </span>
+              )}
+              {selectedUser && !faceStatusLoading && faceStatus && (
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                  faceStatus.registered ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+                }`}>
+                  {faceStatus.registered ? 'Face registered' : 'Face not registered'}
+                </span>
+              )}
             </div>
-            <button
-              onClick={saveUserId}
-              className="btn-primary save-user-btn"
-            >
-              Select User {selectedUserId}
-            </button>
           </div>
         </div>
       </div>
@@ -343,7 +326,7 @@ const HomePage = () => {
             <div className="w-8 h-8 bg-primary-600 text-white rounded-full flex items-center justify-center text-sm font-bold flex-shrink-0">1</div>
             <div>
               <h3 className="font-medium text-gray-900 mb-1">Select a Demo User</h3>
-              <p className="text-gray-600">Choose one of the demo users above and click "Select User" to set your testing identity</p>
+              <p className="text-gray-600">Search the user directory above and click "Select User" to set your testing identity</p>
             </div>
           </div>
           
@@ -2,67 +2,60 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { faceAPI, FaceStatusResponse } from '@/lib/api'
+import { useUserSession } from '@/hooks/useUserSession'
+import { useFaceTemplates } from '@/hooks/useFaceTemplates'
 import RealTimeFaceRegistration from '@/components/RealTimeFaceRegistration'
-import { UserCheck, AlertCircle, CheckCircle, Info, Users, Shield, Clock, TrendingUp } from 'lucide-react'
+import SnapshotFaceCapture from '@/components/SnapshotFaceCapture'
+import UserPicker from '@/components/UserPicker'
+import FaceRegistrationActions from '@/components/FaceRegistrationActions'
+import FaceTemplateList from '@/components/FaceTemplateList'
+import { DEFAULT_TEMPLATE_LABEL, Face } from '@/lib/api'
+import { UserCheck, AlertCircle, CheckCircle, Info, Users, Shield, Clock, TrendingUp, Camera, WifiOff, PauseCircle } from 'lucide-react'
+
+// Offered in the template name field; any other name works too
+const SUGGESTED_TEMPLATE_LABELS = ['default', 'glasses', 'no glasses']
 
 const RegisterPage = () => {
-  const [userId, setUserId] = useState<number>(1)
-  const [faceStatus, setFaceStatus] = useState<FaceStatusResponse | null>(null)
-  const [statusLoading, setStatusLoading] = useState(true)
   const [registrationResult, setRegistrationResult] = useState<any>(null)
   const [showRegistration, setShowRegistration] = useState(false)
   const [isRegistering, setIsRegistering] = useState(false)
+  const [guidedEnrollment, setGuidedEnrollment] = useState(true)
+  // Single photo over HTTP instead of the WebSocket stream
+  const [snapshotMode, setSnapshotMode] = useState(false)
+  const [websocketBlocked, setWebsocketBlocked] = useState(false)
+  // Template the next registration adds, or replaces when the user already has one with this name
+  const [templateLabel, setTemplateLabel] = useState('')
 
-  // Demo users - matches backend AppUser structure
-  const demoUsers = [
-    { id: 1, name: 'John Doe', email: 'john@example.com', role: 'Student' },
-    { id: 2, name: 'Jane Smith', email: 'jane@example.com', role: 'Student' },
-    { id: 3, name: 'Bob Johnson', email: 'bob@example.com', role: 'Instructor' },
-    { id: 4, name: 'Alice Wilson', email: 'alice@example.com', role: 'Student' },
-  ]
+  // Current user and registration status come from the app-wide session
+  const {
+    users,
+    selectedUser,
+    selectedUserId: userId,
+    setSelectedUserId,
+    usersLoading,
+    usersError,
+    faceStatus,
+    faceStatusLoading: statusLoading,
+    faceStatusError: statusError,
+    refreshFaceStatus
+  } = useUserSession()
 
-  useEffect(() => {
-    const saved = localStorage.getItem('selectedUserId')
-    if (saved) {
-      setUserId(parseInt(saved))
-    }
-  }, [])
+  const {
+    templates,
+    loading: templatesLoading,
+    error: templatesError,
+    refresh: refreshTemplates,
+    deleteTemplate,
+    deleteError
+  } = useFaceTemplates(userId)
 
+  // Any user change (here, on another page or in another tab) starts over
   useEffect(() => {
-    const checkStatus = async () => {
-      try {
-        setStatusLoading(true)
-        const status = await faceAPI.getFaceStatus(userId)
-        setFaceStatus(status)
-      } catch (error) {
-        console.error('Failed to check face status:', error)
-        // Provide fallback status for demo
-        setFaceStatus({
-          user_id: userId,
-          user_name: demoUsers.find(u => u.id === userId)?.name || `User ${userId}`,
-          registered: false
-        })
-      } finally {
-        setStatusLoading(false)
-      }
-    }
-
-    if (userId) {
-      checkStatus()
-    }
-  }, [userId])
-
-  const handleUserIdChange = (newUserId: number) => {
-    setUserId(newUserId)
-    localStorage.setItem('selectedUserId', newUserId.toString())
     setRegistrationResult(null)
     setShowRegistration(false)
     setIsRegistering(false)
-    
-    // Refresh status for new user
-    setStatusLoading(true)
-  }
+    setTemplateLabel('')
+  }, [userId])
 
   const handleRegistrationSuccess = (result: any) => {
     console.log('Registration successful:', result)
@@ -70,29 +63,9 @@ const RegisterPage = () => {
     setShowRegistration(false)
     setIsRegistering(false)
     
-    // Refresh face status to show updated registration
-    const refreshStatus = async () => {
-      try {
-        const status = await faceAPI.getFaceStatus(userId)
-        setFaceStatus(status)
-      } catch (error) {
-        console.error('Failed to refresh face status:', error)
-        // Update local status based on registration result
-        setFaceStatus({
-          user_id: result.user_id,
-          user_name: result.user_name,
-          registered: true,
-          face_id: result.face_id,
-          quality_score: result.quality_score,
-          face_confidence: result.face_confidence,
-          model_name: result.model_name || 'ArcFace',
-          registration_source: result.registration_source || 'stream_v2',
-          registered_at: new Date().toISOString()
-        })
-      }
-    }
-    
-    refreshStatus()
+    // Refresh face status so every page shows the new registration
+    refreshFaceStatus()
+    refreshTemplates()
   }
 
   const handleRegistrationError = (error: string) => {
@@ -101,19 +74,48 @@ const RegisterPage = () => {
     // Error is already displayed in the component
   }
 
-  const startRegistration = () => {
+  const startRegistration = (snapshot = false) => {
     setRegistrationResult(null)
+    setSnapshotMode(snapshot)
     setShowRegistration(true)
     setIsRegistering(true)
   }
 
+  const label = templateLabel.trim() || DEFAULT_TEMPLATE_LABEL
+  // Registering a name the user already has replaces that template; the backend keeps the old one until the new one succeeds
+  const reEnroll = templates.some(template => (template.Label || DEFAULT_TEMPLATE_LABEL) === label)
+
+  const replaceTemplate = (existingLabel: string) => {
+    setTemplateLabel(existingLabel)
+    startRegistration()
+  }
+
+  // Re-enroll under Manage Registration replaces the newest template; the list is not sorted by date
+  const reEnrollLatest = () => {
+    const created = (template: Face) => Date.parse(template.CreationDateTime) || 0
+    const latest = templates.reduce<Face | undefined>(
+      (newest, template) => !newest || created(template) > created(newest) ? template : newest,
+      undefined
+    )
+    replaceTemplate(latest?.Label || DEFAULT_TEMPLATE_LABEL)
+  }
+
+  const handleDeleteTemplate = async (faceId: number) => {
+    const deleted = await deleteTemplate(faceId)
+    if (deleted) refreshFaceStatus()
+    return deleted
+  }
+
+  const handleRegistrationChanged = () => {
+    refreshFaceStatus()
+    refreshTemplates()
+  }
+
   const cancelRegistration = () => {
     setShowRegistration(false)
     setIsRegistering(false)
   }
 
-  const selectedUser = demoUsers.find(user => user.id === userId)
-
   return (
     <div className="container">
       <div className="text-center mb-8">
@@ -127,38 +129,33 @@ const RegisterPage = () => {
       <div className="card mb-6">
         <div className="flex items-center space-x-3 mb-4">
           <Users className="text-primary-600" size={24} />
-          <h2 className="text-xl font-semibold text-gray-900">Select Demo User</h2>
+          <h2 className="text-xl font-semibold text-gray-900">Select User</h2>
         </div>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-          {demoUsers.map(user => (
-            <div
-              key={user.id}
-              className={`p-4 border-2 rounded-lg cursor-pointer transition-colors ${
-                userId === user.id
-                  ? 'border-primary-500 bg-primary-50'
-                  : 'border-gray-200 hover:border-gray-300'
-              }`}
-              onClick={() => handleUserIdChange(user.id)}
-            >
-              <div className="flex items-center space-x-3">
-                <UserCheck 
-                  size={40} 
-                  className={userId === user.id ? 'text-primary-600' : 'text-gray-400'} 
-                />
-                <div>
-                  <h3 className="font-medium text-gray-900">{user.name}</h3>
-                  <p className="text-sm text-gray-600">{user.email}</p>
-                  <p className="text-xs text-gray-500">User ID: {user.id} | Role: {user.role}</p>
-                </div>
-              </div>
-            </div>
-          ))}
+        <div className="mb-4">
+          <UserPicker
+            users={users}
+            selectedUserId={userId}
+            onSelect={setSelectedUserId}
+            loading={usersLoading}
+            error={usersError}
+            disabled={isRegistering}
+          />
         </div>
         <p className="text-sm text-gray-600">
-          Selected User: <span className="font-medium">{selectedUser?.name} (ID: {userId})</span>
+          Selected User: <span className="font-medium">{selectedUser ? `${selectedUser.name} (ID: ${selectedUser.id})` : 'None'}</span>
         </p>
       </div>
 
+      {/* Status lookup failed - unknown, not "unregistered" */}
+      {statusError && (
+        <div className="alert-error mb-6">
+          <div className="flex items-center space-x-2">
+            <AlertCircle size={20} />
+            <p className="text-sm">Could not load registration status: {statusError}</p>
+          </div>
+        </div>
+      )}
+
       {/* Current Status - matches backend Face model structure */}
       {!statusLoading && faceStatus && (
         <div className="card mb-6">
@@ -167,6 +164,18 @@ const RegisterPage = () => {
             <h2 className="text-xl font-semibold text-gray-900">Current Registration Status</h2>
           </div>
           
+          {faceStatus.registered && faceStatus.is_active === false && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-3 text-yellow-800">
+              <div className="flex items-center space-x-2">
+                <PauseCircle size={20} />
+                <div>
+                  <p className="font-medium">Registration Deactivated</p>
+                  <p className="text-sm">The face templates are kept, but verification is refused until the registration is reactivated or replaced.</p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {faceStatus.registered ? (
             <div className="alert-success">
               <div className="flex items-center space-x-2">
@@ -176,6 +185,7 @@ const RegisterPage = () => {
                   <div className="text-sm space-y-1 mt-2">
                     <p><strong>User:</strong> {faceStatus.user_name}</p>
                     {faceStatus.face_id && <p><strong>Face ID:</strong> {faceStatus.face_id}</p>}
+                    {faceStatus.template_count !== undefined && <p><strong>Templates:</strong> {faceStatus.template_count}</p>}
                     {faceStatus.quality_score && <p><strong>Quality Score:</strong> {faceStatus.quality_score.toFixed(1)}%</p>}
                     {faceStatus.face_confidence && <p><strong>Face Confidence:</strong> {(faceStatus.face_confidence * 100).toFixed(1)}%</p>}
                     {faceStatus.model_name && <p><strong>Model:</strong> {faceStatus.model_name}</p>}
@@ -199,6 +209,29 @@ const RegisterPage = () => {
               </div>
             </div>
           )}
+
+          {faceStatus.registered && (
+            <FaceTemplateList
+              templates={templates}
+              loading={templatesLoading}
+              error={templatesError}
+              deleteError={deleteError}
+              onRefresh={refreshTemplates}
+              onReplace={replaceTemplate}
+              onDelete={handleDeleteTemplate}
+              disabled={isRegistering}
+            />
+          )}
+
+          {faceStatus.registered && userId && (
+            <FaceRegistrationActions
+              userId={userId}
+              faceStatus={faceStatus}
+              onReEnroll={reEnrollLatest}
+              onChanged={handleRegistrationChanged}
+              disabled={isRegistering}
+            />
+          )}
         </div>
       )}
 
@@ -213,12 +246,16 @@ const RegisterPage = () => {
                 <div className="text-sm space-y-1 mt-2">
                   <p><strong>User:</strong> {registrationResult.user_name}</p>
                   <p><strong>Face ID:</strong> {registrationResult.face_id}</p>
+                  {registrationResult.template_label && <p><strong>Template:</strong> {registrationResult.template_label}</p>}
                   <p><strong>Quality Score:</strong> {registrationResult.quality_score?.toFixed(1)}%</p>
                   <p><strong>Anti-spoofing Score:</strong> {(registrationResult.antispoofing_score * 100)?.toFixed(1)}%</p>
                   <p><strong>Face Confidence:</strong> {(registrationResult.face_confidence * 100)?.toFixed(1)}%</p>
                   <p><strong>Frames Processed:</strong> {registrationResult.frames_processed}</p>
                   <p><strong>Model:</strong> {registrationResult.model_name || 'ArcFace'}</p>
                   <p><strong>Registration Source:</strong> {registrationResult.registration_source || 'stream_v2'}</p>
+                  {registrationResult.replaced_face_id && (
+                    <p><strong>Replaced Face ID:</strong> {registrationResult.replaced_face_id} (previous template removed)</p>
+                  )}
                   {registrationResult.avg_processing_time && (
                     <p><strong>Avg Processing Time:</strong> {registrationResult.avg_processing_time.toFixed(0)}ms</p>
                   )}
@@ -235,16 +272,18 @@ const RegisterPage = () => {
           <div className="flex items-center space-x-3">
             <Shield className="text-primary-600" size={24} />
             <h2 className="text-xl font-semibold text-gray-900">
-              {faceStatus?.registered ? 'Re-register Face' : 'Register Face'}
+              {reEnroll ? `Re-enroll "${label}" Template` : faceStatus?.registered ? 'Add Face Template' : 'Register Face'}
             </h2>
           </div>
           
-          {!showRegistration && !isRegistering && (
+          {/* Replacing an existing template starts from Face Templates, behind a confirmation */}
+          {!showRegistration && !isRegistering && !reEnroll && (
             <button
-              onClick={startRegistration}
-              className="btn-primary"
+              onClick={() => startRegistration()}
+              disabled={!userId}
+              className="btn-primary disabled:opacity-50"
             >
-              {faceStatus?.registered ? 'Re-register with Real-Time System' : 'Start Real-Time Registration'}
+              {faceStatus?.registered ? `Add "${label}" Template` : 'Start Real-Time Registration'}
             </button>
           )}
           
@@ -258,22 +297,91 @@ const RegisterPage = () => {
           )}
         </div>
         
-        {showRegistration ? (
-          <RealTimeFaceRegistration
-            userId={userId}
-            onSuccess={handleRegistrationSuccess}
-            onError={handleRegistrationError}
-            className="w-full"
-          />
+        {/* Offered when the stream could not connect at all, e.g. behind a proxy that blocks WebSockets */}
+        {websocketBlocked && !snapshotMode && (
+          <div className="alert-info mb-4">
+            <div className="flex items-center space-x-2">
+              <WifiOff size={20} />
+              <div className="flex-1">
+                <p className="font-medium">Live streaming is unavailable on this network</p>
+                <p className="text-sm">The real-time connection could not be opened. You can register with a single photo instead.</p>
+              </div>
+              <button onClick={() => startRegistration(true)} disabled={!userId} className="btn-primary disabled:opacity-50">
+                Use Snapshot Mode
+              </button>
+            </div>
+          </div>
+        )}
+
+        {showRegistration && userId ? (
+          snapshotMode ? (
+            <SnapshotFaceCapture
+              kind="registration"
+              userId={userId}
+              reEnroll={reEnroll}
+              templateLabel={label}
+              onSuccess={handleRegistrationSuccess}
+              onError={handleRegistrationError}
+              className="w-full"
+            />
+          ) : (
+            <RealTimeFaceRegistration
+              userId={userId}
+              guidedEnrollment={guidedEnrollment}
+              reEnroll={reEnroll}
+              templateLabel={label}
+              onSuccess={handleRegistrationSuccess}
+              onError={handleRegistrationError}
+              onConnectionFailed={() => setWebsocketBlocked(true)}
+              className="w-full"
+            />
+          )
         ) : (
           <div className="text-center py-12">
             <Shield size={64} className="text-gray-400 mx-auto mb-4" />
             <p className="text-gray-600 mb-4">
-              Click "Start Real-Time Registration" to begin the secure face registration process
+              {reEnroll
+                ? `A "${label}" template already exists. Replace it from Face Templates above, or enter another name to add a template`
+                : faceStatus?.registered
+                  ? 'Add another template, e.g. with and without glasses, so verification matches however you look'
+                  : 'Click "Start Real-Time Registration" to begin the secure face registration process'}
             </p>
             <p className="text-sm text-gray-500">
               The system will capture and process multiple frames with advanced anti-spoofing detection
             </p>
+            <label className="mt-4 flex items-center justify-center space-x-2 text-sm text-gray-700">
+              <span>Template name</span>
+              <input
+                type="text"
+                value={templateLabel}
+                onChange={(e) => setTemplateLabel(e.target.value)}
+                placeholder={DEFAULT_TEMPLATE_LABEL}
+                list="template-label-suggestions"
+                maxLength={40}
+                className="w-40 rounded border border-gray-300 px-2 py-1"
+              />
+              <datalist id="template-label-suggestions">
+                {SUGGESTED_TEMPLATE_LABELS.map(suggestion => <option key={suggestion} value={suggestion} />)}
+              </datalist>
+            </label>
+            <label className="mt-4 inline-flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={guidedEnrollment}
+                onChange={(e) => setGuidedEnrollment(e.target.checked)}
+              />
+              <span>Guided multi-pose enrollment (front, left, right, up, down)</span>
+            </label>
+            <div className="mt-4">
+              <button
+                onClick={() => startRegistration(true)}
+                disabled={!userId}
+                className="inline-flex items-center space-x-2 text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
+              >
+                <Camera size={16} />
+                <span>Can't use live streaming? Register with a single photo (snapshot mode)</span>
+              </button>
+            </div>
           </div>
         )}
       </div>
@@ -329,7 +437,7 @@ const RegisterPage = () => {
               <li>• Look directly at the camera lens</li>
               <li>• Keep your face centered in the frame</li>
               <li>• Maintain consistent distance (arm's length)</li>
-              <li>• Remove glasses or masks if possible</li>
+              <li>• Add a separate template if you sometimes wear glasses</li>
               <li>• Stay still during frame capture</li>
               <li>• Allow 1-2 seconds between captures</li>
             </ul>
@@ -2,106 +2,93 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { faceAPI, FaceStatusResponse, VerificationHistoryResponse, SystemStatsResponse } from '@/lib/api'
-import { useUsers, useUserWithFaceStatus } from '@/hooks/useUsers'
-import { Activity, UserCheck, History, TrendingUp, CheckCircle, XCircle, Clock, Database, Wifi, Server, Shield, Eye, Award, Loader, BookOpen } from 'lucide-react'
+import { faceAPI, HealthResponse, VerificationHistoryResponse, SystemStatsResponse } from '@/lib/api'
+import { FaceApiError, isBackendUnavailable, toFaceApiError } from '@/lib/errors'
+import { useUserSession } from '@/hooks/useUserSession'
+import UserPicker from '@/components/UserPicker'
+import StreamingSessionPanel from '@/components/StreamingSessionPanel'
+import { Activity, UserCheck, History, TrendingUp, CheckCircle, XCircle, Clock, Database, Wifi, Server, Shield, Eye, Award, Loader, BookOpen, RefreshCw, WifiOff } from 'lucide-react'
 
 const StatusPage = () => {
   const [verificationHistory, setVerificationHistory] = useState<VerificationHistoryResponse | null>(null)
   const [systemStats, setSystemStats] = useState<SystemStatsResponse | null>(null)
-  const [systemHealth, setSystemHealth] = useState<any>(null)
+  const [systemHealth, setSystemHealth] = useState<HealthResponse | null>(null)
+  const [historyError, setHistoryError] = useState<FaceApiError | null>(null)
+  const [statsError, setStatsError] = useState<FaceApiError | null>(null)
+  const [healthError, setHealthError] = useState<FaceApiError | null>(null)
   const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
 
-  // Use real users from database
+  // Users, the current user and their face status come from the app-wide session
   const {
     users,
     selectedUser,
     selectedUserId,
     setSelectedUserId,
-    loading: usersLoading,
-    error: usersError,
-    stats: userStats
-  } = useUsers()
-
-  // Get face status for selected user
-  const {
+    usersLoading,
+    usersError,
+    userStats,
     faceStatus,
-    faceLoading: statusLoading,
-    faceError
-  } = useUserWithFaceStatus(selectedUserId)
+    faceStatusLoading: statusLoading,
+    faceStatusError: faceError
+  } = useUserSession()
 
   useEffect(() => {
+    // Switching users or leaving the page cancels in-flight requests (and their retries)
+    const controller = new AbortController()
+    const { signal } = controller
+
     const fetchData = async () => {
       if (!selectedUserId) return
 
-      try {
-        setLoading(true)
-        setError(null)
-        
-        // Fetch all data in parallel for better performance
-        const [historyResult, statsResult, healthResult] = await Promise.allSettled([
-          faceAPI.getVerificationHistory(selectedUserId, 20),
-          faceAPI.getStats(),
-          faceAPI.getHealth()
-        ])
-        
-        // Handle verification history
-        if (historyResult.status === 'fulfilled') {
-          setVerificationHistory(historyResult.value)
-        } else {
-          console.error('Failed to fetch verification history:', historyResult.reason)
-          setVerificationHistory({
-            user_id: selectedUserId,
-            total_verifications: 0,
-            verifications: []
-          })
-        }
-        
-        // Handle system stats
-        if (statsResult.status === 'fulfilled') {
-          setSystemStats(statsResult.value)
-        } else {
-          console.error('Failed to fetch system stats:', statsResult.reason)
-          setSystemStats({
-            total_users: userStats?.total_users || 0,
-            registered_faces: 0,
-            registration_rate: 0,
-            success_rate_24h: 0,
-            system_health: 'poor',
-            active_sessions: 0,
-            avg_processing_time: 0,
-            total_verifications_today: 0
-          })
-        }
-        
-        // Handle system health
-        if (healthResult.status === 'fulfilled') {
-          setSystemHealth(healthResult.value)
-        } else {
-          console.error('Failed to fetch system health:', healthResult.reason)
-          setSystemHealth({
-            status: 'error',
-            timestamp: new Date().toISOString(),
-            engine: 'unknown',
-            database: 'disconnected'
-          })
-        }
-        
-      } catch (error) {
-        console.error('Failed to fetch data:', error)
-        setError('Failed to load status data. Please try again.')
-      } finally {
-        setLoading(false)
+      setLoading(true)
+
+      // Fetch all data in parallel for better performance
+      const [historyResult, statsResult, healthResult] = await Promise.allSettled([
+        faceAPI.getVerificationHistory(selectedUserId, 20, { signal }),
+        faceAPI.getStats({ signal }),
+        faceAPI.getHealth({ signal })
+      ])
+
+      if (signal.aborted) return
+
+      // Failures are kept as errors rather than replaced with zeroed placeholders,
+      // so "backend down" is never shown as "no data"
+      if (historyResult.status === 'fulfilled') {
+        setVerificationHistory(historyResult.value)
+        setHistoryError(null)
+      } else {
+        console.error('Failed to fetch verification history:', historyResult.reason)
+        setVerificationHistory(null)
+        setHistoryError(toFaceApiError(historyResult.reason))
       }
+
+      if (statsResult.status === 'fulfilled') {
+        setSystemStats(statsResult.value)
+        setStatsError(null)
+      } else {
+        console.error('Failed to fetch system stats:', statsResult.reason)
+        setSystemStats(null)
+        setStatsError(toFaceApiError(statsResult.reason))
+      }
+
+      if (healthResult.status === 'fulfilled') {
+        setSystemHealth(healthResult.value)
+        setHealthError(null)
+      } else {
+        console.error('Failed to fetch system health:', healthResult.reason)
+        setSystemHealth(null)
+        setHealthError(toFaceApiError(healthResult.reason))
+      }
+
+      setLoading(false)
     }
 
     fetchData()
-  }, [selectedUserId, userStats])
+    return () => controller.abort()
+  }, [selectedUserId, reloadKey])
 
-  const handleUserChange = (newUserId: number) => {
-    setSelectedUserId(newUserId)
-  }
+  const backendDown = [historyError, statsError, healthError].some(isBackendUnavailable)
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString()
@@ -149,15 +136,27 @@ const StatusPage = () => {
         </p>
       </div>
 
-      {/* Error Display */}
-      {error && (
+      {/* Backend unreachable - distinct from an empty but healthy system */}
+      {backendDown && (
         <div className="card mb-6 bg-red-50 border-red-200">
-          <div className="flex items-center space-x-2">
-            <XCircle size={20} className="text-red-600" />
-            <div>
-              <p className="font-medium text-red-800">Error Loading Data</p>
-              <p className="text-sm text-red-600">{error}</p>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <WifiOff size={20} className="text-red-600" />
+              <div>
+                <p className="font-medium text-red-800">Backend Unreachable</p>
+                <p className="text-sm text-red-600">
+                  {(healthError || statsError || historyError)?.message}. Figures below may be missing until the backend is back.
+                </p>
+              </div>
             </div>
+            <button
+              onClick={() => setReloadKey(key => key + 1)}
+              disabled={loading}
+              className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+            >
+              <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+              <span>Retry</span>
+            </button>
           </div>
         </div>
       )}
@@ -182,27 +181,13 @@ const StatusPage = () => {
         {/* Users selection */}
         {!usersError && users.length > 0 && (
           <>
-            <div className="flex flex-wrap gap-2 mb-3">
-              {users.slice(0, 8).map(user => ( // Show first 8 users for status
-                <button
-                  key={user.id}
-                  onClick={() => handleUserChange(user.id)}
-                  className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                    selectedUserId === user.id
-                      ? 'bg-primary-600 text-white'
-                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                  }`}
-                >
-                  {user.name.split(' ')[0]} {/* Show first name only */}
-                </button>
-              ))}
+            <div className="mb-3">
+              <UserPicker
+                users={users}
+                selectedUserId={selectedUserId}
+                onSelect={setSelectedUserId}
+              />
             </div>
-            
-            {users.length > 8 && (
-              <div className="text-center text-sm text-gray-600 mb-3">
-                Showing 8 of {users.length} users.
-              </div>
-            )}
 
             <p className="text-sm text-gray-600">
               Selected: {selectedUser ? `${selectedUser.name} (ID: ${selectedUser.id})` : 'None selected'} | 
@@ -266,11 +251,15 @@ const StatusPage = () => {
                         <span className="text-green-600 font-medium">Registered</span>
                       </div>
                       {faceStatus.face_id && <p><span className="text-gray-600">Face ID:</span> {faceStatus.face_id}</p>}
+                      {faceStatus.template_count !== undefined && <p><span className="text-gray-600">Templates:</span> {faceStatus.template_count}</p>}
                       {faceStatus.quality_score && <p><span className="text-gray-600">Quality Score:</span> {faceStatus.quality_score.toFixed(1)}%</p>}
                       {faceStatus.face_confidence && <p><span className="text-gray-600">Face Confidence:</span> {(faceStatus.face_confidence * 100).toFixed(1)}%</p>}
                       <p><span className="text-gray-600">Model:</span> {faceStatus.model_name || 'ArcFace'}</p>
                       <p><span className="text-gray-600">Detector:</span> {faceStatus.detector_backend || 'opencv'}</p>
                       <p><span className="text-gray-600">Source:</span> {faceStatus.registration_source || 'unknown'}</p>
+                      {faceStatus.is_active === false && (
+                        <p className="text-yellow-700 font-medium">Deactivated - verification is refused</p>
+                      )}
                       {faceStatus.registered_at && (
                         <p><span className="text-gray-600">Registered:</span> {formatDate(faceStatus.registered_at)}</p>
                       )}
@@ -291,6 +280,9 @@ const StatusPage = () => {
         </div>
       )}
 
+      {/* Live registration/verification stream, if any */}
+      {selectedUserId && <StreamingSessionPanel userId={selectedUserId} />}
+
       {/* System Health - matches backend HealthResponse */}
       {systemHealth && (
         <div className="card mb-6">
@@ -373,6 +365,31 @@ const StatusPage = () => {
         </div>
       )}
 
+      {/* Health check failed while the backend is otherwise reachable */}
+      {!systemHealth && healthError && !backendDown && (
+        <div className="card mb-6">
+          <div className="flex items-center space-x-3 mb-2">
+            <Server className="text-primary-600" size={24} />
+            <h2 className="text-xl font-semibold text-gray-900">System Health Status</h2>
+          </div>
+          <p className="text-sm text-red-600">Health check failed: {healthError.message}</p>
+        </div>
+      )}
+
+      {/* Statistics could not be loaded - never shown as zeros */}
+      {!systemStats && statsError && (
+        <div className="card mb-6">
+          <div className="flex items-center space-x-3 mb-2">
+            <TrendingUp className="text-primary-600" size={24} />
+            <h2 className="text-xl font-semibold text-gray-900">System Statistics</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            Statistics unavailable: {statsError.message}
+            {statsError.status && ` (HTTP ${statsError.status})`}
+          </p>
+        </div>
+      )}
+
       {/* System Statistics - matches backend SystemStatsResponse */}
       {systemStats && (
         <div className="card mb-6">
@@ -497,10 +514,7 @@ const StatusPage = () => {
                     {verificationHistory.verifications.map((verification) => (
                       <tr key={verification.verification_id} className="border-b border-gray-100 hover:bg-gray-50">
                         <td className="py-3 px-3 text-sm">
-                          {verification.verification_datetime ? 
-                            formatDate(verification.verification_datetime) : 
-                            verification.verified_at ? formatDate(verification.verified_at) : 'N/A'
-                          }
+                          {verification.verification_datetime ? formatDate(verification.verification_datetime) : 'N/A'}
                         </td>
                         <td className="py-3 px-3">
                           <span className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${
@@ -516,6 +530,9 @@ const StatusPage = () => {
                           <span className={`font-medium ${verification.similarity_score >= 55 ? 'text-green-600' : 'text-red-600'}`}>
                             {verification.similarity_score.toFixed(1)}%
                           </span>
+                          {verification.matched_template_label && (
+                            <div className="text-xs text-gray-500">Template: {verification.matched_template_label}</div>
+                          )}
                         </td>
                         <td className="py-3 px-3 text-sm">
                           {verification.quality_score ? (
@@ -538,6 +555,12 @@ const StatusPage = () => {
                                 <span>Quiz: {verification.quiz_id}</span>
                               </div>
                             )}
+                            {verification.source === 'proctoring' && (
+                              <div className="flex items-center space-x-1 text-gray-500">
+                                <Eye size={12} />
+                                <span>Proctoring re-check</span>
+                              </div>
+                            )}
                           </div>
                         </td>
                         <td className="py-3 px-3 text-xs text-gray-600">
@@ -588,6 +611,17 @@ const StatusPage = () => {
         </div>
       )}
 
+      {/* Verification history could not be loaded */}
+      {selectedUserId && !verificationHistory && historyError && (
+        <div className="card">
+          <div className="flex items-center space-x-3 mb-2">
+            <History className="text-primary-600" size={24} />
+            <h2 className="text-xl font-semibold text-gray-900">Verification History</h2>
+          </div>
+          <p className="text-sm text-red-600">Could not load verification history: {historyError.message}</p>
+        </div>
+      )}
+
       {/* No user selected for verification history */}
       {!selectedUserId && (
         <div className="card">
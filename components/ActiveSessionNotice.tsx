@@ -0,0 +1,36 @@
+// components/ActiveSessionNotice.tsx - Warns that the user already has a streaming session open elsewhere
+'use client'
+
+import React from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { useActiveSession } from '@/hooks/useActiveSession'
+
+interface ActiveSessionNoticeProps {
+  userId: number
+  // Only checked while this flow is not streaming itself, so its own session is never reported
+  enabled: boolean
+  className?: string
+}
+
+const ActiveSessionNotice: React.FC<ActiveSessionNoticeProps> = ({ userId, enabled, className = '' }) => {
+  const { session } = useActiveSession(userId, { enabled })
+
+  if (!enabled || !session) return null
+
+  return (
+    <div className={`w-full bg-yellow-50 border border-yellow-200 rounded-lg p-4 ${className}`} role="status">
+      <div className="flex items-start space-x-2">
+        <AlertTriangle size={20} className="text-yellow-600 mt-0.5" />
+        <div className="text-sm text-yellow-800">
+          <p className="font-medium">Another {session.SessionType} session is already active for this user</p>
+          <p>
+            Started {session.StartTime ? new Date(session.StartTime).toLocaleString() : 'earlier'} with {session.FramesProcessed} frames processed,
+            probably in another tab or on another device. Close it there before starting here, or ask an administrator to end it from the Status page.
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ActiveSessionNotice
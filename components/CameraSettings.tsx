@@ -0,0 +1,113 @@
+// components/CameraSettings.tsx - Camera picker, resolution/frame rate selection and mirror toggle
+'use client'
+
+import React, { useState } from 'react'
+import { Settings, ChevronDown, ChevronUp } from 'lucide-react'
+import { CameraPreferencesState } from '@/hooks/useCameraPreferences'
+import { FRAME_RATE_OPTIONS, RESOLUTION_OPTIONS } from '@/lib/camera'
+
+interface CameraSettingsProps {
+  camera: CameraPreferencesState
+  className?: string
+}
+
+const CameraSettings: React.FC<CameraSettingsProps> = ({ camera, className = '' }) => {
+  const [open, setOpen] = useState(false)
+  const { preferences, updatePreferences, devices, refreshDevices } = camera
+
+  const toggle = () => {
+    // Device labels only appear once camera permission has been granted
+    if (!open) refreshDevices()
+    setOpen(!open)
+  }
+
+  const selectedDeviceMissing = preferences.deviceId !== null &&
+    devices.length > 0 &&
+    !devices.some(device => device.deviceId === preferences.deviceId)
+
+  return (
+    <div className={`w-full max-w-md ${className}`}>
+      <button
+        type="button"
+        onClick={toggle}
+        className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900"
+        aria-expanded={open}
+      >
+        <Settings size={16} />
+        <span>Camera settings</span>
+        {open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {open && (
+        <div className="mt-2 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3 text-sm">
+          <label className="block">
+            <span className="block text-gray-700 mb-1">Camera</span>
+            <select
+              value={preferences.deviceId ?? ''}
+              onChange={(e) => updatePreferences({ deviceId: e.target.value || null })}
+              className="w-full border border-gray-300 rounded px-2 py-1 bg-white"
+            >
+              <option value="">Default front camera</option>
+              {devices.map((device, index) => (
+                <option key={device.deviceId || index} value={device.deviceId}>
+                  {device.label || `Camera ${index + 1}`}
+                </option>
+              ))}
+            </select>
+            {selectedDeviceMissing && (
+              <span className="block text-xs text-yellow-700 mt-1">
+                The saved camera is not connected; the default camera is used instead.
+              </span>
+            )}
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-gray-700 mb-1">Resolution</span>
+              <select
+                value={preferences.resolution ? `${preferences.resolution.width}x${preferences.resolution.height}` : ''}
+                onChange={(e) => {
+                  const [width, height] = e.target.value.split('x').map(Number)
+                  updatePreferences({ resolution: e.target.value ? { width, height } : null })
+                }}
+                className="w-full border border-gray-300 rounded px-2 py-1 bg-white"
+              >
+                <option value="">Recommended</option>
+                {RESOLUTION_OPTIONS.map(option => (
+                  <option key={option.label} value={`${option.width}x${option.height}`}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="block text-gray-700 mb-1">Frame rate</span>
+              <select
+                value={preferences.frameRate ?? ''}
+                onChange={(e) => updatePreferences({ frameRate: e.target.value ? Number(e.target.value) : null })}
+                className="w-full border border-gray-300 rounded px-2 py-1 bg-white"
+              >
+                <option value="">Recommended</option>
+                {FRAME_RATE_OPTIONS.map(rate => (
+                  <option key={rate} value={rate}>{rate} fps</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="flex items-center space-x-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={preferences.mirror}
+              onChange={(e) => updatePreferences({ mirror: e.target.checked })}
+            />
+            <span>Mirror preview</span>
+          </label>
+
+          <p className="text-xs text-gray-500">Saved on this device. Changes apply to the running camera immediately.</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CameraSettings
@@ -0,0 +1,73 @@
+// components/ContractWarningsPanel.tsx - Dev-only list of backend response contract mismatches
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { AlertTriangle, X, Trash2 } from 'lucide-react'
+import { ContractIssue, getContractIssues, subscribeContractIssues, clearContractIssues } from '@/lib/contracts'
+
+const PROBLEM_STYLES: Record<ContractIssue['problem'], string> = {
+  missing: 'bg-red-100 text-red-800',
+  type: 'bg-red-100 text-red-800',
+  coerced: 'bg-yellow-100 text-yellow-800',
+  variant: 'bg-blue-100 text-blue-800'
+}
+
+const ContractWarningsPanel: React.FC = () => {
+  const [issues, setIssues] = useState<ContractIssue[]>([])
+  const [open, setOpen] = useState(false)
+
+  useEffect(() => {
+    setIssues(getContractIssues())
+    return subscribeContractIssues(setIssues)
+  }, [])
+
+  if (issues.length === 0) return null
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 max-w-lg text-left">
+      {open ? (
+        <div className="bg-white border border-yellow-300 rounded-lg shadow-lg">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-yellow-200 bg-yellow-50 rounded-t-lg">
+            <div className="flex items-center space-x-2 text-yellow-800">
+              <AlertTriangle size={16} />
+              <span className="text-sm font-semibold">API contract mismatches ({issues.length})</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button onClick={clearContractIssues} className="text-gray-500 hover:text-gray-700" title="Clear">
+                <Trash2 size={16} />
+              </button>
+              <button onClick={() => setOpen(false)} className="text-gray-500 hover:text-gray-700" title="Close">
+                <X size={16} />
+              </button>
+            </div>
+          </div>
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+            {issues.map(issue => (
+              <li key={`${issue.endpoint}|${issue.path}|${issue.problem}`} className="px-4 py-2 text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="font-mono text-gray-900">{issue.endpoint}</span>
+                  <span className={`px-2 py-0.5 rounded-full font-medium ${PROBLEM_STYLES[issue.problem]}`}>
+                    {issue.problem}{issue.count > 1 ? ` ×${issue.count}` : ''}
+                  </span>
+                </div>
+                <p className="mt-1 text-gray-600">
+                  <span className="font-mono">{issue.path}</span>: {issue.message}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <button
+          onClick={() => setOpen(true)}
+          className="flex items-center space-x-2 px-3 py-2 bg-yellow-100 border border-yellow-300 text-yellow-800 rounded-full shadow text-xs font-medium"
+        >
+          <AlertTriangle size={14} />
+          <span>{issues.length} API contract {issues.length === 1 ? 'mismatch' : 'mismatches'}</span>
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default ContractWarningsPanel
@@ -0,0 +1,84 @@
+// components/FaceGuideOverlay.tsx - Guide oval and live face bounding boxes drawn over a video preview
+'use client'
+
+import React from 'react'
+import { DetectedFace, FACE_GUIDE, FacePositionReport } from '@/lib/faceDetection'
+import { FrameSize } from '@/hooks/useFaceStreamSession'
+
+interface FaceGuideOverlayProps {
+  faces: DetectedFace[]
+  videoSize: FrameSize | null
+  position: FacePositionReport | null
+  // Show face count and size under the oval
+  showStats?: boolean
+  // Match a mirrored video preview; the stats text stays readable
+  mirrored?: boolean
+  className?: string
+}
+
+// Same geometry as object-cover on the video, so boxes line up with the picture
+const FaceGuideOverlay: React.FC<FaceGuideOverlayProps> = ({
+  faces,
+  videoSize,
+  position,
+  showStats = true,
+  mirrored = false,
+  className = ''
+}) => {
+  const { width, height } = videoSize || { width: 480, height: 360 }
+  const guideColor = position?.ok ? '#4ade80' : position ? '#facc15' : '#ffffff'
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid slice"
+      className={`absolute inset-0 w-full h-full pointer-events-none ${className}`}
+      aria-hidden="true"
+    >
+      <g transform={mirrored ? `translate(${width} 0) scale(-1 1)` : undefined}>
+        <ellipse
+          cx={FACE_GUIDE.centerX * width}
+          cy={FACE_GUIDE.centerY * height}
+          rx={FACE_GUIDE.radiusX * width}
+          ry={FACE_GUIDE.radiusY * height}
+          fill="none"
+          stroke={guideColor}
+          strokeWidth={3}
+          strokeDasharray={position?.ok ? undefined : '12 8'}
+          opacity={0.8}
+        />
+
+        {faces.map((face, index) => (
+          <rect
+            key={index}
+            x={face.x}
+            y={face.y}
+            width={face.width}
+            height={face.height}
+            fill="none"
+            stroke={faces.length > 1 ? '#f87171' : '#60a5fa'}
+            strokeWidth={2}
+            rx={6}
+          />
+        ))}
+      </g>
+
+      {showStats && position && (
+        <text
+          x={width / 2}
+          y={(FACE_GUIDE.centerY + FACE_GUIDE.radiusY) * height + 18}
+          textAnchor="middle"
+          fill={guideColor}
+          fontSize={Math.round(height / 28)}
+          fontWeight={600}
+        >
+          {position.faceCount === 1 && position.faceSize !== null
+            ? `1 face • ${(position.faceSize * 100).toFixed(0)}% of frame`
+            : `${position.faceCount} faces`}
+        </text>
+      )}
+    </svg>
+  )
+}
+
+export default FaceGuideOverlay
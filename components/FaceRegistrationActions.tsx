@@ -0,0 +1,165 @@
+// components/FaceRegistrationActions.tsx - Re-enroll, deactivate/reactivate and permanently delete a face registration
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { RefreshCw, PauseCircle, PlayCircle, Trash2, Loader, XCircle, CheckCircle } from 'lucide-react'
+import { faceAPI, FaceStatusResponse } from '@/lib/api'
+import { getErrorMessage } from '@/lib/errors'
+
+type FaceAction = 're_enroll' | 'deactivate' | 'reactivate' | 'delete'
+
+interface FaceRegistrationActionsProps {
+  userId: number
+  faceStatus: FaceStatusResponse
+  // Starts a registration replacing the most recent template, which stays in use until it succeeds
+  onReEnroll: () => void
+  // Called after the backend changed the registration, to refresh face status everywhere
+  onChanged: () => void
+  disabled?: boolean
+}
+
+// Typed to confirm a permanent delete
+const DELETE_CONFIRMATION = 'DELETE'
+
+const CONFIRM_TEXT: Record<FaceAction, string> = {
+  re_enroll: 'Replace the most recent face template? It keeps working until the new registration completes.',
+  deactivate: 'Deactivate this registration and all its templates? Verification is refused until it is reactivated or replaced.',
+  reactivate: 'Reactivate this registration? Verification will use it again.',
+  delete: 'Permanently delete every face template of this user? This cannot be undone; the user must register again before verifying.'
+}
+
+const FaceRegistrationActions: React.FC<FaceRegistrationActionsProps> = ({
+  userId,
+  faceStatus,
+  onReEnroll,
+  onChanged,
+  disabled = false
+}) => {
+  const [pending, setPending] = useState<FaceAction | null>(null)
+  const [typed, setTyped] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const active = faceStatus.is_active !== false
+
+  // A different user starts with nothing pending
+  useEffect(() => {
+    setPending(null)
+    setError(null)
+    setNotice(null)
+  }, [userId])
+
+  const ask = (action: FaceAction) => {
+    setPending(action)
+    setTyped('')
+    setError(null)
+    setNotice(null)
+  }
+
+  const confirm = async () => {
+    if (!pending) return
+
+    if (pending === 're_enroll') {
+      setPending(null)
+      onReEnroll()
+      return
+    }
+
+    setBusy(true)
+    setError(null)
+    try {
+      const result = pending === 'delete'
+        ? await faceAPI.deleteFace(userId)
+        : pending === 'deactivate'
+          ? await faceAPI.deactivateFace(userId)
+          : await faceAPI.reactivateFace(userId)
+      console.log(`🗂️ Face registration ${pending} for user ${userId}:`, result)
+      setNotice(result.message || 'Registration updated')
+      setPending(null)
+      onChanged()
+    } catch (error) {
+      console.error(`❌ Face registration ${pending} failed:`, error)
+      setError(getErrorMessage(error, 'Could not update the registration'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const confirmDisabled = busy || (pending === 'delete' && typed !== DELETE_CONFIRMATION)
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <h3 className="font-semibold text-gray-900 mb-3">Manage Registration</h3>
+
+      {pending ? (
+        <div className={`p-4 rounded-lg border ${pending === 'delete' ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+          <p className="text-sm text-gray-800 mb-3">{CONFIRM_TEXT[pending]}</p>
+          {pending === 'delete' && (
+            <label className="block text-sm text-gray-700 mb-3">
+              Type <span className="font-mono font-semibold">{DELETE_CONFIRMATION}</span> to confirm
+              <input
+                type="text"
+                value={typed}
+                onChange={(e) => setTyped(e.target.value)}
+                disabled={busy}
+                className="mt-1 block w-48 rounded border border-gray-300 px-2 py-1 font-mono"
+                autoFocus
+              />
+            </label>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={confirm}
+              disabled={confirmDisabled}
+              className={`btn-primary flex items-center space-x-2 disabled:opacity-50 ${pending === 'delete' ? 'bg-red-600 hover:bg-red-700' : ''}`}
+            >
+              {busy && <Loader size={16} className="animate-spin" />}
+              <span>{pending === 'delete' ? 'Delete permanently' : pending === 're_enroll' ? 'Start re-enrollment' : pending === 'deactivate' ? 'Deactivate' : 'Reactivate'}</span>
+            </button>
+            <button onClick={() => setPending(null)} disabled={busy} className="btn-secondary disabled:opacity-50">
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => ask('re_enroll')} disabled={disabled} className="btn-secondary flex items-center space-x-2 disabled:opacity-50">
+            <RefreshCw size={16} />
+            <span>Re-enroll</span>
+          </button>
+          {active ? (
+            <button onClick={() => ask('deactivate')} disabled={disabled} className="btn-secondary flex items-center space-x-2 disabled:opacity-50">
+              <PauseCircle size={16} />
+              <span>Deactivate</span>
+            </button>
+          ) : (
+            <button onClick={() => ask('reactivate')} disabled={disabled} className="btn-secondary flex items-center space-x-2 disabled:opacity-50">
+              <PlayCircle size={16} />
+              <span>Reactivate</span>
+            </button>
+          )}
+          <button onClick={() => ask('delete')} disabled={disabled} className="btn-secondary flex items-center space-x-2 text-red-600 disabled:opacity-50">
+            <Trash2 size={16} />
+            <span>Delete permanently</span>
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 mt-3">
+          <XCircle size={16} className="text-red-600" />
+          <span className="text-sm text-red-600">{error}</span>
+        </div>
+      )}
+      {notice && (
+        <div className="flex items-center space-x-2 mt-3">
+          <CheckCircle size={16} className="text-green-600" />
+          <span className="text-sm text-green-700">{notice}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FaceRegistrationActions
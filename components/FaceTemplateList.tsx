@@ -0,0 +1,159 @@
+// components/FaceTemplateList.tsx - A user's named face templates with quality scores, replace and delete
+'use client'
+
+import React, { useState } from 'react'
+import { Layers, RefreshCw, Trash2, Loader, XCircle } from 'lucide-react'
+import { Face, DEFAULT_TEMPLATE_LABEL } from '@/lib/api'
+import { FaceApiError } from '@/lib/errors'
+
+interface FaceTemplateListProps {
+  templates: Face[]
+  loading: boolean
+  error: FaceApiError | null
+  deleteError: FaceApiError | null
+  onRefresh: () => void
+  // Starts a registration that replaces the template with this label
+  onReplace: (label: string) => void
+  onDelete: (faceId: number) => Promise<boolean>
+  disabled?: boolean
+}
+
+type TemplateAction = 'replace' | 'delete'
+
+const templateLabel = (template: Face) => template.Label || DEFAULT_TEMPLATE_LABEL
+
+const FaceTemplateList: React.FC<FaceTemplateListProps> = ({
+  templates,
+  loading,
+  error,
+  deleteError,
+  onRefresh,
+  onReplace,
+  onDelete,
+  disabled = false
+}) => {
+  const [pending, setPending] = useState<{ action: TemplateAction; template: Face } | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  const confirm = async () => {
+    if (!pending) return
+
+    if (pending.action === 'replace') {
+      setPending(null)
+      onReplace(templateLabel(pending.template))
+      return
+    }
+
+    setDeleting(true)
+    const deleted = await onDelete(pending.template.id)
+    setDeleting(false)
+    if (deleted) setPending(null)
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Layers size={18} className="text-primary-600" />
+          <h3 className="font-semibold text-gray-900">Face Templates ({templates.length})</h3>
+        </div>
+        <button onClick={onRefresh} disabled={loading} className="text-sm text-primary-600 hover:text-primary-700 flex items-center space-x-1 disabled:opacity-50">
+          <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">Could not load templates: {error.message}</p>}
+
+      {!error && templates.length === 0 && (
+        <p className="text-sm text-gray-600">{loading ? 'Loading templates...' : 'No templates found.'}</p>
+      )}
+
+      {templates.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-2 font-semibold text-gray-900">Template</th>
+                <th className="text-left py-2 px-2 font-semibold text-gray-900">Quality</th>
+                <th className="text-left py-2 px-2 font-semibold text-gray-900">Confidence</th>
+                <th className="text-left py-2 px-2 font-semibold text-gray-900">Source</th>
+                <th className="text-left py-2 px-2 font-semibold text-gray-900">Registered</th>
+                <th className="py-2 px-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map(template => (
+                <tr key={template.id} className="border-b border-gray-100">
+                  <td className="py-2 px-2">
+                    <span className="font-medium">{templateLabel(template)}</span>
+                    <span className="text-xs text-gray-500 ml-1">#{template.id}</span>
+                    {!template.IsActive && <span className="text-xs text-yellow-700 ml-2">(inactive)</span>}
+                  </td>
+                  <td className="py-2 px-2">{template.QualityScore !== undefined ? `${template.QualityScore.toFixed(1)}%` : '—'}</td>
+                  <td className="py-2 px-2">{template.FaceConfidence !== undefined ? `${(template.FaceConfidence * 100).toFixed(1)}%` : '—'}</td>
+                  <td className="py-2 px-2 text-gray-600">{template.RegistrationSource}</td>
+                  <td className="py-2 px-2 text-gray-600">{template.CreationDateTime ? new Date(template.CreationDateTime).toLocaleString() : '—'}</td>
+                  <td className="py-2 px-2">
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => setPending({ action: 'replace', template })}
+                        disabled={disabled || deleting}
+                        className="text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                        title="Replace this template"
+                      >
+                        <RefreshCw size={16} />
+                      </button>
+                      <button
+                        onClick={() => setPending({ action: 'delete', template })}
+                        disabled={disabled || deleting}
+                        className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                        title="Delete this template"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pending && (
+        <div className={`mt-3 p-3 rounded-lg border ${pending.action === 'delete' ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+          <p className="text-sm text-gray-800 mb-2">
+            {pending.action === 'replace'
+              ? `Register a new "${templateLabel(pending.template)}" template? The current one keeps working until the new registration completes.`
+              : templates.length === 1
+                ? `Delete the "${templateLabel(pending.template)}" template? It is the only one, so the user must register again before verifying.`
+                : `Delete the "${templateLabel(pending.template)}" template? Verification keeps using the user's other templates.`}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={confirm}
+              disabled={deleting}
+              className={`btn-primary flex items-center space-x-2 disabled:opacity-50 ${pending.action === 'delete' ? 'bg-red-600 hover:bg-red-700' : ''}`}
+            >
+              {deleting && <Loader size={16} className="animate-spin" />}
+              <span>{pending.action === 'delete' ? 'Delete template' : 'Start re-enrollment'}</span>
+            </button>
+            <button onClick={() => setPending(null)} disabled={deleting} className="btn-secondary disabled:opacity-50">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {deleteError && (
+        <div className="flex items-center space-x-2 mt-3">
+          <XCircle size={16} className="text-red-600" />
+          <span className="text-sm text-red-600">Could not delete the template: {deleteError.message}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FaceTemplateList
@@ -0,0 +1,30 @@
+// components/FrameQualityCoaching.tsx - Live coaching line for frames rejected by the in-browser quality check
+'use client'
+
+import React from 'react'
+import { Sun, Eye } from 'lucide-react'
+
+interface FrameQualityCoachingProps {
+  coaching: string | null
+  framesSkipped: number
+}
+
+const FrameQualityCoaching: React.FC<FrameQualityCoachingProps> = ({ coaching, framesSkipped }) => {
+  if (!coaching) {
+    return framesSkipped > 0 ? (
+      <div className="mt-2 flex items-center space-x-1 text-xs text-green-300">
+        <Eye size={12} />
+        <span>Frame quality good ({framesSkipped} skipped)</span>
+      </div>
+    ) : null
+  }
+
+  return (
+    <div className="mt-2 flex items-center space-x-2 bg-yellow-500 bg-opacity-90 text-yellow-950 px-2 py-1 rounded text-xs font-medium" role="status">
+      <Sun size={14} />
+      <span>{coaching}</span>
+    </div>
+  )
+}
+
+export default FrameQualityCoaching
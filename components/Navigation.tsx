@@ -3,10 +3,13 @@
 
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
-import { Home, UserPlus, BookOpen, Activity, Shield } from 'lucide-react'
+import { Home, UserPlus, BookOpen, Activity, Stethoscope, Shield, LogIn, LogOut, UserCircle } from 'lucide-react'
+import { logout } from '@/lib/auth'
+import { useUserSession } from '@/hooks/useUserSession'
 
 const Navigation = () => {
   const pathname = usePathname()
+  const { selectedUser, isAuthenticated: authenticated, faceStatus } = useUserSession()
 
   const navItems = [
     { 
@@ -33,6 +36,12 @@ const Navigation = () => {
       icon: Activity,
       description: 'Analytics and verification history'
     },
+    { 
+      href: '/check', 
+      label: 'System Check', 
+      icon: Stethoscope,
+      description: 'Camera and connection diagnostics'
+    },
   ]
 
   return (
@@ -90,9 +99,31 @@ const Navigation = () => {
               <span>•</span>
               <span>Security: Enterprise Grade</span>
             </div>
-            <div className="flex items-center space-x-2">
-              <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
-              <span>System Active</span>
+            <div className="flex items-center space-x-4">
+              {selectedUser && (
+                <div className="flex items-center space-x-1" title={faceStatus?.registered ? 'Face registered' : undefined}>
+                  <UserCircle size={12} className={faceStatus?.registered ? 'text-green-600' : 'text-gray-500'} />
+                  <span>{selectedUser.name}</span>
+                </div>
+              )}
+              <div className="flex items-center space-x-2">
+                <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
+                <span>System Active</span>
+              </div>
+              {authenticated ? (
+                <button
+                  onClick={() => logout()}
+                  className="flex items-center space-x-1 text-gray-600 hover:text-gray-900"
+                >
+                  <LogOut size={12} />
+                  <span>Sign Out</span>
+                </button>
+              ) : (
+                <Link href="/login" className="flex items-center space-x-1 text-gray-600 hover:text-gray-900">
+                  <LogIn size={12} />
+                  <span>Sign In</span>
+                </Link>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,89 @@
+// components/ProctoringMonitor.tsx - Camera preview and flagged events for background quiz proctoring
+'use client'
+
+import React from 'react'
+import { Eye, EyeOff, Flag, Loader, ShieldCheck } from 'lucide-react'
+import FaceGuideOverlay from '@/components/FaceGuideOverlay'
+import { ProctoringSession } from '@/hooks/useProctoring'
+import { PROCTORING_EVENT_LABELS } from '@/lib/proctoring'
+
+interface ProctoringMonitorProps {
+  proctoring: ProctoringSession
+  className?: string
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString()
+
+const ProctoringMonitor: React.FC<ProctoringMonitorProps> = ({ proctoring, className = '' }) => {
+  const { videoRef, status, events, checksRun, checking, syncError, detectorStatus, faces, videoSize, position } = proctoring
+
+  const getStatusText = () => {
+    switch (status) {
+      case 'starting':
+        return 'Starting proctoring camera...'
+      case 'active':
+        return checking ? 'Re-verifying identity...' : 'Proctoring active'
+      case 'camera_error':
+        return 'Camera unavailable - this has been recorded'
+      case 'stopped':
+        return 'Proctoring ended'
+      default:
+        return 'Proctoring idle'
+    }
+  }
+
+  return (
+    <div className={`flex items-start space-x-4 p-4 bg-gray-50 border border-gray-200 rounded-lg ${className}`}>
+      <div className="relative shrink-0">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className="w-40 h-30 object-cover rounded border border-gray-300 bg-black"
+        />
+        {status === 'active' && (
+          <FaceGuideOverlay faces={faces} videoSize={videoSize} position={position} showStats={false} className="rounded" />
+        )}
+      </div>
+
+      <div className="flex-1 text-sm">
+        <div className="flex items-center space-x-2 font-medium text-gray-800">
+          {status === 'active' ? (
+            checking ? <Loader size={16} className="animate-spin text-blue-600" /> : <Eye size={16} className="text-green-600" />
+          ) : status === 'camera_error' ? (
+            <EyeOff size={16} className="text-red-600" />
+          ) : (
+            <ShieldCheck size={16} className="text-gray-500" />
+          )}
+          <span>{getStatusText()}</span>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Your identity is re-checked at random times during the quiz. Stay in view and work alone.
+          {checksRun > 0 && ` Checks so far: ${checksRun}.`}
+          {detectorStatus === 'unavailable' && ' Presence monitoring is unavailable in this browser.'}
+        </p>
+
+        {events.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {events.map(event => (
+              <li key={event.id} className="flex items-center space-x-2 text-xs text-red-700">
+                <Flag size={12} />
+                <span>
+                  {formatTime(event.started_at)} - {event.message || PROCTORING_EVENT_LABELS[event.type]}
+                  {event.ended_at === null && (event.type === 'absent' || event.type === 'multiple_faces') && ' (ongoing)'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {syncError && (
+          <p className="mt-2 text-xs text-yellow-700">Events will be sent again: {syncError}</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ProctoringMonitor
@@ -1,451 +1,269 @@
 // components/RealTimeFaceRegistration.tsx - Perfectly aligned with backend
 'use client'
 
-import React, { useRef, useEffect, useState, useCallback } from 'react'
+import React, { useState, useCallback, useEffect, useRef } from 'react'
 import { Camera, CheckCircle, AlertCircle, Shield, StopCircle, PlayCircle, Loader, Wifi, WifiOff, RotateCcw } from 'lucide-react'
+import { useFaceStreamSession } from '@/hooks/useFaceStreamSession'
+import FrameQualityCoaching from '@/components/FrameQualityCoaching'
+import FaceGuideOverlay from '@/components/FaceGuideOverlay'
+import CameraSettings from '@/components/CameraSettings'
+import ActiveSessionNotice from '@/components/ActiveSessionNotice'
+import { useCameraPreferences } from '@/hooks/useCameraPreferences'
+import { usePoseEnrollment } from '@/hooks/usePoseEnrollment'
+import { RegistrationCompleteMessage } from '@/lib/faceProtocol'
+import { ENROLLMENT_POSES, EnrollmentPose, POSE_LABELS } from '@/lib/enrollment'
+import { loadFaceLandmarker } from '@/lib/liveness'
 
 interface RealTimeFaceRegistrationProps {
   userId: number
-  onSuccess?: (result: any) => void
+  onSuccess?: (result: RegistrationCompleteMessage) => void
   onError?: (error: string) => void
+  // The WebSocket could not be opened at all, e.g. blocked by a corporate proxy
+  onConnectionFailed?: () => void
+  // Walk the user through frontal/left/right/up/down poses and submit one frame per pose
+  guidedEnrollment?: boolean
+  // Replace an existing registration; the backend keeps the old template until this one completes
+  reEnroll?: boolean
+  // Names the template, e.g. "glasses"; re-enrolling replaces the template with this label
+  templateLabel?: string
   className?: string
 }
 
+// Backend-aligned settings from main.py
+const MAX_RETRIES = 3
+const RECONNECT_DELAY = 3000
+const FRAME_CAPTURE_INTERVAL = 1000  // 1 second - matches backend frame_skip
+const FRAME_QUALITY = 0.6  // Matches backend quality setting
+const HEARTBEAT_INTERVAL = 20000  // 20 seconds - matches backend
+const CONNECTION_TIMEOUT = 15000  // 15 seconds - matches backend
+const RING_RADIUS = 16
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS
+
 const RealTimeFaceRegistration: React.FC<RealTimeFaceRegistrationProps> = ({ 
   userId, 
   onSuccess, 
   onError, 
+  onConnectionFailed,
+  guidedEnrollment = false,
+  reEnroll = false,
+  templateLabel,
   className = "" 
 }) => {
-  const videoRef = useRef<HTMLVideoElement>(null)
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const wsRef = useRef<WebSocket | null>(null)
-  const streamRef = useRef<MediaStream | null>(null)
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
-  const heartbeatRef = useRef<NodeJS.Timeout | null>(null)
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
-
-  const [isStreaming, setIsStreaming] = useState(false)
-  const [isConnected, setIsConnected] = useState(false)
-  const [connectionState, setConnectionState] = useState<'disconnected' | 'connecting' | 'connected' | 'reconnecting'>('disconnected')
-  const [status, setStatus] = useState<string>('Ready to start registration')
   const [framesCollected, setFramesCollected] = useState(0)
-  const [framesSent, setFramesSent] = useState(0)
   const [requiredFrames, setRequiredFrames] = useState(3)
   const [qualityScore, setQualityScore] = useState<number | null>(null)
   const [antispoofingScore, setAntispoofingScore] = useState<number | null>(null)
   const [faceConfidence, setFaceConfidence] = useState<number | null>(null)
   const [processingTime, setProcessingTime] = useState<number | null>(null)
-  const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
-  const [sessionData, setSessionData] = useState<any>(null)
-  const [retryCount, setRetryCount] = useState(0)
-  const [networkLatency, setNetworkLatency] = useState<number | null>(null)
-  const [frameCount, setFrameCount] = useState(0)
-  const [processedCount, setProcessedCount] = useState(0)
-
-  // Backend-aligned settings from main.py
-  const MAX_RETRIES = 3
-  const RECONNECT_DELAY = 3000
-  const FRAME_CAPTURE_INTERVAL = 1000  // 1 second - matches backend frame_skip
-  const FRAME_QUALITY = 0.6  // Matches backend quality setting
-  const MAX_FRAME_SIZE = { width: 480, height: 360 }  // Matches backend
-  const HEARTBEAT_INTERVAL = 20000  // 20 seconds - matches backend
-  const CONNECTION_TIMEOUT = 15000  // 15 seconds - matches backend
-
-  const buildWebSocketUrl = useCallback(() => {
-    // Exact URL format from backend
-    return `ws://localhost:8000/ws/face-registration/${userId}`
-  }, [userId])
-
-  const startHeartbeat = useCallback(() => {
-    if (heartbeatRef.current) {
-      clearInterval(heartbeatRef.current)
-    }
+  const [sessionData, setSessionData] = useState<RegistrationCompleteMessage | null>(null)
+  // Guided enrollment needs the landmarker; without it registration falls back to the standard flow
+  const [landmarkerAvailable, setLandmarkerAvailable] = useState<boolean | null>(null)
+  const guided = guidedEnrollment && landmarkerAvailable !== false
+  // Poses the current backend session holds or has yet to answer; a retake only submits the others
+  const submittedPosesRef = useRef<Set<EnrollmentPose>>(new Set())
 
-    heartbeatRef.current = setInterval(() => {
-      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-        const pingStart = Date.now()
-        wsRef.current.send(JSON.stringify({ 
-          type: 'ping', 
-          timestamp: pingStart 
-        }))
-      }
-    }, HEARTBEAT_INTERVAL)
-  }, [])
-
-  const stopHeartbeat = useCallback(() => {
-    if (heartbeatRef.current) {
-      clearInterval(heartbeatRef.current)
-      heartbeatRef.current = null
+  useEffect(() => {
+    if (!guidedEnrollment) return
+    let cancelled = false
+    loadFaceLandmarker().then(landmarker => {
+      if (!cancelled) setLandmarkerAvailable(landmarker !== null)
+    })
+    return () => {
+      cancelled = true
     }
-  }, [])
-
-  const startVideoStream = useCallback(async () => {
-    // Try multiple constraint sets, starting with ideal and falling back to simpler ones
-    const constraintSets = [
-      // Ideal constraints
-      {
-        video: {
-          width: { ideal: MAX_FRAME_SIZE.width, max: 640 },
-          height: { ideal: MAX_FRAME_SIZE.height, max: 480 },
-          frameRate: { ideal: 15, max: 30 },
-          facingMode: 'user'
-        },
-        audio: false
-      },
-      // Fallback without frameRate max constraint
-      {
-        video: {
-          width: { ideal: MAX_FRAME_SIZE.width, max: 640 },
-          height: { ideal: MAX_FRAME_SIZE.height, max: 480 },
-          frameRate: { ideal: 15 },
-          facingMode: 'user'
-        },
-        audio: false
-      },
-      // Fallback without frameRate constraint at all
-      {
-        video: {
-          width: { ideal: MAX_FRAME_SIZE.width, max: 640 },
-          height: { ideal: MAX_FRAME_SIZE.height, max: 480 },
-          facingMode: 'user'
-        },
-        audio: false
-      },
-      // Minimal constraints - just front camera
-      {
-        video: {
-          facingMode: 'user'
-        },
-        audio: false
+  }, [guidedEnrollment])
+
+  const camera = useCameraPreferences()
+  const mirror = camera.preferences.mirror
+
+  const {
+    videoRef,
+    canvasRef,
+    connectionState,
+    transport,
+    isStreaming,
+    status,
+    setStatus,
+    error,
+    setError,
+    retryCount,
+    networkLatency,
+    adaptiveStreaming,
+    framesSent,
+    frameCount,
+    framesSkipped,
+    qualityCoaching,
+    faces,
+    videoSize,
+    facePosition,
+    start,
+    stop,
+    captureFrame,
+    sendFrame,
+    resetStats
+  } = useFaceStreamSession({
+    kind: 'registration',
+    userId,
+    camera: camera.preferences,
+    params: {
+      enrollment: guided ? 'multi_pose' : undefined,
+      re_enroll: reEnroll ? 'true' : undefined,
+      template_label: templateLabel || undefined
+    },
+    autoCapture: !guided,
+    frameInterval: FRAME_CAPTURE_INTERVAL,
+    frameQuality: FRAME_QUALITY,
+    frameRate: 15,
+    heartbeatInterval: HEARTBEAT_INTERVAL,
+    connectionTimeout: CONNECTION_TIMEOUT,
+    reconnectDelay: RECONNECT_DELAY,
+    maxRetries: MAX_RETRIES,
+    closeCodes: {
+      4004: { error: 'User not found', status: '❌ User not found' },
+      4000: { error: 'This session was ended by an administrator.', status: '⛔ Session terminated' }
+    },
+    initialStatus: 'Ready to start registration',
+    onError,
+    onConnectionFailed,
+    // Handle all message types from backend exactly as implemented
+    handlers: {
+      connected: (message) => {
+        setRequiredFrames(message.required_frames || 3)
+        // A new backend session (also after a reconnect that could not resume) starts from zero
+        setFramesCollected(0)
+        submittedPosesRef.current = new Set()
+        if (guided) {
+          setStatus('Registration ready. Follow the pose prompts below the video.')
+          startEnrollment()
+        } else {
+          setStatus(`Registration ready. Please look at the camera. Need ${message.required_frames || 3} good frames.`)
+        }
       },
-      // Last resort - any video
-      {
-        video: true,
-        audio: false
-      }
-    ]
 
-    for (let i = 0; i < constraintSets.length; i++) {
-      try {
-        console.log(`Trying camera constraints set ${i + 1}/${constraintSets.length}`)
-        const stream = await navigator.mediaDevices.getUserMedia(constraintSets[i])
-        streamRef.current = stream
-        
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream
+      session_resumed: (message) => {
+        setRequiredFrames(message.required_frames || 3)
+        setFramesCollected(message.frames_collected)
+        setStatus(`Reconnected. Registration resumed with ${message.frames_collected}/${message.required_frames || 3} frames.`)
+        setError(null)
+        // Frames in flight on the dropped connection were lost; only the poses the backend kept count
+        const kept = ENROLLMENT_POSES.filter(pose => message.poses?.includes(pose))
+        submittedPosesRef.current = new Set(kept)
+        // Poses lost while the submission was cut off are taken again; guidance still running just continues
+        if (guided && enrollmentStatus === 'covered') {
+          retakePoses(ENROLLMENT_POSES.filter(pose => !kept.includes(pose)))
         }
+      },
 
-        console.log('✅ Camera stream started successfully')
-        return true
-      } catch (error) {
-        console.warn(`Camera constraints set ${i + 1} failed:`, error)
-        
-        // If this is the last constraint set, show the error
-        if (i === constraintSets.length - 1) {
-          console.error('All camera constraint sets failed:', error)
-          
-          // Provide specific error messages based on error type
-          let errorMessage = 'Failed to access camera.'
-          if (error.name === 'NotAllowedError') {
-            errorMessage = 'Camera access denied. Please allow camera permissions and refresh the page.'
-          } else if (error.name === 'NotFoundError') {
-            errorMessage = 'No camera found. Please connect a camera and try again.'
-          } else if (error.name === 'OverconstrainedError') {
-            errorMessage = 'Camera does not support required settings. Using basic camera access.'
-          } else if (error.name === 'NotReadableError') {
-            errorMessage = 'Camera is already in use by another application.'
-          }
-          
-          setError(errorMessage)
-          if (onError) {
-            onError(errorMessage)
+      frame_processed: (message) => {
+        if (message.success) {
+          setFramesCollected(message.frames_collected ?? 0)
+          setQualityScore(message.quality_score ?? null)
+          setAntispoofingScore(message.antispoofing_score ?? null)
+          setFaceConfidence(message.face_confidence ?? null)
+          setProcessingTime(message.processing_time ?? null)
+          setStatus(message.message)
+          setError(null)
+        } else {
+          setStatus(message.message)
+          setProcessingTime(message.processing_time ?? null)
+          // Don't treat failed frame processing as error - just feedback
+          if (guided && message.pose) {
+            submittedPosesRef.current.delete(message.pose as EnrollmentPose)
+            retakePoses([message.pose as EnrollmentPose])
           }
-          return false
         }
-        // Continue to next constraint set
-      }
-    }
-    
-    return false
-  }, [onError])
-
-  const connectWebSocket = useCallback(async () => {
-    if (wsRef.current) {
-      wsRef.current.close()
-    }
-
-    setConnectionState('connecting')
-    setError(null)
+      },
 
-    try {
-      const wsUrl = buildWebSocketUrl()
-      const ws = new WebSocket(wsUrl)
-      wsRef.current = ws
-
-      // Connection timeout - matches backend
-      const connectionTimeout = setTimeout(() => {
-        if (ws.readyState === WebSocket.CONNECTING) {
-          ws.close()
-          setError('Connection timeout')
-          setConnectionState('disconnected')
+      spoofing_detected: (message) => {
+        setError(message.message)
+        setStatus('⚠️ Spoofing detected! Please use your real face.')
+        setAntispoofingScore(message.antispoofing_score ?? null)
+        // The backend drops the frames collected so far, so every pose has to be taken again
+        if (guided) {
+          setFramesCollected(0)
+          submittedPosesRef.current = new Set()
+          startEnrollment()
         }
-      }, CONNECTION_TIMEOUT)
-
-      ws.onopen = () => {
-        clearTimeout(connectionTimeout)
-        setIsConnected(true)
-        setConnectionState('connected')
-        setStatus('Connected. Initializing registration...')
-        setRetryCount(0)
-        startHeartbeat()
-        console.log('🔗 WebSocket connected for face registration')
-      }
+      },
 
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data)
-          console.log('📨 Received message:', message.type)
-
-          // Handle all message types from backend exactly as implemented
-          switch (message.type) {
-            case 'connected':
-              setRequiredFrames(message.required_frames || 3)
-              setStatus(`Registration ready. Please look at the camera. Need ${message.required_frames || 3} good frames.`)
-              setIsStreaming(true)
-              startFrameCapture()
-              break
-
-            case 'frame_processed':
-              if (message.success) {
-                setFramesCollected(message.frames_collected)
-                setQualityScore(message.quality_score)
-                setAntispoofingScore(message.antispoofing_score)
-                setFaceConfidence(message.face_confidence)
-                setProcessingTime(message.processing_time)
-                setStatus(message.message)
-                setError(null)
-              } else {
-                setStatus(message.message)
-                setProcessingTime(message.processing_time)
-                // Don't treat failed frame processing as error - just feedback
-              }
-              break
-
-            case 'spoofing_detected':
-              setError(message.message)
-              setStatus('⚠️ Spoofing detected! Please use your real face.')
-              setAntispoofingScore(message.antispoofing_score)
-              break
-
-            case 'registration_complete':
-              setSuccess(true)
-              setSessionData(message)
-              setStatus('✅ Face registration completed successfully!')
-              stopStreaming()
-              if (onSuccess) {
-                onSuccess(message)
-              }
-              break
-
-            case 'error':
-              setError(message.message)
-              setStatus(`❌ Error: ${message.message}`)
-              if (onError) {
-                onError(message.message)
-              }
-              break
-
-            case 'pong':
-              if (message.timestamp) {
-                const latency = Date.now() - message.timestamp
-                setNetworkLatency(latency)
-              }
-              break
-
-            case 'heartbeat':
-              // Server heartbeat received - keep connection alive
-              break
-
-            case 'timeout_warning':
-              setError(message.message)
-              setStatus('⚠️ Connection issue detected')
-              break
-
-            default:
-              console.log('Unknown message type:', message.type)
-          }
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error)
+      registration_complete: (message) => {
+        setSuccess(true)
+        setSessionData(message)
+        setStatus('✅ Face registration completed successfully!')
+        stop()
+        if (onSuccess) {
+          onSuccess(message)
         }
-      }
-
-      ws.onerror = (error) => {
-        console.error('❌ WebSocket error:', error)
-        clearTimeout(connectionTimeout)
-        setError('Connection error occurred')
-        setConnectionState('disconnected')
-      }
+      },
 
-      ws.onclose = (event) => {
-        clearTimeout(connectionTimeout)
-        setIsConnected(false)
-        setIsStreaming(false)
-        stopHeartbeat()
-        
-        console.log('❌ WebSocket closed:', event.code, event.reason)
-        
-        // Handle specific close codes from backend
-        if (event.code === 4004) {
-          setError('User not found')
-          setStatus('❌ User not found')
-          setConnectionState('disconnected')
-        } else if (!success && retryCount < MAX_RETRIES) {
-          // Auto-reconnect logic matching backend expectations
-          setConnectionState('reconnecting')
-          setStatus(`Connection lost. Reconnecting... (${retryCount + 1}/${MAX_RETRIES})`)
-          
-          reconnectTimeoutRef.current = setTimeout(() => {
-            setRetryCount(prev => prev + 1)
-            connectWebSocket()
-          }, RECONNECT_DELAY)
-        } else {
-          setConnectionState('disconnected')
-          if (!success) {
-            setStatus('Connection failed. Please try again.')
-          }
+      error: (message) => {
+        setError(message.message)
+        setStatus(`❌ Error: ${message.message}`)
+        if (onError) {
+          onError(message.message)
         }
-      }
-
-    } catch (error) {
-      console.error('WebSocket creation error:', error)
-      setError('Failed to create connection')
-      setConnectionState('disconnected')
-    }
-  }, [buildWebSocketUrl, success, retryCount, onSuccess, onError, startHeartbeat, stopHeartbeat])
-
-  const startFrameCapture = useCallback(() => {
-    if (!intervalRef.current) {
-      intervalRef.current = setInterval(() => {
-        captureAndSendFrame()
-      }, FRAME_CAPTURE_INTERVAL)
-    }
-  }, [])
-
-  const captureAndSendFrame = useCallback(() => {
-    if (!videoRef.current || !canvasRef.current || !wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-      return
-    }
-
-    const video = videoRef.current
-    const canvas = canvasRef.current
-    const ctx = canvas.getContext('2d')
-
-    if (!ctx || video.videoWidth === 0 || video.videoHeight === 0) {
-      return
-    }
-
-    try {
-      // Set canvas dimensions to match backend expectations
-      canvas.width = MAX_FRAME_SIZE.width
-      canvas.height = MAX_FRAME_SIZE.height
-
-      // Draw and resize frame
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
-
-      // Convert to base64 with quality matching backend
-      const frameData = canvas.toDataURL('image/jpeg', FRAME_QUALITY)
-
-      // Send frame with exact format expected by backend
-      wsRef.current.send(JSON.stringify({
-        type: 'frame',
-        frame: frameData,
-        timestamp: Date.now()
-      }))
-
-      setFramesSent(prev => prev + 1)
-      setFrameCount(prev => prev + 1)
-    } catch (error) {
-      console.error('Error capturing/sending frame:', error)
-    }
-  }, [])
-
-  const stopStreaming = useCallback(() => {
-    // Stop frame capture
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current)
-      intervalRef.current = null
-    }
-
-    // Stop heartbeat
-    stopHeartbeat()
-
-    // Clear reconnect timeout
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current)
-      reconnectTimeoutRef.current = null
-    }
+      },
 
-    // Close WebSocket with proper format expected by backend
-    if (wsRef.current) {
-      try {
-        wsRef.current.send(JSON.stringify({ type: 'stop' }))
-        wsRef.current.close(1000, 'User stopped')
-      } catch (error) {
-        console.error('Error closing WebSocket:', error)
+      timeout_warning: (message) => {
+        setError(message.message)
+        setStatus('⚠️ Connection issue detected')
       }
-      wsRef.current = null
     }
-
-    // Stop video stream
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop())
-      streamRef.current = null
+  })
+
+  const {
+    status: enrollmentStatus,
+    currentPose,
+    prompt: posePrompt,
+    progress: poseProgress,
+    start: startEnrollment,
+    retake: retakePoses,
+    reset: resetEnrollment
+  } = usePoseEnrollment(videoRef, {
+    captureFrame,
+    // Called with every pose again after a retake; poses already submitted are not sent twice.
+    // sendFrame queues the rest behind the stream's in-flight limit
+    onCovered: (frames) => {
+      const pending = frames.filter(({ pose }) => !submittedPosesRef.current.has(pose))
+      setStatus(pending.length < frames.length ? 'Retaken poses captured. Submitting...' : 'All poses captured. Submitting...')
+      pending.forEach(({ pose, frame }) => {
+        if (sendFrame(frame, { pose })) submittedPosesRef.current.add(pose)
+      })
     }
+  })
 
-    setIsStreaming(false)
-    setIsConnected(false)
-    setConnectionState('disconnected')
-  }, [stopHeartbeat])
+  useEffect(() => {
+    if (enrollmentStatus === 'unavailable') {
+      setError('Pose guidance could not be loaded. Restart to register with the standard flow.')
+    }
+  }, [enrollmentStatus, setError])
 
   const handleStart = useCallback(async () => {
-    const videoStarted = await startVideoStream()
-    if (videoStarted) {
-      await connectWebSocket()
-    }
-  }, [startVideoStream, connectWebSocket])
+    await start()
+  }, [start])
 
   const handleStop = useCallback(() => {
-    stopStreaming()
+    stop()
+    resetEnrollment()
     setStatus('Registration stopped')
-  }, [stopStreaming])
+  }, [stop, resetEnrollment, setStatus])
 
   const handleRestart = useCallback(() => {
     // Reset all state to initial values
     setSuccess(false)
     setError(null)
     setFramesCollected(0)
-    setFramesSent(0)
-    setFrameCount(0)
-    setProcessedCount(0)
     setQualityScore(null)
     setAntispoofingScore(null)
     setFaceConfidence(null)
     setProcessingTime(null)
     setSessionData(null)
-    setRetryCount(0)
-    setNetworkLatency(null)
+    resetEnrollment()
+    resetStats()
     setStatus('Ready to start registration')
     handleStart()
-  }, [handleStart])
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      stopStreaming()
-    }
-  }, [stopStreaming])
+  }, [handleStart, resetEnrollment, resetStats, setError, setStatus])
 
   const getConnectionIcon = () => {
     switch (connectionState) {
@@ -462,7 +280,7 @@ const RealTimeFaceRegistration: React.FC<RealTimeFaceRegistrationProps> = ({
   const getConnectionText = () => {
     switch (connectionState) {
       case 'connected':
-        return `Connected ${networkLatency ? `(${networkLatency}ms)` : ''}`
+        return `Connected${transport === 'http' ? ' via HTTP' : ''} ${networkLatency ? `(${networkLatency}ms)` : ''}`
       case 'connecting':
         return 'Connecting...'
       case 'reconnecting':
@@ -474,6 +292,9 @@ const RealTimeFaceRegistration: React.FC<RealTimeFaceRegistrationProps> = ({
 
   return (
     <div className={`flex flex-col items-center space-y-6 ${className}`}>
+      {/* Another tab or device is already streaming for this user */}
+      <ActiveSessionNotice userId={userId} enabled={connectionState === 'disconnected'} className="max-w-md" />
+
       {/* Video Display */}
       <div className="relative">
         <video
@@ -481,8 +302,11 @@ const RealTimeFaceRegistration: React.FC<RealTimeFaceRegistrationProps> = ({
           autoPlay
           playsInline
           muted
-          className="w-[480px] h-[360px] object-cover rounded-lg border-2 border-gray-300 bg-black"
+          className={`w-[480px] h-[360px] object-cover rounded-lg border-2 border-gray-300 bg-black ${mirror ? '-scale-x-100' : ''}`}
         />
+        {isStreaming && (
+          <FaceGuideOverlay faces={faces} videoSize={videoSize} position={facePosition} mirrored={mirror} className="rounded-lg" />
+        )}
         
         {/* Status Overlay - matches backend messaging */}
         <div className="absolute top-4 left-4 right-4">
@@ -496,13 +320,14 @@ const RealTimeFaceRegistration: React.FC<RealTimeFaceRegistrationProps> = ({
             </div>
             
             <p className="text-sm">{status}</p>
+            <FrameQualityCoaching coaching={qualityCoaching} framesSkipped={framesSkipped} />
             
             {/* Progress Bar - aligned with backend frame requirements */}
             {requiredFrames > 0 && (
               <div className="mt-2">
                 <div className="flex justify-between text-xs mb-1">
                   <span>Progress ({framesCollected}/{requiredFrames})</span>
-                  <span>Sent: {framesSent} | Total: {frameCount}</span>
+                  <span>Sent: {framesSent} | Skipped: {framesSkipped} | Total: {frameCount}</span>
                 </div>
                 <div className="w-full bg-gray-600 rounded-full h-2">
                   <div 
@@ -517,7 +342,10 @@ const RealTimeFaceRegistration: React.FC<RealTimeFaceRegistrationProps> = ({
             {(processingTime !== null || networkLatency !== null) && (
               <div className="mt-2 text-xs text-gray-300">
                 {processingTime !== null && <span>Process: {processingTime.toFixed(0)}ms </span>}
-                {networkLatency !== null && <span>Latency: {networkLatency}ms</span>}
+                {networkLatency !== null && <span>Latency: {networkLatency}ms </span>}
+                {adaptiveStreaming && (
+                  <span>Rate: {(1000 / adaptiveStreaming.interval).toFixed(1)} fps @ {Math.round(adaptiveStreaming.quality * 100)}%</span>
+                )}
               </div>
             )}
           </div>
@@ -567,6 +395,44 @@ const RealTimeFaceRegistration: React.FC<RealTimeFaceRegistrationProps> = ({
         )}
       </div>
 
+      {/* Pose Progress Rings - guided enrollment */}
+      {guided && isStreaming && !success && (
+        <div className="w-full max-w-md bg-gray-50 border border-gray-200 rounded-lg p-4">
+          <p className="text-sm font-medium text-gray-800 text-center mb-3">
+            {enrollmentStatus === 'loading' && 'Loading pose guidance...'}
+            {enrollmentStatus === 'guiding' && posePrompt}
+            {enrollmentStatus === 'covered' && 'All poses captured'}
+          </p>
+          <div className="flex justify-between">
+            {ENROLLMENT_POSES.map(pose => {
+              const value = poseProgress[pose]
+              const active = pose === currentPose
+              return (
+                <div key={pose} className="flex flex-col items-center space-y-1">
+                  <svg width={40} height={40} viewBox="0 0 40 40" className="-rotate-90">
+                    <circle cx={20} cy={20} r={RING_RADIUS} fill="none" strokeWidth={4} className="stroke-gray-200" />
+                    <circle
+                      cx={20}
+                      cy={20}
+                      r={RING_RADIUS}
+                      fill="none"
+                      strokeWidth={4}
+                      strokeLinecap="round"
+                      strokeDasharray={RING_CIRCUMFERENCE}
+                      strokeDashoffset={RING_CIRCUMFERENCE * (1 - value)}
+                      className={value === 1 ? 'stroke-green-500' : 'stroke-blue-500'}
+                    />
+                  </svg>
+                  <span className={`text-xs ${active ? 'font-bold text-blue-700' : value === 1 ? 'text-green-700' : 'text-gray-500'}`}>
+                    {POSE_LABELS[pose]}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Controls */}
       <div className="flex space-x-4">
         {!isStreaming && !success && (
@@ -627,6 +493,8 @@ const RealTimeFaceRegistration: React.FC<RealTimeFaceRegistrationProps> = ({
         )}
       </div>
 
+      <CameraSettings camera={camera} />
+
       {/* Error Alert */}
       {error && (
         <div className="w-full max-w-md bg-red-50 border border-red-200 rounded-lg p-4">
@@ -650,8 +518,9 @@ const RealTimeFaceRegistration: React.FC<RealTimeFaceRegistrationProps> = ({
           <div className="text-sm text-green-700 space-y-1">
             <p><strong>User:</strong> {sessionData.user_name}</p>
             <p><strong>Face ID:</strong> {sessionData.face_id}</p>
+            {sessionData.template_label && <p><strong>Template:</strong> {sessionData.template_label}</p>}
             <p><strong>Quality Score:</strong> {sessionData.quality_score?.toFixed(1)}%</p>
-            <p><strong>Anti-spoofing Score:</strong> {(sessionData.antispoofing_score * 100)?.toFixed(1)}%</p>
+            <p><strong>Anti-spoofing Score:</strong> {((sessionData.antispoofing_score ?? 0) * 100).toFixed(1)}%</p>
             <p><strong>Frames Processed:</strong> {sessionData.frames_processed}</p>
             <p><strong>Model:</strong> {sessionData.model_name || 'ArcFace'}</p>
             {sessionData.avg_processing_time && (
@@ -671,8 +540,15 @@ const RealTimeFaceRegistration: React.FC<RealTimeFaceRegistrationProps> = ({
           <li>• Need {requiredFrames} high-quality frames</li>
           <li>• Quality threshold: 25% (relaxed)</li>
           <li>• Liveness threshold: 40% (moderate)</li>
-          <li>• Look directly at camera and stay still</li>
-          <li>• System processes 1 frame per second</li>
+          {guided ? (
+            <li>• Hold each prompted pose until its ring fills</li>
+          ) : (
+            <>
+              <li>• Look directly at camera and stay still</li>
+              <li>• System processes 1 frame per second</li>
+            </>
+          )}
+          <li>• Dark, blurry or moving frames are skipped before upload</li>
           <li>• Auto-reconnection on network issues</li>
         </ul>
       </div>
@@ -1,40 +1,52 @@
 // components/RealTimeFaceVerification.tsx - Perfectly aligned with backend
 'use client'
 
-import React, { useRef, useEffect, useState, useCallback } from 'react'
-import { Shield, CheckCircle, AlertCircle, StopCircle, PlayCircle, Eye, UserCheck, Wifi, WifiOff, Loader, RotateCcw } from 'lucide-react'
+import React, { useState, useCallback, useRef } from 'react'
+import { Shield, CheckCircle, AlertCircle, StopCircle, PlayCircle, Eye, UserCheck, Wifi, WifiOff, Loader, RotateCcw, Activity } from 'lucide-react'
+import { useFaceStreamSession } from '@/hooks/useFaceStreamSession'
+import { useLivenessChallenges } from '@/hooks/useLivenessChallenges'
+import FrameQualityCoaching from '@/components/FrameQualityCoaching'
+import FaceGuideOverlay from '@/components/FaceGuideOverlay'
+import CameraSettings from '@/components/CameraSettings'
+import ActiveSessionNotice from '@/components/ActiveSessionNotice'
+import { useCameraPreferences } from '@/hooks/useCameraPreferences'
+import { VerificationCompleteMessage } from '@/lib/faceProtocol'
+import { LIVENESS_PROMPTS, LivenessTranscript } from '@/lib/liveness'
 
 interface RealTimeFaceVerificationProps {
   userId: number
   quizId?: string
   courseId?: string
-  onSuccess?: (result: any) => void
+  onSuccess?: (result: VerificationCompleteMessage) => void
   onError?: (error: string) => void
+  // The WebSocket could not be opened at all, e.g. blocked by a corporate proxy
+  onConnectionFailed?: () => void
+  // Challenge-response mode: randomized blink/turn/nod/smile prompts whose transcript the backend must accept
+  livenessChallenges?: boolean
   className?: string
 }
 
+// Backend-aligned settings from main.py verification endpoint
+const MAX_RETRIES = 3
+const RECONNECT_DELAY = 2000  // Faster for verification
+const FRAME_CAPTURE_INTERVAL = 800  // Faster for verification - every 8th frame processed
+const FRAME_QUALITY = 0.7  // Better quality for verification
+const HEARTBEAT_INTERVAL = 15000  // 15 seconds
+const CONNECTION_TIMEOUT = 10000  // 10 seconds - faster for verification
+const SIMILARITY_THRESHOLD = 55.0  // Relaxed threshold from backend
+const MAX_VERIFICATION_ATTEMPTS = 5  // Matches backend
+
 const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({ 
   userId, 
   quizId, 
   courseId, 
   onSuccess, 
   onError, 
+  onConnectionFailed,
+  livenessChallenges = false,
   className = "" 
 }) => {
-  const videoRef = useRef<HTMLVideoElement>(null)
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const wsRef = useRef<WebSocket | null>(null)
-  const streamRef = useRef<MediaStream | null>(null)
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
-  const heartbeatRef = useRef<NodeJS.Timeout | null>(null)
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
-
-  const [isStreaming, setIsStreaming] = useState(false)
-  const [isConnected, setIsConnected] = useState(false)
-  const [connectionState, setConnectionState] = useState<'disconnected' | 'connecting' | 'connected' | 'reconnecting'>('disconnected')
-  const [status, setStatus] = useState<string>('Ready to start verification')
   const [framesCollected, setFramesCollected] = useState(0)
-  const [framesSent, setFramesSent] = useState(0)
   const [requiredFrames, setRequiredFrames] = useState(2)
   const [qualityScore, setQualityScore] = useState<number | null>(null)
   const [similarityScore, setSimilarityScore] = useState<number | null>(null)
@@ -42,442 +54,218 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
   const [isMatch, setIsMatch] = useState<boolean | null>(null)
   const [processingTime, setProcessingTime] = useState<number | null>(null)
   const [comparisonTime, setComparisonTime] = useState<number | null>(null)
-  const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
-  const [verificationResult, setVerificationResult] = useState<any>(null)
-  const [retryCount, setRetryCount] = useState(0)
-  const [attemptsRemaining, setAttemptsRemaining] = useState(5)
-  const [networkLatency, setNetworkLatency] = useState<number | null>(null)
+  const [verificationResult, setVerificationResult] = useState<VerificationCompleteMessage | null>(null)
+  const [attemptsRemaining, setAttemptsRemaining] = useState(MAX_VERIFICATION_ATTEMPTS)
   const [canRetry, setCanRetry] = useState(true)
-  const [frameCount, setFrameCount] = useState(0)
   const [processedCount, setProcessedCount] = useState(0)
   const [maxSimilarity, setMaxSimilarity] = useState<number | null>(null)
   const [matchRatio, setMatchRatio] = useState<number | null>(null)
   const [confidenceScore, setConfidenceScore] = useState<number | null>(null)
-
-  // Backend-aligned settings from main.py verification endpoint
-  const MAX_RETRIES = 3
-  const RECONNECT_DELAY = 2000  // Faster for verification
-  const FRAME_CAPTURE_INTERVAL = 800  // Faster for verification - every 8th frame processed
-  const FRAME_QUALITY = 0.7  // Better quality for verification
-  const MAX_FRAME_SIZE = { width: 480, height: 360 }
-  const HEARTBEAT_INTERVAL = 15000  // 15 seconds
-  const CONNECTION_TIMEOUT = 10000  // 10 seconds - faster for verification
-  const SIMILARITY_THRESHOLD = 55.0  // Relaxed threshold from backend
-  const MAX_VERIFICATION_ATTEMPTS = 5  // Matches backend
-
-  const buildWebSocketUrl = useCallback(() => {
-    const baseUrl = `ws://localhost:8000/ws/face-verification/${userId}`
-    const params = new URLSearchParams()
-    
-    if (quizId) params.append('quiz_id', quizId)
-    if (courseId) params.append('course_id', courseId)
-    
-    return params.toString() ? `${baseUrl}?${params.toString()}` : baseUrl
-  }, [userId, quizId, courseId])
-
-  const startHeartbeat = useCallback(() => {
-    if (heartbeatRef.current) {
-      clearInterval(heartbeatRef.current)
-    }
-
-    heartbeatRef.current = setInterval(() => {
-      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-        const pingStart = Date.now()
-        wsRef.current.send(JSON.stringify({ 
-          type: 'ping', 
-          timestamp: pingStart 
-        }))
-      }
-    }, HEARTBEAT_INTERVAL)
-  }, [])
-
-  const stopHeartbeat = useCallback(() => {
-    if (heartbeatRef.current) {
-      clearInterval(heartbeatRef.current)
-      heartbeatRef.current = null
-    }
-  }, [])
-
-  const startVideoStream = useCallback(async () => {
-    // Try multiple constraint sets, starting with ideal and falling back to simpler ones
-    const constraintSets = [
-      // Ideal constraints for verification
-      {
-        video: {
-          width: { ideal: MAX_FRAME_SIZE.width, max: 640 },
-          height: { ideal: MAX_FRAME_SIZE.height, max: 480 },
-          frameRate: { ideal: 20, max: 30 },
-          facingMode: 'user'
-        },
-        audio: false
-      },
-      // Fallback without frameRate max constraint
-      {
-        video: {
-          width: { ideal: MAX_FRAME_SIZE.width, max: 640 },
-          height: { ideal: MAX_FRAME_SIZE.height, max: 480 },
-          frameRate: { ideal: 20 },
-          facingMode: 'user'
-        },
-        audio: false
-      },
-      // Fallback without frameRate constraint at all
-      {
-        video: {
-          width: { ideal: MAX_FRAME_SIZE.width, max: 640 },
-          height: { ideal: MAX_FRAME_SIZE.height, max: 480 },
-          facingMode: 'user'
-        },
-        audio: false
-      },
-      // Minimal constraints - just front camera
-      {
-        video: {
-          facingMode: 'user'
-        },
-        audio: false
+  const sessionIdRef = useRef<string | null>(null)
+  // Last transcript sent, kept until the backend answers with liveness_result
+  const livenessTranscriptRef = useRef<LivenessTranscript | null>(null)
+
+  const camera = useCameraPreferences()
+  const mirror = camera.preferences.mirror
+
+  const {
+    videoRef,
+    canvasRef,
+    connectionState,
+    transport,
+    isConnected,
+    isStreaming,
+    status,
+    setStatus,
+    error,
+    setError,
+    retryCount,
+    networkLatency,
+    adaptiveStreaming,
+    framesSkipped,
+    qualityCoaching,
+    faces,
+    videoSize,
+    facePosition,
+    start,
+    stop,
+    send,
+    resetStats
+  } = useFaceStreamSession({
+    kind: 'verification',
+    userId,
+    camera: camera.preferences,
+    params: { quiz_id: quizId, course_id: courseId, liveness: livenessChallenges ? '1' : undefined },
+    frameInterval: FRAME_CAPTURE_INTERVAL,
+    frameQuality: FRAME_QUALITY,
+    frameRate: 20,
+    heartbeatInterval: HEARTBEAT_INTERVAL,
+    connectionTimeout: CONNECTION_TIMEOUT,
+    reconnectDelay: RECONNECT_DELAY,
+    maxRetries: MAX_RETRIES,
+    closeCodes: {
+      4004: { error: 'User not found', status: '❌ User not found' },
+      4003: { error: 'No face registration found. Please register your face first.', status: '❌ Face not registered' },
+      4000: { error: 'This session was ended by an administrator.', status: '⛔ Session terminated' }
+    },
+    initialStatus: 'Ready to start verification',
+    onError,
+    onConnectionFailed,
+    // Handle all message types exactly as implemented in backend
+    handlers: {
+      connected: (message) => {
+        setRequiredFrames(message.required_frames || 2)
+        setStatus(`Verification ready. Please look at the camera. Need ${message.required_frames || 2} frames.`)
+        // A new backend session (also after a reconnect that could not resume) starts from zero
+        setFramesCollected(0)
+        setAttemptsRemaining(MAX_VERIFICATION_ATTEMPTS)
+        sessionIdRef.current = message.session_id ?? null
+        livenessTranscriptRef.current = null
+        if (livenessChallenges) {
+          startLiveness(sessionIdRef.current)
+        }
       },
-      // Last resort - any video
-      {
-        video: true,
-        audio: false
-      }
-    ]
 
-    for (let i = 0; i < constraintSets.length; i++) {
-      try {
-        console.log(`Trying verification camera constraints set ${i + 1}/${constraintSets.length}`)
-        const stream = await navigator.mediaDevices.getUserMedia(constraintSets[i])
-        streamRef.current = stream
-        
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream
+      // Same session id, so a liveness sequence in progress stays valid and is not restarted
+      session_resumed: (message) => {
+        setRequiredFrames(message.required_frames || 2)
+        setFramesCollected(message.frames_collected)
+        if (message.attempts_remaining !== undefined) {
+          setAttemptsRemaining(message.attempts_remaining)
+        }
+        sessionIdRef.current = message.session_id
+        setStatus(`Reconnected. Verification resumed after ${message.frames_collected} frames.`)
+        setError(null)
+        // The transcript may have been lost with the old connection; the backend ignores a duplicate
+        if (livenessTranscriptRef.current) {
+          send({ type: 'liveness_transcript', transcript: livenessTranscriptRef.current })
         }
+      },
 
-        console.log('✅ Verification camera stream started successfully')
-        return true
-      } catch (error) {
-        console.warn(`Verification camera constraints set ${i + 1} failed:`, error)
-        
-        // If this is the last constraint set, show the error
-        if (i === constraintSets.length - 1) {
-          console.error('All verification camera constraint sets failed:', error)
-          
-          // Provide specific error messages based on error type
-          let errorMessage = 'Failed to access camera.'
-          if (error.name === 'NotAllowedError') {
-            errorMessage = 'Camera access denied. Please allow camera permissions and refresh the page.'
-          } else if (error.name === 'NotFoundError') {
-            errorMessage = 'No camera found. Please connect a camera and try again.'
-          } else if (error.name === 'OverconstrainedError') {
-            errorMessage = 'Camera does not support required settings. Using basic camera access.'
-          } else if (error.name === 'NotReadableError') {
-            errorMessage = 'Camera is already in use by another application.'
-          }
-          
-          setError(errorMessage)
-          if (onError) {
-            onError(errorMessage)
+      frame_processed: (message) => {
+        if (message.success) {
+          setFramesCollected(message.frames_collected ?? 0)
+          setQualityScore(message.quality_score ?? null)
+          setAntispoofingScore(message.antispoofing_score ?? null)
+          setSimilarityScore(message.similarity_score ?? null)
+          setIsMatch(message.is_match ?? null)
+          setProcessingTime(message.processing_time ?? null)
+          setComparisonTime(message.comparison_time ?? null)
+          setStatus(message.message)
+          setError(null)
+
+          // Track maximum similarity for better UX
+          const similarity = message.similarity_score
+          if (similarity) {
+            setMaxSimilarity(prev => prev === null || similarity > prev ? similarity : prev)
           }
-          return false
+        } else {
+          setStatus(message.message)
+          setProcessingTime(message.processing_time ?? null)
+          setAttemptsRemaining(message.attempts_remaining || 0)
         }
-        // Continue to next constraint set
-      }
-    }
-    
-    return false
-  }, [onError])
-
-  const connectWebSocket = useCallback(async () => {
-    if (wsRef.current) {
-      wsRef.current.close()
-    }
-
-    setConnectionState('connecting')
-    setError(null)
+        setProcessedCount(prev => prev + 1)
+      },
 
-    try {
-      const wsUrl = buildWebSocketUrl()
-      const ws = new WebSocket(wsUrl)
-      wsRef.current = ws
+      spoofing_detected: (message) => {
+        setError(message.message)
+        setStatus('⚠️ Please use your real face for verification')
+        setAntispoofingScore(message.antispoofing_score ?? null)
+        setCanRetry(message.can_retry !== false)
+      },
 
-      const connectionTimeout = setTimeout(() => {
-        if (ws.readyState === WebSocket.CONNECTING) {
-          ws.close()
-          setError('Connection timeout')
-          setConnectionState('disconnected')
+      verification_complete: (message) => {
+        setSuccess(true)
+        setVerificationResult(message)
+        setStatus(message.verified ? '✅ Identity verified successfully!' : '❌ Identity verification failed')
+
+        // Store all verification metrics from backend
+        setSimilarityScore(message.similarity_score ?? null)
+        setMaxSimilarity(message.max_similarity_score ?? null)
+        setQualityScore(message.quality_score ?? null)
+        setAntispoofingScore(message.antispoofing_score ?? null)
+        setMatchRatio(message.match_ratio ?? null)
+        setConfidenceScore(message.confidence_score ?? null)
+
+        stop()
+        if (onSuccess) {
+          onSuccess(message)
         }
-      }, CONNECTION_TIMEOUT)
-
-      ws.onopen = () => {
-        clearTimeout(connectionTimeout)
-        setIsConnected(true)
-        setConnectionState('connected')
-        setStatus('Connected. Initializing verification...')
-        setRetryCount(0)
-        startHeartbeat()
-        console.log('🔗 WebSocket connected for face verification')
-      }
-
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data)
-          console.log('📨 Received verification message:', message.type)
-
-          // Handle all message types exactly as implemented in backend
-          switch (message.type) {
-            case 'connected':
-              setRequiredFrames(message.required_frames || 2)
-              setStatus(`Verification ready. Please look at the camera. Need ${message.required_frames || 2} frames.`)
-              setIsStreaming(true)
-              startFrameCapture()
-              break
-
-            case 'frame_processed':
-              if (message.success) {
-                setFramesCollected(message.frames_collected)
-                setQualityScore(message.quality_score)
-                setAntispoofingScore(message.antispoofing_score)
-                setSimilarityScore(message.similarity_score)
-                setIsMatch(message.is_match)
-                setProcessingTime(message.processing_time)
-                setComparisonTime(message.comparison_time)
-                setStatus(message.message)
-                setError(null)
-                
-                // Track maximum similarity for better UX
-                if (message.similarity_score && (maxSimilarity === null || message.similarity_score > maxSimilarity)) {
-                  setMaxSimilarity(message.similarity_score)
-                }
-              } else {
-                setStatus(message.message)
-                setProcessingTime(message.processing_time)
-                setAttemptsRemaining(message.attempts_remaining || 0)
-              }
-              setProcessedCount(prev => prev + 1)
-              break
-
-            case 'spoofing_detected':
-              setError(message.message)
-              setStatus('⚠️ Please use your real face for verification')
-              setAntispoofingScore(message.antispoofing_score)
-              setCanRetry(message.can_retry !== false)
-              break
-
-            case 'verification_complete':
-              setSuccess(true)
-              setVerificationResult(message)
-              setStatus(message.verified ? '✅ Identity verified successfully!' : '❌ Identity verification failed')
-              
-              // Store all verification metrics from backend
-              setSimilarityScore(message.similarity_score)
-              setMaxSimilarity(message.max_similarity_score)
-              setQualityScore(message.quality_score)
-              setAntispoofingScore(message.antispoofing_score)
-              setMatchRatio(message.match_ratio)
-              setConfidenceScore(message.confidence_score)
-              
-              stopStreaming()
-              if (onSuccess) {
-                onSuccess(message)
-              }
-              break
-
-            case 'verification_restarted':
-              // Reset verification state when backend restarts
-              setFramesCollected(0)
-              setFramesSent(0)
-              setFrameCount(0)
-              setProcessedCount(0)
-              setQualityScore(null)
-              setSimilarityScore(null)
-              setAntispoofingScore(null)
-              setIsMatch(null)
-              setMaxSimilarity(null)
-              setMatchRatio(null)
-              setConfidenceScore(null)
-              setError(null)
-              setStatus(message.message)
-              break
-
-            case 'error':
-              setError(message.message)
-              setStatus(`❌ Error: ${message.message}`)
-              setCanRetry(message.can_retry !== false)
-              if (onError) {
-                onError(message.message)
-              }
-              break
-
-            case 'pong':
-              if (message.timestamp) {
-                const latency = Date.now() - message.timestamp
-                setNetworkLatency(latency)
-              }
-              break
-
-            case 'timeout_warning':
-              setError(message.message)
-              setStatus('⚠️ Connection issue detected')
-              setCanRetry(message.can_retry !== false)
-              break
-
-            default:
-              console.log('Unknown verification message type:', message.type)
-          }
-        } catch (error) {
-          console.error('Error parsing verification WebSocket message:', error)
-        }
-      }
-
-      ws.onerror = (error) => {
-        console.error('❌ Verification WebSocket error:', error)
-        clearTimeout(connectionTimeout)
-        setError('Connection error occurred')
-        setConnectionState('disconnected')
-      }
+      },
 
-      ws.onclose = (event) => {
-        clearTimeout(connectionTimeout)
-        setIsConnected(false)
-        setIsStreaming(false)
-        stopHeartbeat()
-        
-        console.log('❌ Verification WebSocket closed:', event.code, event.reason)
-        
-        // Handle specific close codes from backend
-        if (event.code === 4004) {
-          setError('User not found')
-          setStatus('❌ User not found')
-          setConnectionState('disconnected')
-        } else if (event.code === 4003) {
-          setError('No face registration found. Please register your face first.')
-          setStatus('❌ Face not registered')
-          setConnectionState('disconnected')
-        } else if (!success && retryCount < MAX_RETRIES) {
-          // Auto-reconnect logic
-          setConnectionState('reconnecting')
-          setStatus(`Connection lost. Reconnecting... (${retryCount + 1}/${MAX_RETRIES})`)
-          
-          reconnectTimeoutRef.current = setTimeout(() => {
-            setRetryCount(prev => prev + 1)
-            connectWebSocket()
-          }, RECONNECT_DELAY)
+      liveness_result: (message) => {
+        livenessTranscriptRef.current = null
+        if (message.passed) {
+          setStatus(message.message)
         } else {
-          setConnectionState('disconnected')
-          if (!success) {
-            setStatus('Connection failed. Please try again.')
-          }
+          setError(message.message)
+          setStatus('⚠️ Liveness check failed')
         }
-      }
-
-    } catch (error) {
-      console.error('WebSocket creation error:', error)
-      setError('Failed to create connection')
-      setConnectionState('disconnected')
-    }
-  }, [buildWebSocketUrl, success, retryCount, onSuccess, onError, startHeartbeat, stopHeartbeat, maxSimilarity])
-
-  const startFrameCapture = useCallback(() => {
-    if (!intervalRef.current) {
-      intervalRef.current = setInterval(() => {
-        captureAndSendFrame()
-      }, FRAME_CAPTURE_INTERVAL)
-    }
-  }, [])
-
-  const captureAndSendFrame = useCallback(() => {
-    if (!videoRef.current || !canvasRef.current || !wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-      return
-    }
-
-    const video = videoRef.current
-    const canvas = canvasRef.current
-    const ctx = canvas.getContext('2d')
-
-    if (!ctx || video.videoWidth === 0 || video.videoHeight === 0) {
-      return
-    }
-
-    try {
-      canvas.width = MAX_FRAME_SIZE.width
-      canvas.height = MAX_FRAME_SIZE.height
-
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
-      const frameData = canvas.toDataURL('image/jpeg', FRAME_QUALITY)
-
-      // Send frame with exact format expected by backend
-      wsRef.current.send(JSON.stringify({
-        type: 'frame',
-        frame: frameData,
-        timestamp: Date.now()
-      }))
-
-      setFramesSent(prev => prev + 1)
-      setFrameCount(prev => prev + 1)
-    } catch (error) {
-      console.error('Error capturing/sending verification frame:', error)
-    }
-  }, [])
-
-  const stopStreaming = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current)
-      intervalRef.current = null
-    }
+      },
 
-    stopHeartbeat()
+      verification_restarted: (message) => {
+        // Reset verification state when backend restarts
+        livenessTranscriptRef.current = null
+        setFramesCollected(0)
+        resetStats()
+        setProcessedCount(0)
+        setQualityScore(null)
+        setSimilarityScore(null)
+        setAntispoofingScore(null)
+        setIsMatch(null)
+        setMaxSimilarity(null)
+        setMatchRatio(null)
+        setConfidenceScore(null)
+        setError(null)
+        setStatus(message.message)
+      },
 
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current)
-      reconnectTimeoutRef.current = null
-    }
+      error: (message) => {
+        setError(message.message)
+        setStatus(`❌ Error: ${message.message}`)
+        setCanRetry(message.can_retry !== false)
+        if (onError) {
+          onError(message.message)
+        }
+      },
 
-    if (wsRef.current) {
-      try {
-        wsRef.current.send(JSON.stringify({ type: 'stop' }))
-        wsRef.current.close(1000, 'User stopped')
-      } catch (error) {
-        console.error('Error closing verification WebSocket:', error)
+      timeout_warning: (message) => {
+        setError(message.message)
+        setStatus('⚠️ Connection issue detected')
+        setCanRetry(message.can_retry !== false)
       }
-      wsRef.current = null
     }
+  })
 
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop())
-      streamRef.current = null
+  // Transcript goes to the backend whether or not it passed; the backend makes the final call
+  const liveness = useLivenessChallenges(videoRef, {
+    onComplete: (transcript) => {
+      livenessTranscriptRef.current = transcript
+      send({ type: 'liveness_transcript', transcript })
     }
-
-    setIsStreaming(false)
-    setIsConnected(false)
-    setConnectionState('disconnected')
-  }, [stopHeartbeat])
+  })
+  const { start: startLiveness, reset: resetLiveness } = liveness
 
   const handleStart = useCallback(async () => {
-    const videoStarted = await startVideoStream()
-    if (videoStarted) {
-      await connectWebSocket()
-    }
-  }, [startVideoStream, connectWebSocket])
+    resetLiveness()
+    await start()
+  }, [start, resetLiveness])
 
   const handleStop = useCallback(() => {
-    stopStreaming()
+    stop()
+    resetLiveness()
     setStatus('Verification stopped')
-  }, [stopStreaming])
+  }, [stop, resetLiveness, setStatus])
 
   const handleRestart = useCallback(() => {
     // Send restart signal to backend
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type: 'restart_verification' }))
-    }
+    send({ type: 'restart_verification' })
     
     // Reset local state
     setSuccess(false)
     setError(null)
     setFramesCollected(0)
-    setFramesSent(0)
-    setFrameCount(0)
     setProcessedCount(0)
     setQualityScore(null)
     setSimilarityScore(null)
@@ -486,9 +274,8 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
     setProcessingTime(null)
     setComparisonTime(null)
     setVerificationResult(null)
-    setAttemptsRemaining(5)
-    setRetryCount(0)
-    setNetworkLatency(null)
+    setAttemptsRemaining(MAX_VERIFICATION_ATTEMPTS)
+    resetStats()
     setCanRetry(true)
     setMaxSimilarity(null)
     setMatchRatio(null)
@@ -496,14 +283,11 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
     
     if (!isConnected) {
       handleStart()
+    } else if (livenessChallenges) {
+      // Same socket: the backend discarded the previous transcript, so run a fresh sequence
+      startLiveness(sessionIdRef.current)
     }
-  }, [isConnected, handleStart])
-
-  useEffect(() => {
-    return () => {
-      stopStreaming()
-    }
-  }, [stopStreaming])
+  }, [isConnected, handleStart, send, resetStats, setError, livenessChallenges, startLiveness])
 
   const getConnectionIcon = () => {
     switch (connectionState) {
@@ -534,6 +318,9 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
 
   return (
     <div className={`flex flex-col items-center space-y-6 ${className}`}>
+      {/* Another tab or device is already streaming for this user */}
+      <ActiveSessionNotice userId={userId} enabled={connectionState === 'disconnected'} className="max-w-md" />
+
       {/* Video Display */}
       <div className="relative">
         <video
@@ -541,8 +328,26 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
           autoPlay
           playsInline
           muted
-          className="w-[480px] h-[360px] object-cover rounded-lg border-2 border-gray-300 bg-black"
+          className={`w-[480px] h-[360px] object-cover rounded-lg border-2 border-gray-300 bg-black ${mirror ? '-scale-x-100' : ''}`}
         />
+        {isStreaming && (
+          <FaceGuideOverlay faces={faces} videoSize={videoSize} position={facePosition} mirrored={mirror} className="rounded-lg" />
+        )}
+
+        {/* Liveness challenge prompt */}
+        {isStreaming && liveness.prompt && (
+          <div className="absolute left-4 right-4 top-1/2 -translate-y-1/2 flex justify-center pointer-events-none">
+            <div className="bg-blue-600 bg-opacity-90 text-white px-4 py-3 rounded-lg text-center shadow-lg">
+              <p className="text-xs uppercase tracking-wide text-blue-100">
+                Liveness check {liveness.currentIndex + 1}/{liveness.challenges.length}
+                {liveness.secondsLeft !== null && ` • ${liveness.secondsLeft}s`}
+              </p>
+              <p className="text-lg font-semibold">
+                {liveness.status === 'loading' ? 'Preparing liveness check...' : liveness.prompt}
+              </p>
+            </div>
+          </div>
+        )}
         
         {/* Verification Status Overlay */}
         <div className="absolute top-4 left-4 right-4">
@@ -552,7 +357,7 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
               <div className="flex items-center space-x-2">
                 {getConnectionIcon()}
                 <span className="text-xs">
-                  {connectionState === 'connected' ? `Connected ${networkLatency ? `(${networkLatency}ms)` : ''}` :
+                  {connectionState === 'connected' ? `Connected${transport === 'http' ? ' via HTTP' : ''} ${networkLatency ? `(${networkLatency}ms)` : ''}` :
                    connectionState === 'connecting' ? 'Connecting...' :
                    connectionState === 'reconnecting' ? `Reconnecting... (${retryCount}/${MAX_RETRIES})` :
                    'Disconnected'}
@@ -561,6 +366,7 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
             </div>
             
             <p className="text-sm">{status}</p>
+            <FrameQualityCoaching coaching={qualityCoaching} framesSkipped={framesSkipped} />
             
             {/* Progress Bar - matches backend frame requirements */}
             {requiredFrames > 0 && (
@@ -583,7 +389,10 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
               <div className="mt-2 text-xs text-gray-300">
                 {processingTime !== null && <span>Process: {processingTime.toFixed(0)}ms </span>}
                 {comparisonTime !== null && <span>Compare: {comparisonTime.toFixed(0)}ms </span>}
-                {networkLatency !== null && <span>Latency: {networkLatency}ms</span>}
+                {networkLatency !== null && <span>Latency: {networkLatency}ms </span>}
+                {adaptiveStreaming && (
+                  <span>Rate: {(1000 / adaptiveStreaming.interval).toFixed(1)} fps @ {Math.round(adaptiveStreaming.quality * 100)}%</span>
+                )}
               </div>
             )}
           </div>
@@ -698,10 +507,13 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
             {quizId && <p><strong>Quiz:</strong> {quizId}</p>}
             <p><strong>Threshold:</strong> {SIMILARITY_THRESHOLD}% similarity (relaxed)</p>
             <p><strong>Required Frames:</strong> {requiredFrames} (optimized)</p>
+            {livenessChallenges && <p><strong>Liveness:</strong> challenge-response required</p>}
           </div>
         </div>
       )}
 
+      <CameraSettings camera={camera} />
+
       {/* Error Alert */}
       {error && (
         <div className="w-full max-w-md bg-red-50 border border-red-200 rounded-lg p-4">
@@ -742,8 +554,11 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
             {verificationResult.max_similarity_score && (
               <p><strong>Best Match:</strong> {verificationResult.max_similarity_score?.toFixed(1)}%</p>
             )}
+            {verificationResult.matched_template_label && (
+              <p><strong>Matched Template:</strong> {verificationResult.matched_template_label}</p>
+            )}
             <p><strong>Quality Score:</strong> {verificationResult.quality_score?.toFixed(1)}%</p>
-            <p><strong>Anti-spoofing:</strong> {(verificationResult.antispoofing_score * 100)?.toFixed(1)}%</p>
+            <p><strong>Anti-spoofing:</strong> {((verificationResult.antispoofing_score ?? 0) * 100).toFixed(1)}%</p>
             {verificationResult.match_ratio !== undefined && (
               <p><strong>Match Ratio:</strong> {(verificationResult.match_ratio * 100)?.toFixed(1)}%</p>
             )}
@@ -756,7 +571,41 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
             {verificationResult.verification_id && (
               <p><strong>Verification ID:</strong> {verificationResult.verification_id}</p>
             )}
+            {verificationResult.liveness_passed !== undefined && (
+              <p><strong>Liveness Challenges:</strong> {verificationResult.liveness_passed ? 'Passed' : 'Failed'}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Liveness Transcript */}
+      {liveness.transcript && (
+        <div className="w-full max-w-md bg-gray-50 border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <Activity size={20} className="text-gray-600" />
+            <p className="font-medium text-gray-800">Liveness Challenges</p>
           </div>
+          {liveness.status === 'unavailable' ? (
+            <p className="text-sm text-red-600">Liveness check could not be loaded in this browser.</p>
+          ) : (
+            <ul className="text-sm text-gray-600 space-y-1">
+              {liveness.transcript.challenges.map((challenge, index) => (
+                <li key={index} className="flex items-center space-x-2">
+                  {challenge.passed ? (
+                    <CheckCircle size={14} className="text-green-600" />
+                  ) : (
+                    <AlertCircle size={14} className="text-red-600" />
+                  )}
+                  <span>{LIVENESS_PROMPTS[challenge.type]}</span>
+                  {challenge.completed_at && (
+                    <span className="text-xs text-gray-400">
+                      {((challenge.completed_at - challenge.issued_at) / 1000).toFixed(1)}s
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
 
@@ -772,6 +621,8 @@ const RealTimeFaceVerification: React.FC<RealTimeFaceVerificationProps> = ({
           <li>• Multiple retry attempts allowed</li>
           <li>• Auto-reconnection on network issues</li>
           <li>• Look directly at camera and stay still</li>
+          <li>• Dark, blurry or moving frames are skipped before upload</li>
+          {livenessChallenges && <li>• Follow the on-screen prompts (blink, turn, nod, smile)</li>}
           <li>• Faster processing for quiz access</li>
           <li>• Multi-criteria matching for better success rate</li>
         </ul>
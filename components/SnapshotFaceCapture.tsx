@@ -0,0 +1,206 @@
+// components/SnapshotFaceCapture.tsx - Single-photo registration/verification over HTTP, for networks that block WebSockets
+'use client'
+
+import React, { useState, useEffect, useRef, useCallback } from 'react'
+import { Camera, Upload, Send, Loader, AlertCircle, Image as ImageIcon } from 'lucide-react'
+import WebcamCapture from '@/components/WebcamCapture'
+import { faceAPI, FaceRegistrationResponse, FaceVerificationResponse } from '@/lib/api'
+import { getErrorMessage, isCancelled } from '@/lib/errors'
+import { FaceSessionKind } from '@/hooks/useFaceStreamSession'
+
+type PhotoSource = 'camera' | 'upload'
+
+interface SnapshotFaceCaptureProps {
+  kind: FaceSessionKind
+  userId: number
+  quizId?: string
+  courseId?: string
+  // Registration only: replace the current template, which the backend keeps until the new one is stored
+  reEnroll?: boolean
+  // Registration only: names the template the photo adds or replaces
+  templateLabel?: string
+  onSuccess?: (result: FaceRegistrationResponse | FaceVerificationResponse) => void
+  onError?: (error: string) => void
+  className?: string
+}
+
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024  // 5MB
+
+// Tells the backend how the registration photo was taken
+const REGISTRATION_SOURCES: Record<PhotoSource, string> = {
+  camera: 'web_snapshot',
+  upload: 'web_upload'
+}
+
+const SnapshotFaceCapture: React.FC<SnapshotFaceCaptureProps> = ({
+  kind,
+  userId,
+  quizId,
+  courseId,
+  reEnroll = false,
+  templateLabel,
+  onSuccess,
+  onError,
+  className = ''
+}) => {
+  const [source, setSource] = useState<PhotoSource>('camera')
+  const [photo, setPhoto] = useState<File | null>(null)
+  const [preview, setPreview] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Uploaded photos are previewed from an object URL that must be released
+  useEffect(() => {
+    if (!photo || source !== 'upload') {
+      setPreview(null)
+      return
+    }
+    const url = URL.createObjectURL(photo)
+    setPreview(url)
+    return () => URL.revokeObjectURL(url)
+  }, [photo, source])
+
+  // Leaving the page or switching users cancels an upload in flight
+  useEffect(() => () => controllerRef.current?.abort(), [userId])
+
+  const switchSource = (next: PhotoSource) => {
+    setSource(next)
+    setPhoto(null)
+    setError(null)
+  }
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null
+    setError(null)
+    if (!file) {
+      setPhoto(null)
+      return
+    }
+    if (!ACCEPTED_TYPES.includes(file.type)) {
+      setPhoto(null)
+      setError('Please choose a JPEG, PNG or WebP image.')
+      return
+    }
+    if (file.size > MAX_UPLOAD_SIZE) {
+      setPhoto(null)
+      setError(`Image is too large (max ${MAX_UPLOAD_SIZE / 1024 / 1024}MB).`)
+      return
+    }
+    setPhoto(file)
+  }
+
+  const handleCapture = useCallback((file: File) => {
+    setPhoto(file)
+    setError(null)
+  }, [])
+
+  const handleRetake = useCallback(() => setPhoto(null), [])
+
+  const submit = async () => {
+    if (!photo) return
+
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const result = kind === 'registration'
+        ? await faceAPI.registerFace(userId, photo, REGISTRATION_SOURCES[source], { signal: controller.signal, templateLabel, reEnroll })
+        : await faceAPI.verifyFace(userId, photo, quizId, courseId, { signal: controller.signal })
+      console.log(`📸 Snapshot ${kind} result:`, result)
+      onSuccess?.(result)
+    } catch (error) {
+      if (isCancelled(error)) return
+      console.error(`❌ Snapshot ${kind} failed:`, error)
+      const message = getErrorMessage(error, `Snapshot ${kind} failed`)
+      setError(message)
+      onError?.(message)
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setSubmitting(false)
+      }
+    }
+  }
+
+  const tabClass = (tab: PhotoSource) =>
+    `flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium ${
+      source === tab ? 'bg-primary-100 text-primary-700' : 'text-gray-600 hover:bg-gray-100'
+    }`
+
+  return (
+    <div className={`flex flex-col items-center space-y-4 ${className}`}>
+      <p className="text-sm text-gray-600 text-center max-w-md">
+        Snapshot mode sends a single photo over HTTPS instead of a live video stream.
+        {kind === 'registration'
+          ? ' Use a clear, well-lit, front-facing photo of yourself.'
+          : ' Look straight at the camera in good lighting.'}
+      </p>
+
+      <div className="flex space-x-2" role="tablist">
+        <button type="button" role="tab" aria-selected={source === 'camera'} onClick={() => switchSource('camera')} disabled={submitting} className={tabClass('camera')}>
+          <Camera size={16} />
+          <span>Take photo</span>
+        </button>
+        <button type="button" role="tab" aria-selected={source === 'upload'} onClick={() => switchSource('upload')} disabled={submitting} className={tabClass('upload')}>
+          <Upload size={16} />
+          <span>Upload from disk</span>
+        </button>
+      </div>
+
+      {source === 'camera' ? (
+        <WebcamCapture onCapture={handleCapture} onRetake={handleRetake} loading={submitting} />
+      ) : (
+        <div className="flex flex-col items-center space-y-3">
+          {preview ? (
+            <img src={preview} alt="Selected" className="w-[480px] max-h-[360px] object-contain rounded-lg border-2 border-gray-300 bg-black" />
+          ) : (
+            <div className="w-[480px] h-[240px] flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-300 text-gray-400">
+              <ImageIcon size={48} />
+              <span className="text-sm mt-2">No photo selected</span>
+            </div>
+          )}
+          <input
+            type="file"
+            accept={ACCEPTED_TYPES.join(',')}
+            onChange={handleFile}
+            disabled={submitting}
+            className="text-sm text-gray-700"
+          />
+        </div>
+      )}
+
+      <button
+        onClick={submit}
+        disabled={!photo || submitting}
+        className="btn-primary flex items-center space-x-2 disabled:opacity-50"
+      >
+        {submitting ? <Loader size={20} className="animate-spin" /> : <Send size={20} />}
+        <span>
+          {submitting
+            ? (kind === 'registration' ? 'Registering...' : 'Verifying...')
+            : (kind === 'registration' ? 'Register with this photo' : 'Verify with this photo')}
+        </span>
+      </button>
+
+      {error && (
+        <div className="w-full max-w-md bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle size={20} className="text-red-600" />
+            <div className="flex-1">
+              <p className="font-medium text-red-800">{kind === 'registration' ? 'Registration Error' : 'Verification Error'}</p>
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SnapshotFaceCapture
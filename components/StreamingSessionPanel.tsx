@@ -0,0 +1,109 @@
+// components/StreamingSessionPanel.tsx - A user's active streaming session on /status, with an admin terminate action
+'use client'
+
+import React, { useState } from 'react'
+import { Radio, RefreshCw, StopCircle, Loader, XCircle } from 'lucide-react'
+import { useActiveSession } from '@/hooks/useActiveSession'
+
+interface StreamingSessionPanelProps {
+  userId: number
+}
+
+const formatScore = (score: number | undefined, asPercent = false) => {
+  if (score === undefined) return '—'
+  return asPercent ? `${(score * 100).toFixed(1)}%` : score.toFixed(1)
+}
+
+const StreamingSessionPanel: React.FC<StreamingSessionPanelProps> = ({ userId }) => {
+  const { session, loading, error, terminating, terminateError, refresh, terminate } = useActiveSession(userId)
+  // Terminating drops the user's camera session mid-flow, so it takes a second click
+  const [confirming, setConfirming] = useState(false)
+
+  const handleTerminate = async () => {
+    const terminated = await terminate()
+    if (terminated) setConfirming(false)
+  }
+
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Radio className="text-primary-600" size={24} />
+          <h2 className="text-xl font-semibold text-gray-900">Streaming Session</h2>
+        </div>
+        <button onClick={refresh} disabled={loading} className="btn-secondary flex items-center space-x-2 disabled:opacity-50">
+          <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">Could not load the streaming session: {error.message}</p>
+      )}
+
+      {!error && !session && (
+        <p className="text-sm text-gray-600">
+          {loading ? 'Checking for an active session...' : 'No active registration or verification stream for this user.'}
+        </p>
+      )}
+
+      {session && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+            <div className="space-y-1">
+              <p><span className="text-gray-600">Type:</span> <span className="capitalize">{session.SessionType}</span></p>
+              <p><span className="text-gray-600">Status:</span> {session.Status}</p>
+              <p><span className="text-gray-600">Frames Processed:</span> {session.FramesProcessed}</p>
+              <p><span className="text-gray-600">Started:</span> {session.StartTime ? new Date(session.StartTime).toLocaleString() : '—'}</p>
+              <p className="text-xs text-gray-500 break-all">Session ID: {session.SessionID}</p>
+            </div>
+            <div className="space-y-1">
+              <p><span className="text-gray-600">Liveness Score:</span> {formatScore(session.LivenessScore, true)}</p>
+              <p><span className="text-gray-600">Anti-spoofing Score:</span> {formatScore(session.AntiSpoofingScore, true)}</p>
+              <p><span className="text-gray-600">Quality Score:</span> {formatScore(session.QualityScore)}{session.QualityScore !== undefined && '%'}</p>
+            </div>
+          </div>
+
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            {confirming ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-gray-700">
+                  End this session? The user&apos;s camera stream stops and collected frames are discarded.
+                </span>
+                <button
+                  onClick={handleTerminate}
+                  disabled={terminating}
+                  className="btn-primary bg-red-600 hover:bg-red-700 flex items-center space-x-2 disabled:opacity-50"
+                >
+                  {terminating ? <Loader size={16} className="animate-spin" /> : <StopCircle size={16} />}
+                  <span>{terminating ? 'Terminating...' : 'Terminate'}</span>
+                </button>
+                <button onClick={() => setConfirming(false)} disabled={terminating} className="btn-secondary disabled:opacity-50">
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button onClick={() => setConfirming(true)} className="btn-secondary flex items-center space-x-2 text-red-600">
+                <StopCircle size={16} />
+                <span>Terminate Session (admin)</span>
+              </button>
+            )}
+
+            {terminateError && (
+              <div className="flex items-center space-x-2 mt-2">
+                <XCircle size={16} className="text-red-600" />
+                <span className="text-sm text-red-600">
+                  {terminateError.kind === 'auth'
+                    ? 'Not allowed to terminate this session. Sign in with an administrator account.'
+                    : `Could not terminate the session: ${terminateError.message}`}
+                </span>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default StreamingSessionPanel
@@ -0,0 +1,203 @@
+// components/UserPicker.tsx - Searchable, role-filterable user picker for the database user directory
+'use client'
+
+import React, { useState, useMemo, useRef, useEffect, useDeferredValue } from 'react'
+import { User } from '@/lib/api'
+import { UserCircle, Search, XCircle, Loader } from 'lucide-react'
+
+interface UserPickerProps {
+  users: User[]
+  selectedUserId: number | null
+  onSelect: (userId: number) => void
+  loading?: boolean
+  error?: string | null
+  // Locks the selection, e.g. while a verification is running
+  disabled?: boolean
+}
+
+// Only the rows in view are rendered, so the list stays fast with thousands of users
+const ROW_HEIGHT = 56
+const VISIBLE_ROWS = 6
+const OVERSCAN = 4
+const ALL_ROLES = 'all'
+
+const UserPicker: React.FC<UserPickerProps> = ({
+  users,
+  selectedUserId,
+  onSelect,
+  loading = false,
+  error = null,
+  disabled = false
+}) => {
+  const [query, setQuery] = useState('')
+  const [role, setRole] = useState(ALL_ROLES)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const listRef = useRef<HTMLDivElement>(null)
+  const deferredQuery = useDeferredValue(query)
+
+  // Lower-cased search text per user, built once per user list
+  const searchIndex = useMemo(() => users.map(user => ({
+    user,
+    text: [user.name, user.email, user.mobile, String(user.id)].filter(Boolean).join(' ').toLowerCase()
+  })), [users])
+
+  const roleCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    users.forEach(user => counts.set(user.role, (counts.get(user.role) || 0) + 1))
+    return [...counts.entries()].sort(([a], [b]) => a.localeCompare(b))
+  }, [users])
+
+  const filteredUsers = useMemo(() => {
+    const terms = deferredQuery.trim().toLowerCase().split(/\s+/).filter(Boolean)
+    return searchIndex
+      .filter(entry => role === ALL_ROLES || entry.user.role === role)
+      .filter(entry => terms.every(term => entry.text.includes(term)))
+      .map(entry => entry.user)
+  }, [searchIndex, deferredQuery, role])
+
+  // New results start from the top
+  useEffect(() => {
+    setActiveIndex(-1)
+    setScrollTop(0)
+    if (listRef.current) listRef.current.scrollTop = 0
+  }, [filteredUsers])
+
+  const scrollToIndex = (index: number) => {
+    const list = listRef.current
+    if (!list) return
+    const top = index * ROW_HEIGHT
+    if (top < list.scrollTop) {
+      list.scrollTop = top
+    } else if (top + ROW_HEIGHT > list.scrollTop + list.clientHeight) {
+      list.scrollTop = top + ROW_HEIGHT - list.clientHeight
+    }
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (filteredUsers.length === 0) return
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault()
+      const step = event.key === 'ArrowDown' ? 1 : -1
+      const next = Math.min(filteredUsers.length - 1, Math.max(0, activeIndex + step))
+      setActiveIndex(next)
+      scrollToIndex(next)
+    } else if (event.key === 'Enter' && activeIndex >= 0 && !disabled) {
+      event.preventDefault()
+      onSelect(filteredUsers[activeIndex].id)
+    }
+  }
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const end = Math.min(filteredUsers.length, Math.ceil((scrollTop + VISIBLE_ROWS * ROW_HEIGHT) / ROW_HEIGHT) + OVERSCAN)
+  const visibleUsers = filteredUsers.slice(start, end)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-600">
+        <Loader size={20} className="animate-spin mr-2" />
+        <span>Loading users...</span>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <div className="flex items-center space-x-2">
+          <XCircle size={20} className="text-red-600" />
+          <div>
+            <p className="font-medium text-red-800">Failed to Load Users</p>
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={disabled ? 'opacity-50' : ''}>
+      <div className="relative mb-3">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search by name, email or ID..."
+          aria-label="Search users"
+          className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-primary-500"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {[[ALL_ROLES, users.length] as const, ...roleCounts].map(([value, count]) => (
+          <button
+            key={value}
+            onClick={() => setRole(value)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              role === value
+                ? 'bg-primary-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {value === ALL_ROLES ? 'All roles' : value} ({count})
+          </button>
+        ))}
+      </div>
+
+      {filteredUsers.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No users match your search</p>
+      ) : (
+        <div
+          ref={listRef}
+          role="listbox"
+          aria-label="Users"
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          className="overflow-y-auto border border-gray-200 rounded-lg"
+          style={{ height: Math.min(filteredUsers.length, VISIBLE_ROWS) * ROW_HEIGHT }}
+        >
+          <div className="relative" style={{ height: filteredUsers.length * ROW_HEIGHT }}>
+            {visibleUsers.map((user, offset) => {
+              const index = start + offset
+              const selected = user.id === selectedUserId
+              return (
+                <button
+                  key={user.id}
+                  role="option"
+                  aria-selected={selected}
+                  onClick={() => onSelect(user.id)}
+                  disabled={disabled}
+                  className={`absolute left-0 right-0 flex items-center space-x-3 px-3 text-left border-b border-gray-100 transition-colors disabled:cursor-not-allowed ${
+                    selected
+                      ? 'bg-primary-50'
+                      : index === activeIndex ? 'bg-gray-100' : 'hover:bg-gray-50'
+                  }`}
+                  style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                >
+                  <UserCircle size={28} className={selected ? 'text-primary-600' : 'text-gray-400'} />
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-gray-900 truncate">{user.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      ID: {user.id} • {user.role}{user.email ? ` • ${user.email}` : ''}
+                    </p>
+                  </div>
+                  {!user.active && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-gray-200 text-gray-600">Inactive</span>
+                  )}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-2">
+        Showing {filteredUsers.length} of {users.length} users
+      </p>
+    </div>
+  )
+}
+
+export default UserPicker
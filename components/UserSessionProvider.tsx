@@ -0,0 +1,79 @@
+// components/UserSessionProvider.tsx - Provides the current user session to every page (mounted in app/layout.tsx)
+'use client'
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
+import { useUsers, useUserWithFaceStatus } from '@/hooks/useUsers'
+import { UserSessionContext, UserSessionValue } from '@/hooks/useUserSession'
+import { isAuthenticated, onAuthChange } from '@/lib/auth'
+
+const SELECTED_USER_KEY = 'selectedUserId'
+
+const readStoredUserId = (): number | null => {
+  const saved = parseInt(localStorage.getItem(SELECTED_USER_KEY) || '', 10)
+  return Number.isNaN(saved) ? null : saved
+}
+
+const UserSessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { users, loading, error, stats, refreshUsers, getUserById } = useUsers()
+  const [selectedUserId, setSelectedUserIdState] = useState<number | null>(null)
+  const [authenticated, setAuthenticated] = useState(false)
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setSelectedUserIdState(readStoredUserId())
+    setAuthenticated(isAuthenticated())
+    return onAuthChange(setAuthenticated)
+  }, [])
+
+  // Selection changed in another tab
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SELECTED_USER_KEY) {
+        setSelectedUserIdState(readStoredUserId())
+      }
+    }
+
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  // Fall back to the first user when nothing (or a user that no longer exists) is selected
+  useEffect(() => {
+    if (loading || users.length === 0) return
+    if (selectedUserId === null || !getUserById(selectedUserId)) {
+      setSelectedUserIdState(users[0].id)
+    }
+  }, [loading, users, selectedUserId, getUserById])
+
+  const setSelectedUserId = useCallback((userId: number) => {
+    setSelectedUserIdState(userId)
+    localStorage.setItem(SELECTED_USER_KEY, userId.toString())
+  }, [])
+
+  const { faceStatus, faceLoading, faceError, refreshFaceStatus } = useUserWithFaceStatus(selectedUserId)
+
+  const value = useMemo<UserSessionValue>(() => ({
+    users,
+    usersLoading: loading,
+    usersError: error,
+    userStats: stats,
+    refreshUsers,
+    selectedUserId,
+    selectedUser: selectedUserId !== null ? getUserById(selectedUserId) ?? null : null,
+    setSelectedUserId,
+    isAuthenticated: authenticated,
+    // Never expose the previous user's status while the new one loads
+    faceStatus: faceStatus?.user_id === selectedUserId ? faceStatus : null,
+    faceStatusLoading: faceLoading,
+    faceStatusError: faceError,
+    refreshFaceStatus
+  }), [users, loading, error, stats, refreshUsers, selectedUserId, getUserById, setSelectedUserId, authenticated, faceStatus, faceLoading, faceError, refreshFaceStatus])
+
+  return (
+    <UserSessionContext.Provider value={value}>
+      {children}
+    </UserSessionContext.Provider>
+  )
+}
+
+export default UserSessionProvider
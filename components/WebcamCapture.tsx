@@ -1,25 +1,57 @@
 'use client'
 
-import React, { useRef, useCallback, useState } from 'react'
+import React, { useRef, useCallback, useState, useEffect, useMemo } from 'react'
 import Webcam from 'react-webcam'
 import { Camera, RotateCcw, Check } from 'lucide-react'
+import { useFaceDetection } from '@/hooks/useFaceDetection'
+import { drawAlignedFace, getFacePositionCoaching } from '@/lib/faceDetection'
+import FaceGuideOverlay from '@/components/FaceGuideOverlay'
+import CameraSettings from '@/components/CameraSettings'
+import { useCameraPreferences } from '@/hooks/useCameraPreferences'
+import { buildVideoConstraints } from '@/lib/camera'
 
 interface WebcamCaptureProps {
   onCapture: (imageFile: File) => void
+  // The captured photo was discarded
+  onRetake?: () => void
   loading?: boolean
   className?: string
 }
 
 const WebcamCapture: React.FC<WebcamCaptureProps> = ({ 
   onCapture, 
+  onRetake,
   loading = false, 
   className = "" 
 }) => {
   const webcamRef = useRef<Webcam>(null)
+  const videoRef = useRef<HTMLVideoElement | null>(null)
   const [capturedImage, setCapturedImage] = useState<string | null>(null)
+  const { faces, videoSize, position, latestRef } = useFaceDetection(videoRef, { enabled: !capturedImage })
+  const camera = useCameraPreferences()
+  const { preferences } = camera
+  // Set when the saved camera could not be opened, so the default one is used instead
+  const [deviceFailed, setDeviceFailed] = useState(false)
+
+  useEffect(() => {
+    setDeviceFailed(false)
+  }, [preferences.deviceId])
+
+  // Upload just the aligned face when exactly one is detected, otherwise the full screenshot
+  const takeImage = useCallback(() => {
+    const video = videoRef.current
+    const { faces: detectedFaces, position: detectedPosition } = latestRef.current
+    if (video && detectedPosition?.faceCount === 1) {
+      const canvas = document.createElement('canvas')
+      if (drawAlignedFace(video, detectedFaces[0], canvas)) {
+        return canvas.toDataURL('image/jpeg', 0.92)
+      }
+    }
+    return webcamRef.current?.getScreenshot()
+  }, [latestRef])
 
   const capture = useCallback(() => {
-    const imageSrc = webcamRef.current?.getScreenshot()
+    const imageSrc = takeImage()
     if (imageSrc) {
       setCapturedImage(imageSrc)
       
@@ -31,17 +63,24 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({
           onCapture(file)
         })
     }
-  }, [onCapture])
+  }, [onCapture, takeImage])
 
   const retake = useCallback(() => {
     setCapturedImage(null)
-  }, [])
+    onRetake?.()
+  }, [onRetake])
 
-  const videoConstraints = {
-    width: 480,
-    height: 360,
-    facingMode: "user"
-  }
+  const videoConstraints = useMemo(() => buildVideoConstraints(
+    deviceFailed ? { ...preferences, deviceId: null } : preferences,
+    { width: 480, height: 360 }
+  ), [preferences, deviceFailed])
+
+  const handleUserMediaError = useCallback((error: string | DOMException) => {
+    console.warn('Webcam could not be started:', error)
+    if (preferences.deviceId && !deviceFailed) {
+      setDeviceFailed(true)
+    }
+  }, [preferences.deviceId, deviceFailed])
 
   return (
     <div className={`flex flex-col items-center space-y-4 ${className}`}>
@@ -51,7 +90,7 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({
             <img 
               src={capturedImage} 
               alt="Captured" 
-              className="w-[480px] h-[360px] object-cover rounded-lg border-2 border-gray-300"
+              className="w-[480px] h-[360px] object-contain rounded-lg border-2 border-gray-300 bg-black"
             />
             <div className="absolute top-2 right-2 bg-green-500 text-white p-1 rounded-full">
               <Check size={16} />
@@ -64,11 +103,18 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({
               audio={false}
               screenshotFormat="image/jpeg"
               videoConstraints={videoConstraints}
-              className="rounded-lg border-2 border-gray-300"
+              onUserMedia={() => {
+                videoRef.current = webcamRef.current?.video ?? null
+                // Device labels become available once permission is granted
+                camera.refreshDevices()
+              }}
+              onUserMediaError={handleUserMediaError}
+              className={`rounded-lg border-2 border-gray-300 ${preferences.mirror ? '-scale-x-100' : ''}`}
             />
+            <FaceGuideOverlay faces={faces} videoSize={videoSize} position={position} mirrored={preferences.mirror} className="rounded-lg" />
             <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2">
               <div className="bg-black bg-opacity-50 text-white px-3 py-1 rounded-full text-sm">
-                Position your face in the center
+                {getFacePositionCoaching(position) ?? (position ? 'Looks good - hold still' : 'Position your face in the center')}
               </div>
             </div>
           </div>
@@ -97,6 +143,8 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({
         )}
       </div>
 
+      {!capturedImage && <CameraSettings camera={camera} />}
+
       <div className="text-sm text-gray-600 text-center max-w-md">
         <p>• Make sure your face is well-lit and clearly visible</p>
         <p>• Look directly at the camera</p>
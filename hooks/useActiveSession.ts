@@ -0,0 +1,107 @@
+// hooks/useActiveSession.ts - Polls a user's active streaming session and terminates it on request
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { faceAPI, StreamingSession } from '@/lib/api'
+import { FaceApiError, isCancelled, toFaceApiError } from '@/lib/errors'
+
+interface UseActiveSessionOptions {
+  // false pauses polling and clears the result, e.g. while this tab streams itself
+  enabled?: boolean
+  pollInterval?: number
+}
+
+interface UseActiveSessionReturn {
+  session: StreamingSession | null
+  loading: boolean
+  error: FaceApiError | null
+  terminating: boolean
+  terminateError: FaceApiError | null
+  refresh: () => void
+  terminate: () => Promise<boolean>
+}
+
+const DEFAULT_POLL_INTERVAL = 10000
+
+export const useActiveSession = (
+  userId: number | null,
+  { enabled = true, pollInterval = DEFAULT_POLL_INTERVAL }: UseActiveSessionOptions = {}
+): UseActiveSessionReturn => {
+  const [session, setSession] = useState<StreamingSession | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<FaceApiError | null>(null)
+  const [terminating, setTerminating] = useState(false)
+  const [terminateError, setTerminateError] = useState<FaceApiError | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const sessionRef = useRef<StreamingSession | null>(null)
+  sessionRef.current = session
+
+  useEffect(() => {
+    setSession(null)
+    setError(null)
+    setTerminateError(null)
+    if (!userId || !enabled) return
+
+    // Switching users or disabling cancels the lookup in flight
+    const controller = new AbortController()
+    const { signal } = controller
+    let timeout: ReturnType<typeof setTimeout> | null = null
+
+    const fetchSession = async () => {
+      setLoading(true)
+      try {
+        const active = await faceAPI.getActiveSession(userId, { signal })
+        setSession(active)
+        setError(null)
+      } catch (err) {
+        if (isCancelled(err)) return
+        console.error('Failed to fetch active streaming session:', err)
+        setError(toFaceApiError(err))
+      } finally {
+        if (!signal.aborted) {
+          setLoading(false)
+          timeout = setTimeout(fetchSession, pollInterval)
+        }
+      }
+    }
+
+    fetchSession()
+    return () => {
+      controller.abort()
+      if (timeout) clearTimeout(timeout)
+    }
+  }, [userId, enabled, pollInterval, reloadKey])
+
+  const refresh = useCallback(() => setReloadKey(key => key + 1), [])
+
+  const terminate = useCallback(async () => {
+    const current = sessionRef.current
+    if (!current) return false
+
+    setTerminating(true)
+    setTerminateError(null)
+    try {
+      await faceAPI.terminateSession(current.SessionID)
+      console.log(`🛑 Terminated streaming session ${current.SessionID}`)
+      setSession(null)
+      refresh()
+      return true
+    } catch (err) {
+      console.error('Failed to terminate streaming session:', err)
+      setTerminateError(toFaceApiError(err))
+      return false
+    } finally {
+      setTerminating(false)
+    }
+  }, [refresh])
+
+  return {
+    session,
+    loading,
+    error,
+    terminating,
+    terminateError,
+    refresh,
+    terminate
+  }
+}
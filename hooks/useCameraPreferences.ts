@@ -0,0 +1,63 @@
+// hooks/useCameraPreferences.ts - Persisted camera preferences and the list of available cameras
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import {
+  CAMERA_PREFERENCES_EVENT,
+  CameraPreferences,
+  DEFAULT_CAMERA_PREFERENCES,
+  isCameraPreferencesKey,
+  listCameras,
+  loadCameraPreferences,
+  saveCameraPreferences
+} from '@/lib/camera'
+
+export const useCameraPreferences = () => {
+  const [preferences, setPreferences] = useState<CameraPreferences>(DEFAULT_CAMERA_PREFERENCES)
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+
+  // localStorage is only available after hydration; stay in sync with other components and tabs
+  useEffect(() => {
+    const sync = () => setPreferences(loadCameraPreferences())
+    const handleStorage = (event: StorageEvent) => {
+      if (isCameraPreferencesKey(event.key)) sync()
+    }
+
+    sync()
+    window.addEventListener(CAMERA_PREFERENCES_EVENT, sync)
+    window.addEventListener('storage', handleStorage)
+    return () => {
+      window.removeEventListener(CAMERA_PREFERENCES_EVENT, sync)
+      window.removeEventListener('storage', handleStorage)
+    }
+  }, [])
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await listCameras())
+    } catch (error) {
+      console.warn('Failed to list cameras:', error)
+    }
+  }, [])
+
+  // Cameras plugged in or removed while the page is open
+  useEffect(() => {
+    refreshDevices()
+    const mediaDevices = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined
+    mediaDevices?.addEventListener?.('devicechange', refreshDevices)
+    return () => mediaDevices?.removeEventListener?.('devicechange', refreshDevices)
+  }, [refreshDevices])
+
+  const updatePreferences = useCallback((changes: Partial<CameraPreferences>) => {
+    saveCameraPreferences({ ...loadCameraPreferences(), ...changes })
+  }, [])
+
+  return {
+    preferences,
+    updatePreferences,
+    devices,
+    refreshDevices
+  }
+}
+
+export type CameraPreferencesState = ReturnType<typeof useCameraPreferences>
@@ -0,0 +1,102 @@
+// hooks/useFaceDetection.ts - Runs the in-browser face detector on a live video element
+'use client'
+
+import { useRef, useState, useEffect } from 'react'
+import {
+  DetectedFace,
+  FaceDetector,
+  FacePositionReport,
+  assessFacePosition,
+  loadFaceDetector
+} from '@/lib/faceDetection'
+import { FrameSize } from '@/hooks/useFaceStreamSession'
+
+export type FaceDetectorStatus = 'off' | 'loading' | 'ready' | 'unavailable'
+
+export interface FaceDetectionSnapshot {
+  faces: DetectedFace[]
+  videoSize: FrameSize | null
+  position: FacePositionReport | null
+}
+
+export interface FaceDetectionOptions {
+  enabled?: boolean
+  // Milliseconds between detections; BlazeFace on CPU takes a few ms per frame
+  interval?: number
+}
+
+const DEFAULT_DETECTION_INTERVAL = 150
+
+const EMPTY_SNAPSHOT: FaceDetectionSnapshot = { faces: [], videoSize: null, position: null }
+
+export const useFaceDetection = (
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  { enabled = true, interval = DEFAULT_DETECTION_INTERVAL }: FaceDetectionOptions = {}
+) => {
+  const [detectorStatus, setDetectorStatus] = useState<FaceDetectorStatus>(enabled ? 'loading' : 'off')
+  const [snapshot, setSnapshot] = useState<FaceDetectionSnapshot>(EMPTY_SNAPSHOT)
+  // Latest result for callers outside React rendering (e.g. the frame capture interval)
+  const latestRef = useRef<FaceDetectionSnapshot>(EMPTY_SNAPSHOT)
+  const detectorRef = useRef<FaceDetector | null>(null)
+
+  useEffect(() => {
+    if (!enabled) {
+      setDetectorStatus('off')
+      return
+    }
+
+    let cancelled = false
+    setDetectorStatus(detectorRef.current ? 'ready' : 'loading')
+
+    loadFaceDetector().then((detector) => {
+      if (cancelled) return
+      detectorRef.current = detector
+      setDetectorStatus(detector ? 'ready' : 'unavailable')
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled])
+
+  useEffect(() => {
+    if (detectorStatus !== 'ready') return
+
+    const timer = setInterval(() => {
+      const video = videoRef.current
+      const detector = detectorRef.current
+      if (!detector) return
+
+      let next = EMPTY_SNAPSHOT
+      if (video && video.readyState >= 2 && video.videoWidth > 0) {
+        try {
+          const faces = detector.detect(video, performance.now())
+          next = {
+            faces,
+            videoSize: { width: video.videoWidth, height: video.videoHeight },
+            position: assessFacePosition(faces, video.videoWidth, video.videoHeight)
+          }
+        } catch (error) {
+          console.warn('Face detection failed:', error)
+        }
+      }
+
+      // Skip re-rendering while there is still nothing to show
+      if (next === EMPTY_SNAPSHOT && latestRef.current === EMPTY_SNAPSHOT) return
+      latestRef.current = next
+      setSnapshot(next)
+    }, interval)
+
+    return () => {
+      clearInterval(timer)
+      latestRef.current = EMPTY_SNAPSHOT
+      setSnapshot(EMPTY_SNAPSHOT)
+    }
+  }, [detectorStatus, interval, videoRef])
+
+  return {
+    detectorStatus,
+    ...snapshot,
+    latestRef
+  }
+}
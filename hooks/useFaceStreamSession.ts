@@ -0,0 +1,820 @@
+// hooks/useFaceStreamSession.ts - Shared camera + WebSocket (or HTTP polling fallback) streaming session for real-time face flows
+'use client'
+
+import { useRef, useState, useCallback, useEffect } from 'react'
+import {
+  ClientMessage,
+  FaceProtocolError,
+  FrameFormat,
+  FrameMessage,
+  ServerMessage,
+  ServerMessageHandlers,
+  encodeBinaryFrame,
+  getFrameFormat
+} from '@/lib/faceProtocol'
+import { buildWebSocketUrl } from '@/lib/config'
+import { WS_AUTH_MODE, getValidAccessToken, refreshAccessToken } from '@/lib/auth'
+import {
+  FaceTransport,
+  FaceTransportEvents,
+  FaceTransportKind,
+  UNAUTHORIZED_CLOSE_CODE,
+  openHttpTransport,
+  openWebSocketTransport
+} from '@/lib/faceTransport'
+import {
+  FrameQualityReport,
+  FrameQualityThresholds,
+  FrameQualityGate,
+  createFrameQualityGate,
+  getFrameQualityCoaching
+} from '@/lib/frameQuality'
+import {
+  DetectedFace,
+  FacePositionReport,
+  drawAlignedFace,
+  getFacePositionCoaching
+} from '@/lib/faceDetection'
+import {
+  AdaptiveFrameController,
+  AdaptiveStreamingConfig,
+  AdaptiveStreamingState,
+  createAdaptiveFrameController
+} from '@/lib/adaptiveStreaming'
+import { CameraPreferences, DEFAULT_CAMERA_PREFERENCES, buildConstraintSets, getCameraErrorMessage } from '@/lib/camera'
+import { FaceDetectorStatus, useFaceDetection } from '@/hooks/useFaceDetection'
+
+export type FaceSessionKind = 'registration' | 'verification'
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
+
+export interface FrameSize {
+  width: number
+  height: number
+}
+
+export interface CloseCodeMessage {
+  error: string
+  status: string
+}
+
+export interface FaceStreamSessionOptions {
+  kind: FaceSessionKind
+  userId: number
+  // Extra query parameters appended to the WebSocket URL (e.g. quiz_id, course_id)
+  params?: Record<string, string | undefined>
+  // Starting (and fastest) capture interval and starting JPEG quality; adapted while streaming
+  frameInterval: number
+  frameQuality: number
+  // Adapt interval and quality to backend processing time and latency, with at most
+  // maxFramesInFlight unanswered frames; false keeps frameInterval and frameQuality fixed
+  adaptive?: Partial<AdaptiveStreamingConfig> | false
+  // false: frames are only sent through captureFrame/sendFrame (e.g. guided enrollment)
+  autoCapture?: boolean
+  frameSize?: FrameSize
+  frameRate?: number
+  // User's camera choice (device, resolution, frame rate); changes restart the running camera
+  camera?: CameraPreferences
+  // Skip dark, blurred or moving frames before they are sent; false sends every frame
+  qualityGate?: Partial<FrameQualityThresholds> | false
+  // In-browser face detection: skips frames without exactly one face (default true)
+  faceDetection?: boolean
+  // Send only the aligned face region instead of the whole frame (default true, needs faceDetection)
+  cropFaces?: boolean
+  cropSize?: number
+  heartbeatInterval?: number
+  connectionTimeout?: number
+  reconnectDelay?: number
+  maxRetries?: number
+  // Backend close codes that end the session without reconnecting
+  closeCodes?: Record<number, CloseCodeMessage>
+  initialStatus: string
+  handlers: ServerMessageHandlers
+  onError?: (error: string) => void
+  // Malformed, unknown or invalid backend messages; the session error is set either way
+  onProtocolError?: (error: FaceProtocolError) => void
+  // Offer binary frames in the handshake (default true); backends that do not answer with
+  // frame_format 'binary' keep getting JSON data URLs
+  binaryFrames?: boolean
+  // Reconnects ask the backend to resume the current session (default true), so collected frames are kept
+  resume?: boolean
+  // 'auto' (default): WebSocket, falling back to HTTP polling when no socket can be opened
+  transport?: 'auto' | FaceTransportKind
+  // Neither transport could be opened after all retries; flows can offer a snapshot fallback
+  onConnectionFailed?: () => void
+}
+
+export interface FaceStreamSession {
+  videoRef: React.RefObject<HTMLVideoElement | null>
+  canvasRef: React.RefObject<HTMLCanvasElement | null>
+  connectionState: ConnectionState
+  // Transport in use; 'http' once the WebSocket fell back to polling
+  transport: FaceTransportKind
+  // Frame encoding agreed in the 'connected' handshake
+  frameFormat: FrameFormat
+  // Backend session from 'connected' or 'session_resumed'; offered for resume on reconnect
+  sessionId: string | null
+  isConnected: boolean
+  isStreaming: boolean
+  status: string
+  setStatus: (status: string) => void
+  error: string | null
+  setError: (error: string | null) => void
+  retryCount: number
+  maxRetries: number
+  networkLatency: number | null
+  // Current adaptive interval, quality and frames in flight; null when adaptation is off
+  adaptiveStreaming: AdaptiveStreamingState | null
+  framesSent: number
+  frameCount: number
+  framesSkipped: number
+  // Latest pre-check result and the coaching text for its first issue
+  frameQualityReport: FrameQualityReport | null
+  qualityCoaching: string | null
+  detectorStatus: FaceDetectorStatus
+  faces: DetectedFace[]
+  videoSize: FrameSize | null
+  facePosition: FacePositionReport | null
+  start: () => Promise<boolean>
+  stop: () => void
+  send: (message: ClientMessage) => boolean
+  captureFrame: () => string | null
+  sendFrame: (frame: string, extra?: Pick<FrameMessage, 'pose'>) => boolean
+  // Periodic capture, started automatically on 'connected' unless autoCapture is false
+  startCapture: () => void
+  stopCapture: () => void
+  resetStats: () => void
+}
+
+// Backend-aligned defaults from main.py
+export const DEFAULT_FRAME_SIZE: FrameSize = { width: 480, height: 360 }
+const DEFAULT_FRAME_RATE = 15
+const DEFAULT_HEARTBEAT_INTERVAL = 20000
+const DEFAULT_CONNECTION_TIMEOUT = 15000
+const DEFAULT_RECONNECT_DELAY = 3000
+const DEFAULT_MAX_RETRIES = 3
+
+export const useFaceStreamSession = (options: FaceStreamSessionOptions): FaceStreamSession => {
+  const {
+    kind,
+    userId,
+    frameInterval,
+    frameQuality,
+    frameSize = DEFAULT_FRAME_SIZE,
+    frameRate = DEFAULT_FRAME_RATE,
+    heartbeatInterval = DEFAULT_HEARTBEAT_INTERVAL,
+    connectionTimeout = DEFAULT_CONNECTION_TIMEOUT,
+    reconnectDelay = DEFAULT_RECONNECT_DELAY,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    faceDetection = true,
+    cropFaces = true,
+    cropSize,
+    initialStatus
+  } = options
+
+  // Handlers, params and close codes are usually inline literals, so read them through a ref
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const transportRef = useRef<FaceTransport | null>(null)
+  // Sticks to 'http' after a fallback, so restarting on the same network does not wait for sockets again
+  const transportKindRef = useRef<FaceTransportKind>(options.transport === 'http' ? 'http' : 'websocket')
+  const streamRef = useRef<MediaStream | null>(null)
+  const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  const heartbeatRef = useRef<NodeJS.Timeout | null>(null)
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const retryCountRef = useRef(0)
+  const frameFormatRef = useRef<FrameFormat>('json')
+  // Frame sequence number, echoed by the backend; restarts with every connection
+  const frameSequenceRef = useRef(0)
+  // Frames handed to sendFrame while the backpressure gate was closed, oldest first
+  const frameQueueRef = useRef<Pick<FrameMessage, 'frame' | 'pose'>[]>([])
+  const frameQueueTimerRef = useRef<NodeJS.Timeout | null>(null)
+  // Session to resume on the next connect; cleared by start() and stop()
+  const sessionIdRef = useRef<string | null>(null)
+  const authRetriedRef = useRef(false)
+  // Whether any connection opened since start(), to tell a blocked connection from a dropped one
+  const openedRef = useRef(false)
+  // Bumped by every connect/stop so an in-flight async connect can tell it was superseded
+  const connectGenerationRef = useRef(0)
+  const qualityGateRef = useRef<FrameQualityGate | null>(null)
+  const frameControllerRef = useRef<AdaptiveFrameController | null>(null)
+
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [isConnected, setIsConnected] = useState(false)
+  const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected')
+  const [transport, setTransport] = useState<FaceTransportKind>(transportKindRef.current)
+  const [frameFormat, setFrameFormat] = useState<FrameFormat>('json')
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [status, setStatus] = useState<string>(initialStatus)
+  const [error, setError] = useState<string | null>(null)
+  const [retryCount, setRetryCountState] = useState(0)
+  const [networkLatency, setNetworkLatency] = useState<number | null>(null)
+  const [adaptiveStreaming, setAdaptiveStreaming] = useState<AdaptiveStreamingState | null>(null)
+  const [framesSent, setFramesSent] = useState(0)
+  const [frameCount, setFrameCount] = useState(0)
+  const [framesSkipped, setFramesSkipped] = useState(0)
+  const [frameQualityReport, setFrameQualityReport] = useState<FrameQualityReport | null>(null)
+
+  const {
+    detectorStatus,
+    faces,
+    videoSize,
+    position: facePosition,
+    latestRef: detectionRef
+  } = useFaceDetection(videoRef, { enabled: faceDetection })
+
+  const setRetryCount = useCallback((count: number) => {
+    retryCountRef.current = count
+    setRetryCountState(count)
+  }, [])
+
+  // Flow parameters plus the session to resume, for both transports
+  const getSessionParams = useCallback(() => ({
+    ...optionsRef.current.params,
+    resume_session: optionsRef.current.resume !== false ? sessionIdRef.current ?? undefined : undefined
+  }), [])
+
+  const getWebSocketUrl = useCallback((token: string | null) => {
+    return buildWebSocketUrl(`/ws/face-${kind}/${userId}`, {
+      ...getSessionParams(),
+      frame_format: optionsRef.current.binaryFrames !== false ? 'binary' : undefined,
+      token: WS_AUTH_MODE === 'query' && token ? token : undefined
+    })
+  }, [kind, userId, getSessionParams])
+
+  const getFrameController = useCallback(() => {
+    const adaptive = optionsRef.current.adaptive
+    if (adaptive === false) return null
+    if (!frameControllerRef.current) {
+      frameControllerRef.current = createAdaptiveFrameController(frameInterval, frameQuality, adaptive)
+    }
+    return frameControllerRef.current
+  }, [frameInterval, frameQuality])
+
+  const publishAdaptiveState = useCallback(() => {
+    setAdaptiveStreaming(frameControllerRef.current?.current() ?? null)
+  }, [])
+
+  const startHeartbeat = useCallback(() => {
+    if (heartbeatRef.current) {
+      clearInterval(heartbeatRef.current)
+    }
+
+    heartbeatRef.current = setInterval(() => {
+      transportRef.current?.send({
+        type: 'ping',
+        timestamp: Date.now()
+      })
+    }, heartbeatInterval)
+  }, [heartbeatInterval])
+
+  const stopHeartbeat = useCallback(() => {
+    if (heartbeatRef.current) {
+      clearInterval(heartbeatRef.current)
+      heartbeatRef.current = null
+    }
+  }, [])
+
+  // Grabs one frame that passed the quality and face checks, or null when it was skipped
+  const captureFrame = useCallback((): string | null => {
+    if (!videoRef.current || !canvasRef.current) {
+      return null
+    }
+
+    const video = videoRef.current
+    const canvas = canvasRef.current
+    const ctx = canvas.getContext('2d')
+
+    if (!ctx || video.videoWidth === 0 || video.videoHeight === 0) {
+      return null
+    }
+
+    // Bad frames never reach the backend; the user gets coaching instead
+    const qualityGate = optionsRef.current.qualityGate
+    if (qualityGate !== false) {
+      if (!qualityGateRef.current) {
+        qualityGateRef.current = createFrameQualityGate(qualityGate)
+      }
+      const report = qualityGateRef.current.check(video)
+      if (report) {
+        setFrameQualityReport(report)
+        if (!report.ok) {
+          setFramesSkipped(prev => prev + 1)
+          setFrameCount(prev => prev + 1)
+          return null
+        }
+      }
+    }
+
+    // Without a detector result (still loading or unavailable) the whole frame is sent as before
+    const { faces: detectedFaces, position } = detectionRef.current
+    if (position && position.faceCount !== 1) {
+      setFramesSkipped(prev => prev + 1)
+      setFrameCount(prev => prev + 1)
+      return null
+    }
+
+    try {
+      if (position && cropFaces) {
+        // Tighter, smaller upload: just the levelled face region
+        drawAlignedFace(video, detectedFaces[0], canvas, cropSize)
+      } else {
+        // Set canvas dimensions to match backend expectations
+        canvas.width = frameSize.width
+        canvas.height = frameSize.height
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+      }
+
+      setFrameCount(prev => prev + 1)
+      return canvas.toDataURL('image/jpeg', getFrameController()?.current().quality ?? frameQuality)
+    } catch (error) {
+      console.error(`Error capturing ${kind} frame:`, error)
+      return null
+    }
+  }, [kind, frameSize.width, frameSize.height, frameQuality, cropFaces, cropSize, detectionRef, getFrameController])
+
+  // Sends without the backpressure check; callers go through the gate first
+  const transmitFrame = useCallback((transport: FaceTransport, frame: string, extra: Pick<FrameMessage, 'pose'> = {}) => {
+    try {
+      // JSON frames are numbered too, so the backend can echo the number and the adaptive controller track them in flight
+      const sequence = ++frameSequenceRef.current
+      // Send frame with exact format expected by backend
+      const message: FrameMessage = {
+        type: 'frame',
+        frame,
+        timestamp: Date.now(),
+        sequence,
+        ...extra
+      }
+      const sent = frameFormatRef.current === 'binary'
+        ? transport.sendBinary(encodeBinaryFrame(message, sequence))
+        : transport.send(message)
+      if (sent) {
+        setFramesSent(prev => prev + 1)
+        getFrameController()?.frameSent(sequence)
+      }
+      return sent
+    } catch (error) {
+      console.error(`Error sending ${kind} frame:`, error)
+      return false
+    }
+  }, [kind, getFrameController])
+
+  const clearFrameQueue = useCallback(() => {
+    frameQueueRef.current = []
+    if (frameQueueTimerRef.current) {
+      clearTimeout(frameQueueTimerRef.current)
+      frameQueueTimerRef.current = null
+    }
+  }, [])
+
+  // Sends queued frames while the gate allows; retried on every answer and after a frame interval
+  const drainFrameQueue = useCallback(() => {
+    if (frameQueueTimerRef.current) {
+      clearTimeout(frameQueueTimerRef.current)
+      frameQueueTimerRef.current = null
+    }
+
+    const transport = transportRef.current
+    if (!transport?.isOpen()) return
+
+    const controller = getFrameController()
+    while (frameQueueRef.current.length > 0) {
+      if (controller && !controller.canSend(transport.bufferedAmount())) {
+        publishAdaptiveState()
+        frameQueueTimerRef.current = setTimeout(drainFrameQueue, controller.current().interval)
+        return
+      }
+      const { frame, ...extra } = frameQueueRef.current.shift()!
+      transmitFrame(transport, frame, extra)
+    }
+  }, [transmitFrame, getFrameController, publishAdaptiveState])
+
+  // Frames wait for the in-flight and buffer limits like captured ones; false when not connected
+  const sendFrame = useCallback((frame: string, extra: Pick<FrameMessage, 'pose'> = {}) => {
+    if (!transportRef.current?.isOpen()) {
+      return false
+    }
+    frameQueueRef.current.push({ frame, ...extra })
+    drainFrameQueue()
+    return true
+  }, [drainFrameQueue])
+
+  const captureAndSendFrame = useCallback(() => {
+    const transport = transportRef.current
+    if (!transport?.isOpen()) {
+      return
+    }
+
+    // Backpressure: skip this capture while the backend or the socket buffer is still busy
+    const controller = getFrameController()
+    if (controller && !controller.canSend(transport.bufferedAmount())) {
+      publishAdaptiveState()
+      return
+    }
+
+    const frame = captureFrame()
+    if (frame) {
+      transmitFrame(transport, frame)
+    }
+  }, [captureFrame, transmitFrame, getFrameController, publishAdaptiveState])
+
+  // A timeout chain rather than setInterval, so every wait picks up the adapted interval
+  const startFrameCapture = useCallback(() => {
+    if (intervalRef.current) return
+
+    const nextInterval = () => getFrameController()?.current().interval ?? frameInterval
+    const tick = () => {
+      captureAndSendFrame()
+      if (intervalRef.current) {
+        intervalRef.current = setTimeout(tick, nextInterval())
+      }
+    }
+    intervalRef.current = setTimeout(tick, nextInterval())
+  }, [captureAndSendFrame, frameInterval, getFrameController])
+
+  const stopFrameCapture = useCallback(() => {
+    if (intervalRef.current) {
+      clearTimeout(intervalRef.current)
+      intervalRef.current = null
+    }
+  }, [])
+
+  const stopVideoStream = useCallback(() => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop())
+      streamRef.current = null
+    }
+  }, [])
+
+  const startVideoStream = useCallback(async () => {
+    // Release any previous stream before acquiring a new one (e.g. on restart)
+    stopVideoStream()
+
+    // Try multiple constraint sets, starting with the chosen camera and falling back to simpler ones
+    const camera = optionsRef.current.camera ?? DEFAULT_CAMERA_PREFERENCES
+    const constraintSets = buildConstraintSets(camera, { ...frameSize, frameRate })
+
+    for (let i = 0; i < constraintSets.length; i++) {
+      try {
+        console.log(`Trying ${kind} camera constraints set ${i + 1}/${constraintSets.length}`)
+        const stream = await navigator.mediaDevices.getUserMedia(constraintSets[i])
+        streamRef.current = stream
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream
+        }
+
+        console.log(`✅ ${kind} camera stream started successfully`)
+        return true
+      } catch (error) {
+        console.warn(`${kind} camera constraints set ${i + 1} failed:`, error)
+
+        // If this is the last constraint set, show the error
+        if (i === constraintSets.length - 1) {
+          console.error(`All ${kind} camera constraint sets failed:`, error)
+
+          const errorMessage = getCameraErrorMessage(error)
+          setError(errorMessage)
+          optionsRef.current.onError?.(errorMessage)
+          return false
+        }
+        // Continue to next constraint set
+      }
+    }
+
+    return false
+  }, [kind, frameSize, frameRate, stopVideoStream])
+
+  // Switch cameras without dropping the socket
+  const cameraKey = JSON.stringify([options.camera?.deviceId, options.camera?.resolution, options.camera?.frameRate])
+  const cameraKeyRef = useRef(cameraKey)
+  useEffect(() => {
+    if (cameraKeyRef.current === cameraKey) return
+    cameraKeyRef.current = cameraKey
+    if (streamRef.current) {
+      console.log(`🎥 ${kind} camera settings changed, restarting camera`)
+      startVideoStream()
+    }
+  }, [cameraKey, kind, startVideoStream])
+
+  const connect = useCallback(async () => {
+    const generation = ++connectGenerationRef.current
+
+    // Detach the previous connection first so its close event is not treated as a dropped connection
+    if (transportRef.current) {
+      const previous = transportRef.current
+      transportRef.current = null
+      previous.close()
+    }
+
+    setConnectionState('connecting')
+    setError(null)
+    frameFormatRef.current = 'json'
+    frameSequenceRef.current = 0
+    setFrameFormat('json')
+    // Frames in flight on the old connection will never be answered
+    frameControllerRef.current?.reset()
+    clearFrameQueue()
+    publishAdaptiveState()
+
+    const token = await getValidAccessToken()
+    if (generation !== connectGenerationRef.current) return
+
+    const transportKind = transportKindRef.current
+
+    // Out of retries: a socket that never opened is retried over HTTP polling before giving up
+    const giveUp = () => {
+      if (!openedRef.current && transportKind === 'websocket' && optionsRef.current.transport !== 'websocket') {
+        console.log(`🔀 ${kind} WebSocket could not be opened, falling back to HTTP polling`)
+        transportKindRef.current = 'http'
+        setTransport('http')
+        setRetryCount(0)
+        setConnectionState('reconnecting')
+        setStatus('Live connection blocked. Switching to HTTP streaming...')
+        connect()
+        return
+      }
+
+      setConnectionState('disconnected')
+      setStatus('Connection failed. Please try again.')
+      if (!openedRef.current) optionsRef.current.onConnectionFailed?.()
+    }
+
+    let transport: FaceTransport
+    let timeoutId: ReturnType<typeof setTimeout>
+
+    const events: FaceTransportEvents = {
+      onOpen: () => {
+        clearTimeout(timeoutId)
+        if (WS_AUTH_MODE === 'message' && token && transport.kind === 'websocket') {
+          transport.send({ type: 'auth', token })
+        }
+        authRetriedRef.current = false
+        openedRef.current = true
+        setIsConnected(true)
+        setConnectionState('connected')
+        setStatus(`Connected. Initializing ${kind}...`)
+        setRetryCount(0)
+        startHeartbeat()
+        console.log(`🔗 ${transport.kind === 'http' ? 'HTTP stream' : 'WebSocket'} connected for face ${kind}`)
+      },
+
+      onMessage: (message: ServerMessage) => {
+        console.log(`📨 Received ${kind} message:`, message.type)
+
+        switch (message.type) {
+          case 'connected':
+          case 'session_resumed':
+            if (message.type === 'session_resumed') {
+              console.log(`🔁 ${kind} session ${message.session_id} resumed with ${message.frames_collected} frames`)
+            } else if (sessionIdRef.current) {
+              // The backend could not resume (expired or unknown session) and started over
+              console.log(`🆕 ${kind} session ${sessionIdRef.current} not resumed, starting a new one`)
+            }
+            sessionIdRef.current = message.session_id ?? null
+            setSessionId(sessionIdRef.current)
+            // Binary only when this backend offered it and the transport can carry it
+            frameFormatRef.current = transport.supportsBinary && optionsRef.current.binaryFrames !== false
+              ? getFrameFormat(message)
+              : 'json'
+            setFrameFormat(frameFormatRef.current)
+            setIsStreaming(true)
+            if (optionsRef.current.autoCapture !== false) {
+              startFrameCapture()
+            }
+            break
+
+          case 'frame_processed':
+            frameControllerRef.current?.frameAnswered({
+              sequence: message.sequence,
+              processingTime: message.processing_time
+            })
+            publishAdaptiveState()
+            drainFrameQueue()
+            break
+
+          // Sent instead of frame_processed for a rejected frame
+          case 'spoofing_detected':
+            frameControllerRef.current?.frameAnswered({})
+            publishAdaptiveState()
+            drainFrameQueue()
+            break
+
+          case 'pong':
+            if (message.timestamp) {
+              const latency = Date.now() - message.timestamp
+              setNetworkLatency(latency)
+              frameControllerRef.current?.latencyMeasured(latency)
+            }
+            break
+        }
+
+        const handler = optionsRef.current.handlers[message.type] as ((message: ServerMessage) => void) | undefined
+        handler?.(message)
+      },
+
+      onProtocolError: (error) => {
+        console.error(`Invalid ${kind} message (${error.code}):`, error.message, error.raw)
+        setError(`Unexpected message from server: ${error.message}`)
+        optionsRef.current.onProtocolError?.(error)
+      },
+
+      onError: (event) => {
+        console.error(`❌ ${kind} ${transport.kind} error:`, event)
+        // A single failed HTTP request is retried by the transport; only sockets fail for good here
+        if (transport.kind === 'http' && transport.isOpen()) return
+        clearTimeout(timeoutId)
+        setError('Connection error occurred')
+        setConnectionState('disconnected')
+      },
+
+      onClose: (code, reason) => {
+        clearTimeout(timeoutId)
+
+        // Closed on purpose by stop() or replaced by a newer connection
+        if (transportRef.current !== transport) return
+        transportRef.current = null
+
+        setIsConnected(false)
+        setIsStreaming(false)
+        stopHeartbeat()
+        stopFrameCapture()
+
+        console.log(`❌ ${kind} ${transport.kind} closed:`, code, reason)
+
+        // Rejected token: refresh once and reconnect without spending a retry
+        if (code === UNAUTHORIZED_CLOSE_CODE) {
+          if (authRetriedRef.current) {
+            setError('Authentication failed. Please log in again.')
+            setStatus('❌ Not authorized')
+            setConnectionState('disconnected')
+            return
+          }
+
+          authRetriedRef.current = true
+          setConnectionState('reconnecting')
+          setStatus('Session expired. Renewing credentials...')
+          refreshAccessToken().then((newToken) => {
+            if (generation !== connectGenerationRef.current) return
+            if (newToken) {
+              connect()
+            } else {
+              setError('Authentication failed. Please log in again.')
+              setStatus('❌ Not authorized')
+              setConnectionState('disconnected')
+            }
+          })
+          return
+        }
+
+        // Handle specific close codes from backend
+        const closeMessage = optionsRef.current.closeCodes?.[code]
+        if (closeMessage) {
+          setError(closeMessage.error)
+          setStatus(closeMessage.status)
+          setConnectionState('disconnected')
+        } else if (retryCountRef.current < maxRetries) {
+          setConnectionState('reconnecting')
+          setStatus(`Connection lost. Reconnecting... (${retryCountRef.current + 1}/${maxRetries})`)
+
+          reconnectTimeoutRef.current = setTimeout(() => {
+            reconnectTimeoutRef.current = null
+            setRetryCount(retryCountRef.current + 1)
+            connect()
+          }, reconnectDelay)
+        } else {
+          giveUp()
+        }
+      }
+    }
+
+    try {
+      transport = transportKind === 'http'
+        ? openHttpTransport({ kind, userId, params: getSessionParams() }, events)
+        : openWebSocketTransport(getWebSocketUrl(token), events)
+      transportRef.current = transport
+
+      timeoutId = setTimeout(() => {
+        if (transport.isConnecting()) {
+          transport.close()
+          setError('Connection timeout')
+          setConnectionState('disconnected')
+        }
+      }, connectionTimeout)
+    } catch (error) {
+      console.error(`${transportKind} connection creation error:`, error)
+      setError('Failed to create connection')
+      giveUp()
+    }
+  }, [kind, userId, getSessionParams, getWebSocketUrl, connectionTimeout, reconnectDelay, maxRetries, setRetryCount, startHeartbeat, stopHeartbeat, startFrameCapture, stopFrameCapture, publishAdaptiveState, clearFrameQueue, drainFrameQueue])
+
+  const stop = useCallback(() => {
+    connectGenerationRef.current++
+    stopFrameCapture()
+    stopHeartbeat()
+
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current)
+      reconnectTimeoutRef.current = null
+    }
+
+    // Close the connection with proper format expected by backend
+    const transport = transportRef.current
+    if (transport) {
+      transportRef.current = null
+      try {
+        transport.send({ type: 'stop' })
+        transport.close(1000, 'User stopped')
+      } catch (error) {
+        console.error(`Error closing ${kind} ${transport.kind} connection:`, error)
+      }
+    }
+
+    stopVideoStream()
+    qualityGateRef.current?.reset()
+    frameControllerRef.current?.reset()
+    clearFrameQueue()
+    setAdaptiveStreaming(null)
+    sessionIdRef.current = null
+    setSessionId(null)
+
+    setIsStreaming(false)
+    setIsConnected(false)
+    setConnectionState('disconnected')
+  }, [kind, stopFrameCapture, stopHeartbeat, stopVideoStream, clearFrameQueue])
+
+  const start = useCallback(async () => {
+    setRetryCount(0)
+    authRetriedRef.current = false
+    openedRef.current = false
+    sessionIdRef.current = null
+    const videoStarted = await startVideoStream()
+    if (videoStarted) {
+      connect()
+    }
+    return videoStarted
+  }, [setRetryCount, startVideoStream, connect])
+
+  const send = useCallback((message: ClientMessage) => {
+    return transportRef.current?.send(message) ?? false
+  }, [])
+
+  const resetStats = useCallback(() => {
+    setFramesSent(0)
+    setFrameCount(0)
+    setFramesSkipped(0)
+    setFrameQualityReport(null)
+    setNetworkLatency(null)
+    qualityGateRef.current?.reset()
+  }, [])
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      stop()
+    }
+  }, [stop])
+
+  return {
+    videoRef,
+    canvasRef,
+    connectionState,
+    transport,
+    frameFormat,
+    sessionId,
+    isConnected,
+    isStreaming,
+    status,
+    setStatus,
+    error,
+    setError,
+    retryCount,
+    maxRetries,
+    networkLatency,
+    adaptiveStreaming,
+    framesSent,
+    frameCount,
+    framesSkipped,
+    frameQualityReport,
+    // Lighting problems first: the detector is unreliable on dark or blurred frames
+    qualityCoaching: isStreaming
+      ? getFrameQualityCoaching(frameQualityReport) ?? getFacePositionCoaching(facePosition)
+      : null,
+    detectorStatus,
+    faces,
+    videoSize,
+    facePosition,
+    start,
+    stop,
+    send,
+    captureFrame,
+    sendFrame,
+    startCapture: startFrameCapture,
+    stopCapture: stopFrameCapture,
+    resetStats
+  }
+}
@@ -0,0 +1,78 @@
+// hooks/useFaceTemplates.ts - Loads a user's face templates and deletes single templates
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { faceAPI, Face } from '@/lib/api'
+import { FaceApiError, isCancelled, toFaceApiError } from '@/lib/errors'
+
+interface UseFaceTemplatesReturn {
+  templates: Face[]
+  loading: boolean
+  error: FaceApiError | null
+  refresh: () => void
+  // Resolves false and sets deleteError when the backend refused
+  deleteTemplate: (faceId: number) => Promise<boolean>
+  deleteError: FaceApiError | null
+}
+
+export const useFaceTemplates = (userId: number | null): UseFaceTemplatesReturn => {
+  const [templates, setTemplates] = useState<Face[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<FaceApiError | null>(null)
+  const [deleteError, setDeleteError] = useState<FaceApiError | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    setError(null)
+    setDeleteError(null)
+    if (!userId) {
+      setTemplates([])
+      return
+    }
+
+    // Switching users cancels the lookup in flight
+    const controller = new AbortController()
+
+    const fetchTemplates = async () => {
+      setLoading(true)
+      try {
+        setTemplates(await faceAPI.getFaceTemplates(userId, { signal: controller.signal }))
+      } catch (err) {
+        if (isCancelled(err)) return
+        console.error('Failed to fetch face templates:', err)
+        setTemplates([])
+        setError(toFaceApiError(err))
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }
+
+    fetchTemplates()
+    return () => controller.abort()
+  }, [userId, reloadKey])
+
+  const refresh = useCallback(() => setReloadKey(key => key + 1), [])
+
+  const deleteTemplate = useCallback(async (faceId: number) => {
+    setDeleteError(null)
+    try {
+      const result = await faceAPI.deleteFaceTemplate(faceId)
+      console.log(`🗑️ Deleted face template ${faceId}:`, result)
+      refresh()
+      return true
+    } catch (err) {
+      console.error('Failed to delete face template:', err)
+      setDeleteError(toFaceApiError(err))
+      return false
+    }
+  }, [refresh])
+
+  return {
+    templates,
+    loading,
+    error,
+    refresh,
+    deleteTemplate,
+    deleteError
+  }
+}
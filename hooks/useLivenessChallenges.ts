@@ -0,0 +1,170 @@
+// hooks/useLivenessChallenges.ts - Runs a randomized liveness challenge sequence against a live video element
+'use client'
+
+import { useRef, useState, useCallback, useEffect } from 'react'
+import {
+  CHALLENGE_TIMEOUT,
+  DEFAULT_CHALLENGE_COUNT,
+  ChallengeTracker,
+  LIVENESS_PROMPTS,
+  LivenessChallengeType,
+  LivenessTranscript,
+  createChallengeTracker,
+  loadFaceLandmarker,
+  pickChallenges
+} from '@/lib/liveness'
+
+export type LivenessStatus = 'idle' | 'loading' | 'running' | 'passed' | 'failed' | 'unavailable'
+
+export interface LivenessChallengeOptions {
+  count?: number
+  // Milliseconds allowed per challenge
+  timeout?: number
+  // Called once with the final transcript, passed or not
+  onComplete?: (transcript: LivenessTranscript) => void
+}
+
+// Fast enough to catch a blink (~150ms)
+const SAMPLE_INTERVAL = 66
+
+export const useLivenessChallenges = (
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  { count = DEFAULT_CHALLENGE_COUNT, timeout = CHALLENGE_TIMEOUT, onComplete }: LivenessChallengeOptions = {}
+) => {
+  const [status, setStatus] = useState<LivenessStatus>('idle')
+  const [challenges, setChallenges] = useState<LivenessChallengeType[]>([])
+  const [currentIndex, setCurrentIndex] = useState(0)
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
+  const [transcript, setTranscript] = useState<LivenessTranscript | null>(null)
+
+  const onCompleteRef = useRef(onComplete)
+  onCompleteRef.current = onComplete
+  const timerRef = useRef<NodeJS.Timeout | null>(null)
+  // Bumped by start/reset so a landmarker that finishes loading late is ignored
+  const runRef = useRef(0)
+
+  const stopSampling = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current)
+      timerRef.current = null
+    }
+  }, [])
+
+  const reset = useCallback(() => {
+    runRef.current++
+    stopSampling()
+    setStatus('idle')
+    setChallenges([])
+    setCurrentIndex(0)
+    setSecondsLeft(null)
+    setTranscript(null)
+  }, [stopSampling])
+
+  const start = useCallback(async (sessionId: string | null = null) => {
+    const run = ++runRef.current
+    stopSampling()
+
+    const sequence = pickChallenges(count)
+    const record: LivenessTranscript = {
+      session_id: sessionId,
+      nonce: crypto.randomUUID(),
+      started_at: Date.now(),
+      completed_at: null,
+      challenges: [],
+      passed: false
+    }
+
+    const finish = (passed: boolean, nextStatus: LivenessStatus) => {
+      stopSampling()
+      const final = { ...record, challenges: [...record.challenges], completed_at: Date.now(), passed }
+      setTranscript(final)
+      setStatus(nextStatus)
+      setSecondsLeft(null)
+      console.log(`${passed ? '✅' : '❌'} Liveness challenges ${passed ? 'passed' : 'failed'}`)
+      onCompleteRef.current?.(final)
+    }
+
+    setChallenges(sequence)
+    setCurrentIndex(0)
+    setTranscript(null)
+    setStatus('loading')
+
+    const landmarker = await loadFaceLandmarker()
+    if (run !== runRef.current) return
+    if (!landmarker) {
+      // Without landmarks nothing can be proven live, so the transcript reports a failure
+      finish(false, 'unavailable')
+      return
+    }
+
+    let index = 0
+    let tracker: ChallengeTracker = createChallengeTracker(sequence[0])
+    let issuedAt = Date.now()
+    let samples = 0
+
+    const completeChallenge = (passed: boolean) => {
+      record.challenges.push({
+        type: sequence[index],
+        issued_at: issuedAt,
+        completed_at: passed ? Date.now() : null,
+        passed,
+        samples,
+        peak: Number(tracker.peak().toFixed(3))
+      })
+    }
+
+    setStatus('running')
+    timerRef.current = setInterval(() => {
+      const now = Date.now()
+      if (now - issuedAt > timeout) {
+        completeChallenge(false)
+        finish(false, 'failed')
+        return
+      }
+      setSecondsLeft(Math.ceil((timeout - (now - issuedAt)) / 1000))
+
+      const video = videoRef.current
+      if (!video || video.readyState < 2) return
+
+      let sample
+      try {
+        sample = landmarker.sample(video, performance.now())
+      } catch (error) {
+        console.warn('Liveness sampling failed:', error)
+        return
+      }
+      if (!sample) return
+
+      samples++
+      if (!tracker.update(sample)) return
+
+      completeChallenge(true)
+      index++
+      if (index >= sequence.length) {
+        finish(true, 'passed')
+        return
+      }
+
+      tracker = createChallengeTracker(sequence[index])
+      issuedAt = Date.now()
+      samples = 0
+      setCurrentIndex(index)
+    }, SAMPLE_INTERVAL)
+  }, [count, timeout, videoRef, stopSampling])
+
+  useEffect(() => stopSampling, [stopSampling])
+
+  const currentChallenge = status === 'running' || status === 'loading' ? challenges[currentIndex] ?? null : null
+
+  return {
+    status,
+    challenges,
+    currentIndex,
+    currentChallenge,
+    prompt: currentChallenge ? LIVENESS_PROMPTS[currentChallenge] : null,
+    secondsLeft,
+    transcript,
+    start,
+    reset
+  }
+}
@@ -0,0 +1,158 @@
+// hooks/usePoseEnrollment.ts - Guides the user through the enrollment poses and keeps one frame per pose
+'use client'
+
+import { useRef, useState, useCallback, useEffect } from 'react'
+import { ENROLLMENT_POSES, EnrollmentPose, POSE_HOLD_TIME, POSE_PROMPTS, matchesPose } from '@/lib/enrollment'
+import { LivenessSample, loadFaceLandmarker } from '@/lib/liveness'
+
+export type EnrollmentStatus = 'idle' | 'loading' | 'guiding' | 'covered' | 'unavailable'
+
+export interface PoseFrame {
+  pose: EnrollmentPose
+  frame: string
+}
+
+export interface PoseEnrollmentOptions {
+  // Returns a frame that passed the session's quality checks, or null to try again on the next tick
+  captureFrame: () => string | null
+  holdTime?: number
+  // Called once every pose has a frame
+  onCovered?: (frames: PoseFrame[]) => void
+}
+
+const SAMPLE_INTERVAL = 100
+
+const emptyProgress = (): Record<EnrollmentPose, number> =>
+  Object.fromEntries(ENROLLMENT_POSES.map(pose => [pose, 0])) as Record<EnrollmentPose, number>
+
+export const usePoseEnrollment = (
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  { captureFrame, holdTime = POSE_HOLD_TIME, onCovered }: PoseEnrollmentOptions
+) => {
+  const [status, setStatus] = useState<EnrollmentStatus>('idle')
+  const [currentPose, setCurrentPose] = useState<EnrollmentPose | null>(null)
+  // 0-1 while the pose is being held, 1 once its frame is taken
+  const [progress, setProgress] = useState<Record<EnrollmentPose, number>>(emptyProgress)
+
+  const captureFrameRef = useRef(captureFrame)
+  captureFrameRef.current = captureFrame
+  const onCoveredRef = useRef(onCovered)
+  onCoveredRef.current = onCovered
+
+  const framesRef = useRef(new Map<EnrollmentPose, string>())
+  const baselineRef = useRef<LivenessSample | null>(null)
+  const timerRef = useRef<NodeJS.Timeout | null>(null)
+  const runRef = useRef(0)
+
+  const stopGuiding = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current)
+      timerRef.current = null
+    }
+  }, [])
+
+  const nextMissingPose = () => ENROLLMENT_POSES.find(pose => !framesRef.current.has(pose)) ?? null
+
+  const guide = useCallback(async () => {
+    const run = ++runRef.current
+    stopGuiding()
+
+    let pose = nextMissingPose()
+    if (!pose) return
+
+    setStatus('loading')
+    const landmarker = await loadFaceLandmarker()
+    if (run !== runRef.current) return
+    if (!landmarker) {
+      setStatus('unavailable')
+      setCurrentPose(null)
+      return
+    }
+
+    setStatus('guiding')
+    setCurrentPose(pose)
+    let holdStart: number | null = null
+
+    timerRef.current = setInterval(() => {
+      const video = videoRef.current
+      if (!pose || !video || video.readyState < 2) return
+
+      let sample: LivenessSample | null = null
+      try {
+        sample = landmarker.sample(video, performance.now())
+      } catch (error) {
+        console.warn('Pose sampling failed:', error)
+      }
+
+      const current: EnrollmentPose = pose
+      if (!sample || !matchesPose(current, sample, baselineRef.current)) {
+        holdStart = null
+        setProgress(prev => prev[current] === 0 ? prev : { ...prev, [current]: 0 })
+        return
+      }
+
+      const now = Date.now()
+      holdStart = holdStart ?? now
+      const held = Math.min(1, (now - holdStart) / holdTime)
+      if (held < 1) {
+        setProgress(prev => ({ ...prev, [current]: held * 0.95 }))
+        return
+      }
+
+      // Held long enough; a frame rejected by the quality checks is retried on the next tick
+      const frame = captureFrameRef.current()
+      if (!frame) return
+
+      framesRef.current.set(current, frame)
+      if (current === 'frontal') baselineRef.current = sample
+      setProgress(prev => ({ ...prev, [current]: 1 }))
+      console.log(`📸 Captured ${current} pose`)
+
+      holdStart = null
+      pose = nextMissingPose()
+      setCurrentPose(pose)
+
+      if (!pose) {
+        stopGuiding()
+        setStatus('covered')
+        onCoveredRef.current?.(ENROLLMENT_POSES.map(p => ({ pose: p, frame: framesRef.current.get(p)! })))
+      }
+    }, SAMPLE_INTERVAL)
+  }, [videoRef, holdTime, stopGuiding])
+
+  const reset = useCallback(() => {
+    runRef.current++
+    stopGuiding()
+    framesRef.current.clear()
+    baselineRef.current = null
+    setStatus('idle')
+    setCurrentPose(null)
+    setProgress(emptyProgress())
+  }, [stopGuiding])
+
+  // Drops the given poses (e.g. rejected by the backend) and guides the user through them again
+  const retake = useCallback((poses: EnrollmentPose[]) => {
+    poses.forEach(pose => framesRef.current.delete(pose))
+    if (poses.includes('frontal')) baselineRef.current = null
+    setProgress(prev => ({ ...prev, ...Object.fromEntries(poses.map(pose => [pose, 0])) }))
+    guide()
+  }, [guide])
+
+  const start = useCallback(() => {
+    reset()
+    guide()
+  }, [reset, guide])
+
+  useEffect(() => stopGuiding, [stopGuiding])
+
+  return {
+    status,
+    currentPose,
+    prompt: currentPose ? POSE_PROMPTS[currentPose] : null,
+    progress,
+    capturedCount: ENROLLMENT_POSES.filter(pose => progress[pose] === 1).length,
+    start,
+    retake,
+    reset
+  }
+}
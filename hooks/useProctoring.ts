@@ -0,0 +1,299 @@
+// hooks/useProctoring.ts - Background quiz proctoring: presence monitoring, random re-verification and event reporting
+'use client'
+
+import { useRef, useState, useCallback, useEffect } from 'react'
+import { faceAPI } from '@/lib/api'
+import { ValidationError, getErrorMessage, isBackendUnavailable, isCancelled } from '@/lib/errors'
+import {
+  ABSENCE_GRACE,
+  MAX_RECHECK_INTERVAL,
+  MIN_RECHECK_INTERVAL,
+  MULTIPLE_FACES_GRACE,
+  ProctoringEvent,
+  ProctoringEventType,
+  createProctoringEvent,
+  getPresenceIssue,
+  nextRecheckDelay,
+  snapshotVideo
+} from '@/lib/proctoring'
+import { loadCameraPreferences, openCamera } from '@/lib/camera'
+import { useFaceDetection } from '@/hooks/useFaceDetection'
+
+export type ProctoringStatus = 'idle' | 'starting' | 'active' | 'camera_error' | 'stopped'
+
+export interface ProctoringOptions {
+  userId: number | null
+  quizId?: string
+  courseId?: string
+  // The verification that opened the quiz, recorded with the attempt
+  verificationId?: number
+  minInterval?: number
+  maxInterval?: number
+}
+
+// Presence only needs a coarse sample; keeps CPU use low while the student works
+const PRESENCE_INTERVAL = 500
+const PROCTORING_CAMERA = { width: 320, height: 240 }
+
+interface PresenceState {
+  issue: 'absent' | 'multiple_faces' | null
+  since: number
+  event: ProctoringEvent | null
+}
+
+export const useProctoring = (options: ProctoringOptions) => {
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const attemptIdRef = useRef<string | null>(null)
+  const checkTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const checkAbortRef = useRef<AbortController | null>(null)
+  // Every event of the attempt by id, and the ones the backend has not acknowledged yet
+  const eventsRef = useRef(new Map<string, ProctoringEvent>())
+  const unsyncedRef = useRef(new Set<string>())
+  const presenceRef = useRef<PresenceState>({ issue: null, since: 0, event: null })
+
+  const [status, setStatus] = useState<ProctoringStatus>('idle')
+  const [attemptId, setAttemptId] = useState<string | null>(null)
+  const [events, setEvents] = useState<ProctoringEvent[]>([])
+  const [checksRun, setChecksRun] = useState(0)
+  const [checking, setChecking] = useState(false)
+  const [syncError, setSyncError] = useState<string | null>(null)
+
+  const { detectorStatus, faces, videoSize, position } = useFaceDetection(videoRef, {
+    enabled: status === 'active',
+    interval: PRESENCE_INTERVAL
+  })
+
+  const flush = useCallback(async () => {
+    const { userId, quizId, courseId, verificationId } = optionsRef.current
+    const attempt = attemptIdRef.current
+    if (!attempt || userId === null || unsyncedRef.current.size === 0) return
+
+    const ids = [...unsyncedRef.current]
+    const batch = ids.map(id => eventsRef.current.get(id)!).filter(Boolean)
+    try {
+      await faceAPI.recordProctoringEvents({
+        attempt_id: attempt,
+        user_id: userId,
+        quiz_id: quizId,
+        course_id: courseId,
+        verification_id: verificationId,
+        events: batch
+      })
+      // Events changed while the request was in flight stay queued
+      batch.forEach(event => {
+        if (eventsRef.current.get(event.id) === event) unsyncedRef.current.delete(event.id)
+      })
+      setSyncError(null)
+    } catch (error) {
+      console.warn('Failed to record proctoring events:', error)
+      setSyncError(getErrorMessage(error, 'Could not record proctoring events'))
+    }
+  }, [])
+
+  const saveEvent = useCallback((event: ProctoringEvent) => {
+    eventsRef.current.set(event.id, event)
+    unsyncedRef.current.add(event.id)
+    setEvents([...eventsRef.current.values()])
+    flush()
+  }, [flush])
+
+  const flag = useCallback((type: ProctoringEventType, details?: Parameters<typeof createProctoringEvent>[1]) => {
+    const event = createProctoringEvent(type, details)
+    console.log(`🚩 Proctoring event: ${type}`)
+    saveEvent(event)
+    return event
+  }, [saveEvent])
+
+  const endPresenceEvent = useCallback((at: number) => {
+    const { event } = presenceRef.current
+    if (event) {
+      saveEvent({ ...event, ended_at: at })
+    }
+  }, [saveEvent])
+
+  // Absence and extra faces are flagged once they outlast their grace period, and closed when they clear
+  useEffect(() => {
+    if (status !== 'active') return
+
+    const issue = getPresenceIssue(position)
+    const now = Date.now()
+    const current = presenceRef.current
+
+    if (issue !== current.issue) {
+      endPresenceEvent(now)
+      presenceRef.current = { issue, since: now, event: null }
+      return
+    }
+
+    const grace = issue === 'absent' ? ABSENCE_GRACE : MULTIPLE_FACES_GRACE
+    if (issue && !current.event && now - current.since >= grace) {
+      current.event = flag(issue, { started_at: current.since })
+    }
+  }, [position, status, flag, endPresenceEvent])
+
+  const runCheck = useCallback(async () => {
+    const video = videoRef.current
+    const { userId, quizId, courseId } = optionsRef.current
+    // A check outlived by stop() or a new start() must not report into another attempt
+    const attempt = attemptIdRef.current
+    if (!video || userId === null || !attempt) return
+    const isStale = () => attemptIdRef.current !== attempt
+
+    // Created before the first await so stop() can always cancel it
+    const controller = new AbortController()
+    checkAbortRef.current = controller
+    setChecking(true)
+
+    try {
+      const file = await snapshotVideo(video)
+      if (!file || isStale()) return
+
+      const result = await faceAPI.verifyFace(userId, file, quizId, courseId, {
+        signal: controller.signal,
+        source: 'proctoring'
+      })
+      if (isStale()) return
+      setChecksRun(prev => prev + 1)
+      if (!result.verified) {
+        flag('identity_mismatch', {
+          similarity_score: result.similarity_score,
+          verification_id: result.verification_id
+        })
+      }
+    } catch (error) {
+      if (isCancelled(error) || isStale()) return
+      if (error instanceof ValidationError) {
+        // Spoofing, no face or no registered face: the backend refused to verify this frame
+        setChecksRun(prev => prev + 1)
+        flag('verification_failed', { message: getErrorMessage(error) })
+      } else if (isBackendUnavailable(error)) {
+        // Not the student's doing; the next check tries again
+        console.warn('Proctoring re-verification skipped, backend unavailable:', error)
+      } else {
+        console.warn('Proctoring re-verification failed:', error)
+      }
+    } finally {
+      if (checkAbortRef.current === controller) {
+        checkAbortRef.current = null
+        setChecking(false)
+      }
+    }
+  }, [flag])
+
+  const scheduleCheck = useCallback(() => {
+    const { minInterval = MIN_RECHECK_INTERVAL, maxInterval = MAX_RECHECK_INTERVAL } = optionsRef.current
+    const delay = nextRecheckDelay(minInterval, maxInterval)
+    const attempt = attemptIdRef.current
+
+    checkTimerRef.current = setTimeout(async () => {
+      checkTimerRef.current = null
+      await runCheck()
+      // Also retries events that failed to send earlier
+      flush()
+      // Stopped or restarted while the check ran
+      if (attempt && attemptIdRef.current === attempt) scheduleCheck()
+    }, delay)
+  }, [runCheck, flush])
+
+  const stopCamera = useCallback(() => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => {
+        track.onended = null
+        track.stop()
+      })
+      streamRef.current = null
+    }
+  }, [])
+
+  const stop = useCallback(() => {
+    if (checkTimerRef.current) {
+      clearTimeout(checkTimerRef.current)
+      checkTimerRef.current = null
+    }
+    checkAbortRef.current?.abort()
+    checkAbortRef.current = null
+    stopCamera()
+
+    if (attemptIdRef.current) {
+      // Closing an open absence/extra-face event also flushes; otherwise deliver anything still queued
+      if (presenceRef.current.event) {
+        endPresenceEvent(Date.now())
+      } else {
+        flush()
+      }
+      presenceRef.current = { issue: null, since: 0, event: null }
+      attemptIdRef.current = null
+      setStatus('stopped')
+    }
+    setChecking(false)
+  }, [stopCamera, endPresenceEvent, flush])
+
+  const start = useCallback(async () => {
+    stop()
+
+    const attempt = crypto.randomUUID()
+    attemptIdRef.current = attempt
+    eventsRef.current = new Map()
+    unsyncedRef.current = new Set()
+    presenceRef.current = { issue: null, since: Date.now(), event: null }
+    setAttemptId(attempt)
+    setEvents([])
+    setChecksRun(0)
+    setSyncError(null)
+    setStatus('starting')
+
+    try {
+      // The user's chosen camera at a small, fixed size
+      const stream = await openCamera({ ...loadCameraPreferences(), resolution: null, frameRate: null }, PROCTORING_CAMERA)
+      if (attemptIdRef.current !== attempt) {
+        stream.getTracks().forEach(track => track.stop())
+        return
+      }
+
+      streamRef.current = stream
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream
+      }
+      stream.getVideoTracks().forEach(track => {
+        track.onended = () => {
+          flag('camera_lost')
+          setStatus('camera_error')
+        }
+      })
+
+      setStatus('active')
+      scheduleCheck()
+      console.log(`👁️ Proctoring started for attempt ${attempt}`)
+    } catch (error) {
+      if (attemptIdRef.current !== attempt) return
+      console.error('Proctoring camera unavailable:', error)
+      flag('camera_lost', { message: 'Camera could not be started for proctoring' })
+      setStatus('camera_error')
+    }
+  }, [stop, flag, scheduleCheck])
+
+  // Cleanup on unmount
+  useEffect(() => stop, [stop])
+
+  return {
+    videoRef,
+    status,
+    attemptId,
+    events,
+    checksRun,
+    checking,
+    syncError,
+    detectorStatus,
+    faces,
+    videoSize,
+    position,
+    start,
+    stop
+  }
+}
+
+export type ProctoringSession = ReturnType<typeof useProctoring>
@@ -0,0 +1,143 @@
+// hooks/useSystemCheck.ts - Runs the pre-flight diagnostic sequence and builds the support report
+'use client'
+
+import { useState, useRef, useCallback, useEffect } from 'react'
+import { getCameraErrorMessage, loadCameraPreferences, openCamera } from '@/lib/camera'
+import {
+  DIAGNOSTIC_CHECKS,
+  DiagnosticCheckId,
+  DiagnosticOutcome,
+  DiagnosticReport,
+  DiagnosticResult,
+  checkLighting,
+  checkResolution,
+  checkRest,
+  createDiagnosticReport,
+  probeWebSocket
+} from '@/lib/diagnostics'
+
+// Same size the real-time flows ask for, so the resolution check reflects what they will get
+const CHECK_CAMERA = { width: 480, height: 360 }
+const FIRST_FRAME_TIMEOUT = 3000
+
+const initialResults = (): DiagnosticResult[] =>
+  DIAGNOSTIC_CHECKS.map(check => ({ ...check, status: 'pending', detail: '', duration_ms: null }))
+
+export const useSystemCheck = (userId: number | null) => {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+  const [results, setResults] = useState<DiagnosticResult[]>(initialResults)
+  const [running, setRunning] = useState(false)
+  const [report, setReport] = useState<DiagnosticReport | null>(null)
+
+  const releaseCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    if (videoRef.current) videoRef.current.srcObject = null
+  }, [])
+
+  const run = useCallback(async () => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    const { signal } = controller
+
+    const collected = initialResults()
+    const update = (id: DiagnosticCheckId, changes: Partial<DiagnosticResult>) => {
+      const index = collected.findIndex(result => result.id === id)
+      collected[index] = { ...collected[index], ...changes }
+      if (!signal.aborted) setResults([...collected])
+    }
+
+    // Times a check and records its outcome
+    const runCheck = async (id: DiagnosticCheckId, check: () => Promise<DiagnosticOutcome>) => {
+      update(id, { status: 'running' })
+      const started = performance.now()
+      const outcome = await check()
+      update(id, { ...outcome, duration_ms: Math.round(performance.now() - started) })
+      return outcome
+    }
+
+    const skip = (id: DiagnosticCheckId, detail: string) => update(id, { status: 'skipped', detail })
+
+    setRunning(true)
+    setReport(null)
+    setResults(collected)
+
+    // Camera: the saved device is honoured, but not the saved size - the check reports what the flows will get
+    const camera = await runCheck('camera', async () => {
+      try {
+        const stream = await openCamera({ ...loadCameraPreferences(), resolution: null, frameRate: null }, CHECK_CAMERA)
+        if (signal.aborted) {
+          stream.getTracks().forEach(track => track.stop())
+          return { status: 'skipped', detail: 'Cancelled' }
+        }
+        streamRef.current = stream
+        const video = videoRef.current
+        if (video) {
+          video.srcObject = stream
+          await new Promise<void>(resolve => {
+            if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) return resolve()
+            video.onloadeddata = () => resolve()
+            setTimeout(resolve, FIRST_FRAME_TIMEOUT)
+          })
+          await video.play().catch(() => {})
+        }
+        return { status: 'pass', detail: stream.getVideoTracks()[0]?.label || 'Camera opened' }
+      } catch (error) {
+        console.error('❌ System check camera error:', error)
+        return { status: 'fail', detail: getCameraErrorMessage(error) }
+      }
+    })
+
+    const track = streamRef.current?.getVideoTracks()[0]
+    if (camera.status === 'pass' && track) {
+      await runCheck('resolution', async () => checkResolution(track))
+      if (videoRef.current) {
+        const video = videoRef.current
+        await runCheck('lighting', () => checkLighting(video))
+      } else {
+        skip('lighting', 'No camera preview')
+      }
+    } else {
+      skip('resolution', 'Camera unavailable')
+      skip('lighting', 'Camera unavailable')
+    }
+    releaseCamera()
+
+    await runCheck('rest', () => checkRest(signal))
+
+    if (userId === null) {
+      skip('websocket', 'Select a user to test the WebSocket connection')
+      skip('latency', 'Select a user to test the WebSocket connection')
+    } else if (!signal.aborted) {
+      update('websocket', { status: 'running' })
+      update('latency', { status: 'running' })
+      const started = performance.now()
+      const probe = await probeWebSocket(userId, signal)
+      const duration = Math.round(performance.now() - started)
+      update('websocket', { ...probe.handshake, duration_ms: duration })
+      update('latency', { ...probe.latency, duration_ms: probe.latency.status === 'skipped' ? null : duration })
+    }
+
+    if (signal.aborted) return
+    setReport(createDiagnosticReport(collected, userId))
+    setRunning(false)
+    console.log('🩺 System check finished')
+  }, [userId, releaseCamera])
+
+  // Leaving the page stops the camera and any probe in flight
+  useEffect(() => () => {
+    controllerRef.current?.abort()
+    releaseCamera()
+  }, [releaseCamera])
+
+  return {
+    videoRef,
+    results,
+    running,
+    report,
+    run
+  }
+}
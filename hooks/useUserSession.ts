@@ -0,0 +1,36 @@
+// hooks/useUserSession.ts - App-wide current user: directory, selection, auth state and face registration status
+'use client'
+
+import { createContext, useContext } from 'react'
+import { FaceStatusResponse, User, UserStats } from '@/lib/api'
+
+export interface UserSessionValue {
+  // User directory (fetched once for the whole app)
+  users: User[]
+  usersLoading: boolean
+  usersError: string | null
+  userStats: UserStats | null
+  refreshUsers: () => Promise<void>
+
+  // Current user; persisted and synced across tabs
+  selectedUserId: number | null
+  selectedUser: User | null
+  setSelectedUserId: (userId: number) => void
+  isAuthenticated: boolean
+
+  // Face registration status of the current user
+  faceStatus: FaceStatusResponse | null
+  faceStatusLoading: boolean
+  faceStatusError: string | null
+  refreshFaceStatus: () => Promise<void>
+}
+
+export const UserSessionContext = createContext<UserSessionValue | null>(null)
+
+export const useUserSession = (): UserSessionValue => {
+  const session = useContext(UserSessionContext)
+  if (!session) {
+    throw new Error('useUserSession must be used inside <UserSessionProvider>')
+  }
+  return session
+}
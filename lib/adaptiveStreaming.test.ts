@@ -0,0 +1,114 @@
+// lib/adaptiveStreaming.test.ts - In-flight limit, frame expiry and rate/quality adaptation
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createAdaptiveFrameController } from './adaptiveStreaming'
+
+describe('createAdaptiveFrameController', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('starts at the flow interval with quality clamped to the configured range', () => {
+    expect(createAdaptiveFrameController(500, 0.95).current()).toEqual({
+      interval: 500,
+      quality: 0.9,
+      framesInFlight: 0,
+      roundTrip: null
+    })
+  })
+
+  it('stops sending at the in-flight limit and backs off the skipped capture', () => {
+    const controller = createAdaptiveFrameController(500, 0.8)
+    controller.frameSent(1)
+    controller.frameSent(2)
+
+    expect(controller.canSend(0)).toBe(false)
+    expect(controller.current()).toMatchObject({ interval: 625, framesInFlight: 2 })
+    expect(controller.current().quality).toBeCloseTo(0.7)
+
+    controller.frameAnswered({ sequence: 1 })
+    expect(controller.canSend(0)).toBe(true)
+  })
+
+  it('stops sending while the socket buffer is over the limit', () => {
+    const controller = createAdaptiveFrameController(500, 0.8, { maxBufferedAmount: 1000 })
+    expect(controller.canSend(999)).toBe(true)
+    expect(controller.canSend(1000)).toBe(false)
+  })
+
+  it('expires frames the backend never answers', () => {
+    const controller = createAdaptiveFrameController(500, 0.8, { frameTimeout: 2000 })
+    controller.frameSent(1)
+    controller.frameSent(2)
+    expect(controller.canSend(0)).toBe(false)
+
+    vi.advanceTimersByTime(2000)
+    expect(controller.canSend(0)).toBe(true)
+    expect(controller.current().framesInFlight).toBe(0)
+  })
+
+  it('drops frames sent before the answered one and ignores unknown sequences', () => {
+    const controller = createAdaptiveFrameController(500, 0.8, { maxFramesInFlight: 5 })
+    controller.frameSent(1)
+    controller.frameSent(2)
+    controller.frameSent(3)
+
+    controller.frameAnswered({ sequence: 99 })
+    expect(controller.current().framesInFlight).toBe(3)
+
+    controller.frameAnswered({ sequence: 2 })
+    expect(controller.current().framesInFlight).toBe(1)
+
+    // Without a sequence the oldest frame is the one answered
+    controller.frameAnswered({})
+    expect(controller.current().framesInFlight).toBe(0)
+  })
+
+  it('slows down when answers take longer than the interval, up to the maximum', () => {
+    const controller = createAdaptiveFrameController(500, 0.8)
+    for (let sequence = 0; sequence < 20; sequence++) {
+      controller.frameSent(sequence)
+      vi.advanceTimersByTime(3000)
+      controller.frameAnswered({ sequence, processingTime: 2900 })
+    }
+    expect(controller.current().interval).toBe(2000)
+  })
+
+  it('speeds back up and raises quality while answers are quick, never past the flow interval', () => {
+    const controller = createAdaptiveFrameController(500, 0.8)
+    controller.frameSent(1)
+    controller.frameSent(2)
+    controller.canSend(0)
+    expect(controller.current().interval).toBe(625)
+    controller.frameAnswered({ sequence: 2 })
+
+    for (let sequence = 3; sequence < 10; sequence++) {
+      controller.frameSent(sequence)
+      vi.advanceTimersByTime(50)
+      controller.frameAnswered({ sequence, processingTime: 40 })
+    }
+    expect(controller.current().interval).toBe(500)
+    expect(controller.current().quality).toBeCloseTo(0.9)
+  })
+
+  it('lowers quality when a slow network makes transfers a large share of the interval', () => {
+    const controller = createAdaptiveFrameController(500, 0.8)
+    controller.latencyMeasured(300)
+    controller.frameSent(1)
+    vi.advanceTimersByTime(320)
+    controller.frameAnswered({ sequence: 1, processingTime: 20 })
+    expect(controller.current().quality).toBeCloseTo(0.7)
+  })
+
+  it('reset restores the starting state', () => {
+    const controller = createAdaptiveFrameController(500, 0.8)
+    controller.frameSent(1)
+    controller.frameSent(2)
+    controller.canSend(0)
+    controller.reset()
+    expect(controller.current()).toEqual({ interval: 500, quality: 0.8, framesInFlight: 0, roundTrip: null })
+  })
+})
@@ -0,0 +1,154 @@
+// lib/adaptiveStreaming.ts - Adapts frame interval and JPEG quality to backend processing time and network latency
+
+export interface AdaptiveStreamingConfig {
+  // Never capture faster than this; defaults to the flow's backend-aligned frameInterval
+  minInterval: number
+  maxInterval: number
+  minQuality: number
+  maxQuality: number
+  // Frames sent but not yet answered by the backend
+  maxFramesInFlight: number
+  // Bytes still queued in the socket before capture pauses
+  maxBufferedAmount: number
+  // A frame the backend never answers stops counting as in flight after this long
+  frameTimeout: number
+}
+
+export interface AdaptiveStreamingState {
+  interval: number
+  quality: number
+  framesInFlight: number
+  // Smoothed send-to-answer time, null until the first answer
+  roundTrip: number | null
+}
+
+export interface FrameAck {
+  // Echoed header sequence for binary frames; JSON frames are answered in order
+  sequence?: number
+  // Backend processing_time in ms
+  processingTime?: number
+}
+
+export interface AdaptiveFrameController {
+  current: () => AdaptiveStreamingState
+  // false when the in-flight or buffered limit is reached; the skipped capture also backs the rate off
+  canSend: (bufferedAmount: number) => boolean
+  frameSent: (sequence: number) => void
+  frameAnswered: (ack: FrameAck) => void
+  // Heartbeat round trip, a floor for the transfer time of a frame
+  latencyMeasured: (latency: number) => void
+  reset: () => void
+}
+
+export const DEFAULT_ADAPTIVE_STREAMING: Omit<AdaptiveStreamingConfig, 'minInterval' | 'maxInterval'> = {
+  minQuality: 0.4,
+  maxQuality: 0.9,
+  maxFramesInFlight: 2,
+  maxBufferedAmount: 256 * 1024,
+  frameTimeout: 5000
+}
+
+// The slowest rate is this many times the backend-aligned interval
+const MAX_INTERVAL_FACTOR = 4
+// Exponential smoothing so one slow frame does not swing the rate
+const SMOOTHING = 0.3
+const SLOW_DOWN = 1.25
+const SPEED_UP = 0.9
+const QUALITY_UP = 0.05
+const QUALITY_DOWN = 0.1
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+const smooth = (previous: number | null, value: number) =>
+  previous === null ? value : previous + SMOOTHING * (value - previous)
+
+// Starts at the flow's interval and quality: slows down when answers take longer than the interval,
+// raises quality while transfers are quick and lowers it when they are not
+export const createAdaptiveFrameController = (
+  frameInterval: number,
+  frameQuality: number,
+  config: Partial<AdaptiveStreamingConfig> = {}
+): AdaptiveFrameController => {
+  const merged: AdaptiveStreamingConfig = {
+    minInterval: frameInterval,
+    maxInterval: frameInterval * MAX_INTERVAL_FACTOR,
+    ...DEFAULT_ADAPTIVE_STREAMING,
+    ...config
+  }
+  const initialQuality = clamp(frameQuality, merged.minQuality, merged.maxQuality)
+  const initialInterval = clamp(frameInterval, merged.minInterval, merged.maxInterval)
+
+  let interval = initialInterval
+  let quality = initialQuality
+  let roundTrip: number | null = null
+  let transfer: number | null = null
+  let latency: number | null = null
+  // Send times of unanswered frames, oldest first
+  let inFlight: { sequence: number; sentAt: number }[] = []
+
+  const expire = (now: number) => {
+    inFlight = inFlight.filter(frame => now - frame.sentAt < merged.frameTimeout)
+  }
+
+  const backOff = () => {
+    interval = clamp(interval * SLOW_DOWN, merged.minInterval, merged.maxInterval)
+    quality = clamp(quality - QUALITY_DOWN, merged.minQuality, merged.maxQuality)
+  }
+
+  return {
+    current: () => ({ interval, quality, framesInFlight: inFlight.length, roundTrip }),
+
+    canSend(bufferedAmount) {
+      expire(Date.now())
+      if (inFlight.length < merged.maxFramesInFlight && bufferedAmount < merged.maxBufferedAmount) {
+        return true
+      }
+      backOff()
+      return false
+    },
+
+    frameSent(sequence) {
+      inFlight.push({ sequence, sentAt: Date.now() })
+    },
+
+    frameAnswered({ sequence, processingTime }) {
+      const now = Date.now()
+      const index = sequence === undefined ? 0 : inFlight.findIndex(frame => frame.sequence === sequence)
+      if (index < 0 || index >= inFlight.length) return
+      const { sentAt } = inFlight[index]
+      // Frames sent before the answered one will not be answered any more
+      inFlight = inFlight.slice(index + 1)
+
+      const measured = now - sentAt
+      roundTrip = smooth(roundTrip, measured)
+      transfer = smooth(transfer, Math.max(0, measured - (processingTime ?? 0)))
+
+      // Backend is behind: answers take longer than the gap between frames
+      if (roundTrip > interval) {
+        interval = clamp(interval * SLOW_DOWN, merged.minInterval, merged.maxInterval)
+      } else if (roundTrip < interval / 2) {
+        interval = clamp(interval * SPEED_UP, merged.minInterval, merged.maxInterval)
+      }
+
+      // Bandwidth: larger frames only while getting one across takes a small share of the interval
+      const transferTime = Math.max(transfer, latency ?? 0)
+      if (transferTime < interval / 4) {
+        quality = clamp(quality + QUALITY_UP, merged.minQuality, merged.maxQuality)
+      } else if (transferTime > interval / 2) {
+        quality = clamp(quality - QUALITY_DOWN, merged.minQuality, merged.maxQuality)
+      }
+    },
+
+    latencyMeasured(value) {
+      latency = smooth(latency, value)
+    },
+
+    reset() {
+      interval = initialInterval
+      quality = initialQuality
+      roundTrip = null
+      transfer = null
+      latency = null
+      inFlight = []
+    }
+  }
+}
@@ -1,11 +1,36 @@
 // lib/api.ts - Updated to work with real database users
-import axios from 'axios'
+import axios, { InternalAxiosRequestConfig } from 'axios'
+import { API_BASE_URL, buildWebSocketUrl } from './config'
+import { WS_AUTH_MODE, getAccessToken, refreshAccessToken } from './auth'
+import { NotFoundError, toFaceApiError } from './errors'
+import { withRetry } from './retry'
+import type { ProctoringReport } from './proctoring'
+import type { ClientMessage } from './faceProtocol'
+import {
+  parseFaceLifecycle,
+  parseFaceRegistration,
+  parseFaceStatus,
+  parseFaceTemplates,
+  parseFaceVerification,
+  parseHealth,
+  parseStreamChannel,
+  parseStreamPoll,
+  parseStreamingSession,
+  parseSystemStats,
+  parseUser,
+  parseUserStats,
+  parseUsers,
+  parseVerificationHistory
+} from './schemas'
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+// Per-attempt timeouts; uploads carry an image so they get longer
+export const REQUEST_TIMEOUT = 10000
+export const UPLOAD_TIMEOUT = 30000
 
 // Create axios instance
 const api = axios.create({
   baseURL: API_BASE_URL,
+  timeout: REQUEST_TIMEOUT,
   headers: {
     'Content-Type': 'application/json',
   },
@@ -13,11 +38,36 @@ const api = axios.create({
 
 // Add auth token to requests
 api.interceptors.request.use((config) => {
-  // For demo purposes, using a simple token
-  config.headers.Authorization = 'Bearer lms-face-token-123'
+  const token = getAccessToken()
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`
+  }
   return config
 })
 
+// Refresh the access token once on 401 and replay the original request
+api.interceptors.response.use(undefined, async (error) => {
+  const original = error.config as (InternalAxiosRequestConfig & { _authRetried?: boolean }) | undefined
+
+  if (error.response?.status !== 401 || !original || original._authRetried) {
+    throw error
+  }
+
+  original._authRetried = true
+  const token = await refreshAccessToken()
+  if (!token) {
+    throw error
+  }
+
+  original.headers.Authorization = `Bearer ${token}`
+  return api(original)
+})
+
+// Every failed request rejects with a FaceApiError (see lib/errors.ts)
+api.interceptors.response.use(undefined, (error) => {
+  throw toFaceApiError(error)
+})
+
 // Updated User interface to match database structure
 export interface User {
   id: number
@@ -58,6 +108,9 @@ export interface AppUser {
   UpdationDateTime: string
 }
 
+// Label of a template registered without one
+export const DEFAULT_TEMPLATE_LABEL = 'default'
+
 export interface Face {
   id: number
   UserID: number
@@ -72,6 +125,8 @@ export interface Face {
   StorageType: string
   CreationDateTime: string
   UpdateDateTime: string
+  // Template name, e.g. "glasses"; a user may hold several templates under different labels
+  Label?: string
 }
 
 export interface FaceVerification {
@@ -107,6 +162,27 @@ export interface StreamingSession {
   EndTime?: string
 }
 
+// HTTP polling fallback for the face streams: the same client/server messages as the WebSocket
+export interface StreamChannel {
+  channel_id: string
+  // Suggested delay between polls in milliseconds
+  poll_interval?: number
+}
+
+export interface StreamChannelClose {
+  code: number
+  reason: string
+}
+
+export interface StreamPollResponse {
+  // Server messages, validated by lib/faceProtocol.ts like socket messages
+  messages: unknown[]
+  // Pass back as `after` to receive only newer messages
+  cursor: number
+  // Set once the backend ended the session, with the close code a socket would have used
+  closed: StreamChannelClose | null
+}
+
 // API Response interfaces that match backend exactly
 export interface FaceRegistrationResponse {
   success: boolean
@@ -122,6 +198,9 @@ export interface FaceRegistrationResponse {
   frames_processed?: number
   avg_processing_time?: number
   registration_source?: string
+  // Set by a re-enrollment: the template this registration replaced
+  replaced_face_id?: number
+  template_label?: string
 }
 
 export interface FaceVerificationResponse {
@@ -147,6 +226,9 @@ export interface FaceVerificationResponse {
   verification_method: string
   threshold_used: number
   message: string
+  // The user's template that matched best
+  matched_face_id?: number
+  matched_template_label?: string
 }
 
 export interface FaceStatusResponse {
@@ -160,6 +242,19 @@ export interface FaceStatusResponse {
   detector_backend?: string
   registration_source?: string
   registered_at?: string
+  // false once deactivated: the template is kept but verification is refused
+  is_active?: boolean
+  // The fields above describe the most recent template; see faceAPI.getFaceTemplates for all of them
+  template_count?: number
+}
+
+// Deactivate, reactivate and delete all answer with the template they changed
+export interface FaceLifecycleResponse {
+  success: boolean
+  user_id: number
+  face_id?: number
+  is_active?: boolean
+  message: string
 }
 
 export interface HealthResponse {
@@ -188,24 +283,34 @@ export interface HealthResponse {
   memory_usage?: number
 }
 
+export interface VerificationRecord {
+  verification_id: number
+  user_id: number
+  quiz_id?: string
+  course_id?: string
+  verified: boolean
+  similarity_score: number
+  distance: number
+  threshold_used: number
+  model_name: string
+  quality_score?: number
+  antispoofing_score?: number
+  matched_template_label?: string
+  // 'proctoring' for background re-checks during a quiz; absent for user-initiated verifications
+  source?: string
+  // Normalized from verified_at / VerificationDateTime by lib/schemas.ts
+  verification_datetime?: string
+}
+
+export interface FaceTemplatesResponse {
+  user_id: number
+  templates: Face[]
+}
+
 export interface VerificationHistoryResponse {
   user_id: number
   total_verifications: number
-  verifications: Array<{
-    verification_id: number
-    user_id: number
-    quiz_id?: string
-    course_id?: string
-    verified: boolean
-    similarity_score: number
-    distance: number
-    threshold_used: number
-    model_name: string
-    quality_score?: number
-    antispoofing_score?: number
-    verification_datetime?: string
-    verified_at?: string
-  }>
+  verifications: VerificationRecord[]
 }
 
 export interface SystemStatsResponse {
@@ -219,20 +324,62 @@ export interface SystemStatsResponse {
   total_verifications_today: number
 }
 
+export interface RequestOptions {
+  // Aborting rejects the call with CancelledError
+  signal?: AbortSignal
+  // Milliseconds per attempt; defaults to REQUEST_TIMEOUT (UPLOAD_TIMEOUT for uploads)
+  timeout?: number
+}
+
+// Idempotent GETs may also be retried with exponential backoff (see lib/retry.ts)
+export interface ReadRequestOptions extends RequestOptions {
+  // Extra attempts for retryable failures; 0 disables retrying
+  retries?: number
+}
+
+// Verification uploads say which flow took the photo
+export interface VerificationRequestOptions extends RequestOptions {
+  // 'proctoring' marks background re-checks so history and stats can tell them from identity gates
+  source?: string
+}
+
+// Registration uploads name the template they add or replace
+export interface RegistrationRequestOptions extends RequestOptions {
+  // Omitted: the backend's default template
+  templateLabel?: string
+  // Replace the template with the same label; the backend keeps the old one until this one is stored
+  reEnroll?: boolean
+}
+
+const requestConfig = ({ signal, timeout }: RequestOptions, defaultTimeout = REQUEST_TIMEOUT) => ({
+  signal,
+  timeout: timeout ?? defaultTimeout
+})
+
+const getWithRetry = (url: string, options: ReadRequestOptions) =>
+  withRetry(() => api.get(url, requestConfig(options)), { retries: options.retries, signal: options.signal })
+
+// Error policy: every method rejects with a FaceApiError subclass (lib/errors.ts).
+// Only a 404 that means "nothing there" resolves to an empty value (history, active session).
+// Response bodies pass through lib/schemas.ts, so callers always get the canonical shape and
+// a body missing required fields rejects with ContractError.
 export const faceAPI = {
   // Traditional HTTP endpoints (if they exist in backend)
-  async registerFace(userId: number, imageFile: File, source: string = 'web'): Promise<FaceRegistrationResponse> {
+  async registerFace(userId: number, imageFile: File, source: string = 'web', options: RegistrationRequestOptions = {}): Promise<FaceRegistrationResponse> {
     const formData = new FormData()
     formData.append('user_id', userId.toString())
     formData.append('file', imageFile)
     formData.append('source', source)
+    if (options.templateLabel) formData.append('template_label', options.templateLabel)
+    if (options.reEnroll) formData.append('re_enroll', 'true')
 
     const response = await api.post('/api/v1/face/register', formData, {
+      ...requestConfig(options, UPLOAD_TIMEOUT),
       headers: {
         'Content-Type': 'multipart/form-data',
       },
     })
-    return response.data
+    return parseFaceRegistration(response.data)
   },
 
   // Verify face (traditional endpoint)
@@ -240,43 +387,69 @@ export const faceAPI = {
     userId: number, 
     imageFile: File, 
     quizId?: string, 
-    courseId?: string
+    courseId?: string,
+    options: VerificationRequestOptions = {}
   ): Promise<FaceVerificationResponse> {
     const formData = new FormData()
     formData.append('user_id', userId.toString())
     formData.append('file', imageFile)
     if (quizId) formData.append('quiz_id', quizId)
     if (courseId) formData.append('course_id', courseId)
+    if (options.source) formData.append('source', options.source)
 
     const response = await api.post('/api/v1/face/verify', formData, {
+      ...requestConfig(options, UPLOAD_TIMEOUT),
       headers: {
         'Content-Type': 'multipart/form-data',
       },
     })
-    return response.data
+    return parseFaceVerification(response.data)
   },
 
   // Get face registration status - aligned with backend
-  async getFaceStatus(userId: number): Promise<FaceStatusResponse> {
-    try {
-      const response = await api.get(`/api/v1/face/status/${userId}`)
-      return response.data
-    } catch (error: any) {
-      // Handle case where user is not found
-      if (error.response?.status === 404) {
-        throw new Error('User not found')
-      }
-      throw error
-    }
+  // Throws NotFoundError when the user does not exist
+  async getFaceStatus(userId: number, options: ReadRequestOptions = {}): Promise<FaceStatusResponse> {
+    const response = await getWithRetry(`/api/v1/face/status/${userId}`, options)
+    return parseFaceStatus(response.data)
+  },
+
+  // All of the user's templates as Face records, e.g. "glasses" and "no glasses"
+  // Throws NotFoundError when the user does not exist
+  async getFaceTemplates(userId: number, options: ReadRequestOptions = {}): Promise<Face[]> {
+    const response = await getWithRetry(`/api/v1/face/templates/${userId}`, options)
+    return parseFaceTemplates(response.data).templates
+  },
+
+  // Removes one template; the user's other templates keep verifying
+  async deleteFaceTemplate(faceId: number, options: RequestOptions = {}): Promise<FaceLifecycleResponse> {
+    const response = await api.delete(`/api/v1/face/templates/${faceId}`, requestConfig(options))
+    return parseFaceLifecycle(response.data)
+  },
+
+  // Registration lifecycle, for all of the user's templates: a deactivated registration can be reactivated, a deleted one is gone for good
+  async deactivateFace(userId: number, options: RequestOptions = {}): Promise<FaceLifecycleResponse> {
+    const response = await api.post(`/api/v1/face/deactivate/${userId}`, undefined, requestConfig(options))
+    return parseFaceLifecycle(response.data)
+  },
+
+  async reactivateFace(userId: number, options: RequestOptions = {}): Promise<FaceLifecycleResponse> {
+    const response = await api.post(`/api/v1/face/reactivate/${userId}`, undefined, requestConfig(options))
+    return parseFaceLifecycle(response.data)
+  },
+
+  async deleteFace(userId: number, options: RequestOptions = {}): Promise<FaceLifecycleResponse> {
+    const response = await api.delete(`/api/v1/face/${userId}`, requestConfig(options))
+    return parseFaceLifecycle(response.data)
   },
 
   // Get verification history - aligned with backend response format
-  async getVerificationHistory(userId: number, limit: number = 10): Promise<VerificationHistoryResponse> {
+  // A 404 means the user has no verifications yet, so it resolves to an empty history
+  async getVerificationHistory(userId: number, limit: number = 10, options: ReadRequestOptions = {}): Promise<VerificationHistoryResponse> {
     try {
-      const response = await api.get(`/api/v1/face/verifications/${userId}?limit=${limit}`)
-      return response.data
-    } catch (error: any) {
-      if (error.response?.status === 404) {
+      const response = await getWithRetry(`/api/v1/face/verifications/${userId}?limit=${limit}`, options)
+      return parseVerificationHistory(response.data)
+    } catch (error) {
+      if (error instanceof NotFoundError) {
         return {
           user_id: userId,
           total_verifications: 0,
@@ -288,122 +461,105 @@ export const faceAPI = {
   },
 
   // Health check - aligned with backend HealthResponse
-  async getHealth(): Promise<HealthResponse> {
-    try {
-      const response = await api.get('/api/v1/health')
-      return response.data
-    } catch (error) {
-      return {
-        status: 'error',
-        timestamp: new Date().toISOString(),
-        engine: 'unknown',
-        database: 'unknown'
-      }
-    }
+  async getHealth(options: ReadRequestOptions = {}): Promise<HealthResponse> {
+    const response = await getWithRetry('/api/v1/health', options)
+    return parseHealth(response.data)
   },
 
   // System stats - aligned with backend response
-  async getStats(): Promise<SystemStatsResponse> {
-    try {
-      const response = await api.get('/api/v1/stats')
-      return response.data
-    } catch (error) {
-      return {
-        total_users: 0,
-        registered_faces: 0,
-        registration_rate: 0,
-        success_rate_24h: 0,
-        system_health: 'poor',
-        active_sessions: 0,
-        avg_processing_time: 0,
-        total_verifications_today: 0
-      }
-    }
+  async getStats(options: ReadRequestOptions = {}): Promise<SystemStatsResponse> {
+    const response = await getWithRetry('/api/v1/stats', options)
+    return parseSystemStats(response.data)
   },
 
   // USER MANAGEMENT - NEW METHODS FOR DATABASE USERS
   // Fetch all users from database
-  async fetchAllUsers(): Promise<User[]> {
-    try {
-      const response = await api.get('/api/v1/users')
-      return response.data
-    } catch (error) {
-      console.error('Failed to fetch users:', error)
-      throw new Error('Failed to fetch users from database')
-    }
+  async fetchAllUsers(options: RequestOptions = {}): Promise<User[]> {
+    const response = await api.get('/api/v1/users', requestConfig(options))
+    return parseUsers(response.data)
   },
 
   // Fetch specific user by ID
-  async fetchUserById(userId: number): Promise<User> {
-    try {
-      const response = await api.get(`/api/v1/user/${userId}`)
-      return response.data
-    } catch (error: any) {
-      if (error.response?.status === 404) {
-        throw new Error('User not found')
-      }
-      console.error(`Failed to fetch user ${userId}:`, error)
-      throw new Error('Failed to fetch user details')
-    }
+  // Throws NotFoundError when the user does not exist
+  async fetchUserById(userId: number, options: RequestOptions = {}): Promise<User> {
+    const response = await api.get(`/api/v1/user/${userId}`, requestConfig(options))
+    return parseUser(response.data)
   },
 
   // Get user statistics
-  async getUserStats(): Promise<UserStats> {
-    try {
-      const response = await api.get('/api/v1/users/stats')
-      return response.data
-    } catch (error) {
-      console.error('Failed to fetch user stats:', error)
-      return {
-        total_users: 0,
-        students: 0,
-        instructors: 0,
-        staff: 0,
-        admins: 0,
-        registered_faces: 0,
-        registration_rate: 0
-      }
-    }
+  async getUserStats(options: RequestOptions = {}): Promise<UserStats> {
+    const response = await api.get('/api/v1/users/stats', requestConfig(options))
+    return parseUserStats(response.data)
   },
 
   // WebSocket connection helpers
+  // With WS_AUTH_MODE 'message' the caller must send an 'auth' message once the socket opens
   createRegistrationWebSocket(userId: number): WebSocket {
-    const wsUrl = `ws://localhost:8000/ws/face-registration/${userId}`
-    return new WebSocket(wsUrl)
+    return new WebSocket(buildWebSocketUrl(`/ws/face-registration/${userId}`, {
+      token: WS_AUTH_MODE === 'query' ? getAccessToken() || undefined : undefined
+    }))
   },
 
   createVerificationWebSocket(userId: number, quizId?: string, courseId?: string): WebSocket {
-    const baseUrl = `ws://localhost:8000/ws/face-verification/${userId}`
-    const params = new URLSearchParams()
-    
-    if (quizId) params.append('quiz_id', quizId)
-    if (courseId) params.append('course_id', courseId)
-    
-    const wsUrl = params.toString() ? `${baseUrl}?${params.toString()}` : baseUrl
-    return new WebSocket(wsUrl)
+    return new WebSocket(buildWebSocketUrl(`/ws/face-verification/${userId}`, {
+      quiz_id: quizId,
+      course_id: courseId,
+      token: WS_AUTH_MODE === 'query' ? getAccessToken() || undefined : undefined
+    }))
   },
 
   // Streaming session management (if backend supports these endpoints)
-  async getActiveSession(userId: number): Promise<StreamingSession | null> {
+  // Resolves to null when the user has no active session
+  async getActiveSession(userId: number, options: RequestOptions = {}): Promise<StreamingSession | null> {
     try {
-      const response = await api.get(`/api/v1/streaming/session/${userId}`)
-      return response.data
-    } catch (error: any) {
-      if (error.response?.status === 404) {
+      const response = await api.get(`/api/v1/streaming/session/${userId}`, requestConfig(options))
+      return response.data ? parseStreamingSession(response.data) : null
+    } catch (error) {
+      if (error instanceof NotFoundError) {
         return null
       }
       throw error
     }
   },
 
-  async terminateSession(sessionId: string): Promise<boolean> {
-    try {
-      await api.post(`/api/v1/streaming/terminate/${sessionId}`)
-      return true
-    } catch (error) {
-      console.error('Failed to terminate session:', error)
-      return false
-    }
+  async terminateSession(sessionId: string, options: RequestOptions = {}): Promise<void> {
+    await api.post(`/api/v1/streaming/terminate/${sessionId}`, undefined, requestConfig(options))
+  },
+
+  // HTTP streaming fallback for networks that block WebSocket upgrades (see lib/faceTransport.ts)
+  async openStreamChannel(
+    kind: 'registration' | 'verification',
+    userId: number,
+    params: Record<string, string | undefined> = {},
+    options: RequestOptions = {}
+  ): Promise<StreamChannel> {
+    const response = await api.post(`/api/v1/streaming/http/face-${kind}/${userId}`, undefined, {
+      ...requestConfig(options),
+      params
+    })
+    return parseStreamChannel(response.data)
+  },
+
+  async sendStreamMessage(channelId: string, message: ClientMessage, options: RequestOptions = {}): Promise<void> {
+    await api.post(`/api/v1/streaming/http/${channelId}/messages`, message, requestConfig(options, UPLOAD_TIMEOUT))
+  },
+
+  async pollStreamMessages(channelId: string, after: number, options: RequestOptions = {}): Promise<StreamPollResponse> {
+    const response = await api.get(`/api/v1/streaming/http/${channelId}/messages`, {
+      ...requestConfig(options),
+      params: { after }
+    })
+    return parseStreamPoll(response.data)
+  },
+
+  async closeStreamChannel(channelId: string, options: RequestOptions = {}): Promise<void> {
+    await api.delete(`/api/v1/streaming/http/${channelId}`, requestConfig(options))
+  },
+
+  // Quiz proctoring: flagged events for one quiz attempt, kept for instructor review
+  // Events are upserted by id, so resending an event after it ends updates it
+  async recordProctoringEvents(report: ProctoringReport, options: RequestOptions = {}): Promise<void> {
+    await api.post('/api/v1/proctoring/events', report, requestConfig(options))
   }
 }
 
@@ -0,0 +1,226 @@
+// lib/auth.ts - Pluggable authentication provider and access/refresh token lifecycle
+import axios from 'axios'
+import { API_BASE_URL } from './config'
+
+export interface AuthTokens {
+  accessToken: string
+  refreshToken?: string
+  // Epoch milliseconds; undefined means the token does not expire client-side
+  expiresAt?: number
+}
+
+export interface LoginCredentials {
+  username: string
+  password: string
+}
+
+export interface AuthProvider {
+  getAccessToken(): string | null
+  login(credentials: LoginCredentials): Promise<AuthTokens>
+  // Resolves to the new access token, or null when the session cannot be renewed
+  refresh(): Promise<string | null>
+  logout(): Promise<void>
+  isAuthenticated(): boolean
+  // Epoch milliseconds when the current access token expires, if known
+  getExpiresAt?(): number | undefined
+}
+
+export interface TokenStorage {
+  load(): AuthTokens | null
+  save(tokens: AuthTokens | null): void
+}
+
+// How face WebSockets receive the token: ?token= on the URL, or an 'auth' message right after open
+export type WebSocketAuthMode = 'query' | 'message'
+
+export const WS_AUTH_MODE: WebSocketAuthMode =
+  process.env.NEXT_PUBLIC_WS_AUTH_MODE === 'message' ? 'message' : 'query'
+
+const TOKEN_STORAGE_KEY = 'faceAuthTokens'
+const REFRESH_MARGIN_MS = 30000
+
+export const localTokenStorage: TokenStorage = {
+  load() {
+    if (typeof window === 'undefined') return null
+    try {
+      const saved = localStorage.getItem(TOKEN_STORAGE_KEY)
+      return saved ? JSON.parse(saved) : null
+    } catch (error) {
+      console.warn('Failed to read stored auth tokens:', error)
+      return null
+    }
+  },
+  save(tokens) {
+    if (typeof window === 'undefined') return
+    if (tokens) {
+      localStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(tokens))
+    } else {
+      localStorage.removeItem(TOKEN_STORAGE_KEY)
+    }
+  }
+}
+
+export const createMemoryTokenStorage = (initial: AuthTokens | null = null): TokenStorage => {
+  let tokens = initial
+  return {
+    load: () => tokens,
+    save: (next) => { tokens = next }
+  }
+}
+
+// Token endpoint response from the backend
+interface TokenResponse {
+  access_token: string
+  refresh_token?: string
+  expires_in?: number
+  token_type?: string
+}
+
+const toAuthTokens = (data: TokenResponse, previous?: AuthTokens | null): AuthTokens => ({
+  accessToken: data.access_token,
+  refreshToken: data.refresh_token || previous?.refreshToken,
+  expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : undefined
+})
+
+// Separate client so token calls never go through the refresh interceptor in lib/api.ts
+const authClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+})
+
+export const createBackendAuthProvider = (
+  storage: TokenStorage = localTokenStorage,
+  // Used when nobody is logged in, e.g. the demo backend's shared token
+  fallbackToken: string | undefined = process.env.NEXT_PUBLIC_DEMO_TOKEN
+): AuthProvider => ({
+  getAccessToken() {
+    return storage.load()?.accessToken || fallbackToken || null
+  },
+
+  async login(credentials) {
+    const response = await authClient.post<TokenResponse>('/api/v1/auth/login', credentials)
+    const tokens = toAuthTokens(response.data)
+    storage.save(tokens)
+    return tokens
+  },
+
+  async refresh() {
+    const current = storage.load()
+    if (!current?.refreshToken) return null
+
+    const response = await authClient.post<TokenResponse>('/api/v1/auth/refresh', {
+      refresh_token: current.refreshToken
+    })
+    const tokens = toAuthTokens(response.data, current)
+    storage.save(tokens)
+    return tokens.accessToken
+  },
+
+  async logout() {
+    const current = storage.load()
+    storage.save(null)
+    if (!current) return
+
+    try {
+      await authClient.post('/api/v1/auth/logout', { refresh_token: current.refreshToken }, {
+        headers: { Authorization: `Bearer ${current.accessToken}` }
+      })
+    } catch (error) {
+      // Local tokens are already cleared; the backend session will expire on its own
+      console.warn('Backend logout failed:', error)
+    }
+  },
+
+  isAuthenticated() {
+    return Boolean(storage.load()?.accessToken)
+  },
+
+  getExpiresAt() {
+    return storage.load()?.expiresAt
+  }
+})
+
+// Static token provider for backends without a login endpoint
+export const createStaticTokenProvider = (token: string): AuthProvider => ({
+  getAccessToken: () => token,
+  login: async () => ({ accessToken: token }),
+  refresh: async () => null,
+  logout: async () => {},
+  isAuthenticated: () => true
+})
+
+let provider: AuthProvider = createBackendAuthProvider()
+let refreshPromise: Promise<string | null> | null = null
+const listeners = new Set<(authenticated: boolean) => void>()
+
+const notify = () => {
+  const authenticated = provider.isAuthenticated()
+  listeners.forEach(listener => listener(authenticated))
+}
+
+// Login/logout in another tab rewrites the stored tokens
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === TOKEN_STORAGE_KEY || event.key === null) notify()
+  })
+}
+
+export const setAuthProvider = (next: AuthProvider) => {
+  provider = next
+  notify()
+}
+
+export const getAuthProvider = () => provider
+
+export const onAuthChange = (listener: (authenticated: boolean) => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const getAccessToken = () => provider.getAccessToken()
+
+export const isAuthenticated = () => provider.isAuthenticated()
+
+export const login = async (credentials: LoginCredentials) => {
+  const tokens = await provider.login(credentials)
+  notify()
+  return tokens
+}
+
+export const logout = async () => {
+  await provider.logout()
+  notify()
+}
+
+// Single-flight refresh: concurrent 401s share one refresh request
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = provider.refresh()
+      .catch(async (error) => {
+        console.warn('Token refresh failed, logging out:', error)
+        await provider.logout()
+        return null
+      })
+      .then((token) => {
+        notify()
+        return token
+      })
+      .finally(() => {
+        refreshPromise = null
+      })
+  }
+  return refreshPromise
+}
+
+// Access token that will not expire in the next few seconds (for long-lived WebSockets)
+export const getValidAccessToken = async (): Promise<string | null> => {
+  const expiresAt = provider.getExpiresAt?.()
+  if (expiresAt && expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+    return refreshAccessToken()
+  }
+  return getAccessToken()
+}
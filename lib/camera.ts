@@ -0,0 +1,155 @@
+// lib/camera.ts - Camera device selection, capture settings and persisted camera preferences
+
+export interface CameraResolution {
+  width: number
+  height: number
+}
+
+// The settings a flow asks for when the user has not chosen their own
+export interface CameraDefaults extends CameraResolution {
+  frameRate?: number
+}
+
+export interface CameraPreferences {
+  // null: let the browser pick a front-facing camera
+  deviceId: string | null
+  // null: each flow's own backend-aligned setting
+  resolution: CameraResolution | null
+  frameRate: number | null
+  // Preview only; frames sent to the backend are never mirrored
+  mirror: boolean
+}
+
+export const RESOLUTION_OPTIONS = [
+  { label: '320 × 240', width: 320, height: 240 },
+  { label: '480 × 360', width: 480, height: 360 },
+  { label: '640 × 480', width: 640, height: 480 },
+  { label: '1280 × 720 (HD)', width: 1280, height: 720 }
+]
+
+export const FRAME_RATE_OPTIONS = [15, 24, 30]
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = {
+  deviceId: null,
+  resolution: null,
+  frameRate: null,
+  mirror: false
+}
+
+const CAMERA_PREFERENCES_KEY = 'cameraPreferences'
+// Same-tab notification; other tabs get the native 'storage' event
+export const CAMERA_PREFERENCES_EVENT = 'camerapreferenceschange'
+
+export const loadCameraPreferences = (): CameraPreferences => {
+  if (typeof window === 'undefined') return DEFAULT_CAMERA_PREFERENCES
+  try {
+    const saved = localStorage.getItem(CAMERA_PREFERENCES_KEY)
+    return saved ? { ...DEFAULT_CAMERA_PREFERENCES, ...JSON.parse(saved) } : DEFAULT_CAMERA_PREFERENCES
+  } catch (error) {
+    console.warn('Failed to read camera preferences:', error)
+    return DEFAULT_CAMERA_PREFERENCES
+  }
+}
+
+export const saveCameraPreferences = (preferences: CameraPreferences) => {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(CAMERA_PREFERENCES_KEY, JSON.stringify(preferences))
+  window.dispatchEvent(new Event(CAMERA_PREFERENCES_EVENT))
+}
+
+export const isCameraPreferencesKey = (key: string | null) => key === null || key === CAMERA_PREFERENCES_KEY
+
+// Labels are empty until the user has granted camera permission once
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) return []
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices.filter(device => device.kind === 'videoinput')
+}
+
+// CONSTRAINTS
+
+// Flows stay capped at 640x480 unless the user picked a resolution themselves
+const DEFAULT_MAX_SIZE = { width: 640, height: 480 }
+
+const resolveSettings = (preferences: CameraPreferences, defaults: CameraDefaults): MediaTrackConstraints => {
+  const { resolution } = preferences
+  const frameRate = preferences.frameRate ?? defaults.frameRate
+  return {
+    width: resolution ? { ideal: resolution.width } : { ideal: defaults.width, max: DEFAULT_MAX_SIZE.width },
+    height: resolution ? { ideal: resolution.height } : { ideal: defaults.height, max: DEFAULT_MAX_SIZE.height },
+    ...(frameRate ? { frameRate: { ideal: frameRate } } : {})
+  }
+}
+
+// Preferred device and settings for a single getUserMedia call (e.g. react-webcam videoConstraints)
+export const buildVideoConstraints = (preferences: CameraPreferences, defaults: CameraDefaults): MediaTrackConstraints => ({
+  ...resolveSettings(preferences, defaults),
+  ...(preferences.deviceId ? { deviceId: { exact: preferences.deviceId } } : { facingMode: 'user' })
+})
+
+// Tried in order until one succeeds; a chosen device that is gone or busy falls back to the default camera
+export const buildConstraintSets = (preferences: CameraPreferences, defaults: CameraDefaults): MediaStreamConstraints[] => {
+  const settings = resolveSettings(preferences, defaults)
+  const size = { width: settings.width, height: settings.height }
+  const deviceSets: MediaStreamConstraints[] = preferences.deviceId
+    ? [
+        // Chosen device with the chosen settings
+        { video: buildVideoConstraints(preferences, defaults), audio: false },
+        // Chosen device, whatever it supports
+        { video: { deviceId: { exact: preferences.deviceId } }, audio: false }
+      ]
+    : []
+
+  return [
+    ...deviceSets,
+    // Ideal constraints
+    {
+      video: { ...settings, facingMode: 'user' },
+      audio: false
+    },
+    // Fallback without frameRate constraint at all
+    {
+      video: { ...size, facingMode: 'user' },
+      audio: false
+    },
+    // Minimal constraints - just front camera
+    {
+      video: { facingMode: 'user' },
+      audio: false
+    },
+    // Last resort - any video
+    {
+      video: true,
+      audio: false
+    }
+  ]
+}
+
+// Opens the first constraint set the browser accepts; rejects with the last getUserMedia error
+export const openCamera = async (preferences: CameraPreferences, defaults: CameraDefaults): Promise<MediaStream> => {
+  let lastError: unknown = null
+  for (const constraints of buildConstraintSets(preferences, defaults)) {
+    try {
+      return await navigator.mediaDevices.getUserMedia(constraints)
+    } catch (error) {
+      lastError = error
+    }
+  }
+  throw lastError
+}
+
+export const getCameraErrorMessage = (error: unknown): string => {
+  const name = error instanceof Error ? error.name : ''
+  switch (name) {
+    case 'NotAllowedError':
+      return 'Camera access denied. Please allow camera permissions and refresh the page.'
+    case 'NotFoundError':
+      return 'No camera found. Please connect a camera and try again.'
+    case 'OverconstrainedError':
+      return 'Camera does not support required settings. Using basic camera access.'
+    case 'NotReadableError':
+      return 'Camera is already in use by another application.'
+    default:
+      return 'Failed to access camera.'
+  }
+}
@@ -0,0 +1,59 @@
+// lib/config.ts - Backend endpoint configuration shared by REST, WebSockets and Next rewrites
+//
+// NEXT_PUBLIC_API_URL  Backend base URL, optionally with a path prefix (https://host/face-api).
+//                      The only relative value the Next rewrite proxies is '/': it keeps /api/*
+//                      on the app's origin. A relative prefix like '/face-api' needs a reverse
+//                      proxy of its own. Sockets derived from a relative base connect to the
+//                      app's origin too, and Next does not proxy /ws/*, so a reverse proxy must
+//                      forward it or NEXT_PUBLIC_WS_URL must point at the backend.
+// NEXT_PUBLIC_WS_URL   Optional WebSocket base URL; derived from the API base when unset
+//                      (http → ws, https → wss).
+// BACKEND_URL          Server-side only: where the Next rewrites send /api/* requests.
+//                      Falls back to NEXT_PUBLIC_API_URL when that is absolute.
+
+const DEFAULT_BACKEND_URL = 'http://localhost:8000'
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '')
+
+const isAbsoluteUrl = (url: string) => /^[a-z][a-z\d+.-]*:\/\//i.test(url)
+
+const joinUrl = (base: string, path: string) =>
+  `${trimTrailingSlash(base)}/${path.replace(/^\/+/, '')}`
+
+const getBrowserOrigin = () =>
+  typeof window !== 'undefined' ? window.location.origin : ''
+
+// Base used by axios; may be relative so requests stay on the app origin
+export const API_BASE_URL = trimTrailingSlash(process.env.NEXT_PUBLIC_API_URL || DEFAULT_BACKEND_URL)
+
+// Absolute HTTP(S) base for the current runtime
+export const getApiBaseUrl = (): string =>
+  isAbsoluteUrl(API_BASE_URL) ? API_BASE_URL : `${getBrowserOrigin()}${API_BASE_URL}`
+
+export const toWebSocketUrl = (httpUrl: string): string =>
+  httpUrl.replace(/^http(s?):\/\//i, (_match, secure: string) => `ws${secure}://`)
+
+export const getWebSocketBaseUrl = (): string => {
+  const explicit = process.env.NEXT_PUBLIC_WS_URL
+  if (explicit) {
+    return trimTrailingSlash(isAbsoluteUrl(explicit) ? explicit : `${toWebSocketUrl(getBrowserOrigin())}${explicit}`)
+  }
+  return toWebSocketUrl(getApiBaseUrl())
+}
+
+export const buildWebSocketUrl = (path: string, params: Record<string, string | undefined> = {}): string => {
+  const url = joinUrl(getWebSocketBaseUrl(), path)
+  const query = new URLSearchParams()
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) query.append(key, value)
+  })
+
+  return query.toString() ? `${url}?${query.toString()}` : url
+}
+
+// Used by next.config.ts at build/start time
+export const getBackendRewriteUrl = (): string => {
+  const backend = process.env.BACKEND_URL || process.env.NEXT_PUBLIC_API_URL
+  return trimTrailingSlash(backend && isAbsoluteUrl(backend) ? backend : DEFAULT_BACKEND_URL)
+}
@@ -0,0 +1,216 @@
+// lib/contracts.ts - Runtime response contract checking and mismatch registry
+import { ContractError } from './errors'
+
+export type ContractProblem = 'missing' | 'type' | 'variant' | 'coerced'
+
+export interface ContractIssue {
+  endpoint: string
+  path: string
+  problem: ContractProblem
+  message: string
+  count: number
+  lastSeen: number
+}
+
+const MAX_ISSUES = 50
+
+let issues: ContractIssue[] = []
+const listeners = new Set<(issues: ContractIssue[]) => void>()
+
+const record = (endpoint: string, path: string, problem: ContractProblem, message: string) => {
+  const existing = issues.find(issue => issue.endpoint === endpoint && issue.path === path && issue.problem === problem)
+
+  if (existing) {
+    issues = issues.map(issue => issue === existing ? { ...issue, count: issue.count + 1, lastSeen: Date.now() } : issue)
+  } else {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn(`[contract] ${endpoint} ${path}: ${message}`)
+    }
+    issues = [{ endpoint, path, problem, message, count: 1, lastSeen: Date.now() }, ...issues].slice(0, MAX_ISSUES)
+  }
+
+  listeners.forEach(listener => listener(issues))
+}
+
+export const getContractIssues = () => issues
+
+export const subscribeContractIssues = (listener: (issues: ContractIssue[]) => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const clearContractIssues = () => {
+  issues = []
+  listeners.forEach(listener => listener(issues))
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Reads fields from one response object, coercing near-misses and recording every deviation.
+// Required readers throw ContractError when the field cannot be recovered.
+export class ContractReader {
+  private endpoint: string
+  private data: Record<string, unknown>
+  private path: string
+
+  constructor(endpoint: string, data: Record<string, unknown>, path = '') {
+    this.endpoint = endpoint
+    this.data = data
+    this.path = path
+  }
+
+  static from(endpoint: string, data: unknown, path = ''): ContractReader {
+    if (!isRecord(data)) {
+      record(endpoint, path || '(root)', 'type', `expected object, got ${Array.isArray(data) ? 'array' : typeof data}`)
+      throw new ContractError(endpoint, `${path || 'response'} is not an object`)
+    }
+    return new ContractReader(endpoint, data, path)
+  }
+
+  static list<T>(endpoint: string, data: unknown, read: (item: ContractReader) => T): T[] {
+    if (!Array.isArray(data)) {
+      record(endpoint, '(root)', 'type', `expected array, got ${typeof data}`)
+      throw new ContractError(endpoint, 'response is not an array')
+    }
+    // Items share one path so a drifted field is reported once, not per row
+    return data.map(item => read(ContractReader.from(endpoint, item, '[]')))
+  }
+
+  private fieldPath(key: string) {
+    return this.path ? `${this.path}.${key}` : key
+  }
+
+  private report(key: string, problem: ContractProblem, message: string) {
+    record(this.endpoint, this.fieldPath(key), problem, message)
+  }
+
+  // Canonical key first, then known variants
+  private lookup(key: string, aliases: string[]): unknown {
+    const value = this.data[key]
+    if (value !== undefined && value !== null) return value
+
+    for (const alias of aliases) {
+      const aliased = this.data[alias]
+      if (aliased !== undefined && aliased !== null) {
+        this.report(key, 'variant', `received '${alias}' instead of '${key}'`)
+        return aliased
+      }
+    }
+    return undefined
+  }
+
+  private required<T>(key: string, value: T | undefined): T {
+    if (value === undefined) {
+      this.report(key, 'missing', 'required field is missing or invalid')
+      throw new ContractError(this.endpoint, `missing required field '${this.fieldPath(key)}'`)
+    }
+    return value
+  }
+
+  optionalString(key: string, aliases: string[] = []): string | undefined {
+    const value = this.lookup(key, aliases)
+    if (value === undefined || typeof value === 'string') return value
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      this.report(key, 'coerced', `expected string, got ${typeof value}`)
+      return String(value)
+    }
+    this.report(key, 'type', `expected string, got ${typeof value}`)
+    return undefined
+  }
+
+  string(key: string, aliases: string[] = []): string {
+    return this.required(key, this.optionalString(key, aliases))
+  }
+
+  optionalNumber(key: string, aliases: string[] = []): number | undefined {
+    const value = this.lookup(key, aliases)
+    if (value === undefined) return undefined
+    if (typeof value === 'number' && Number.isFinite(value)) return value
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+      this.report(key, 'coerced', 'expected number, got numeric string')
+      return Number(value)
+    }
+    this.report(key, 'type', `expected number, got ${typeof value}`)
+    return undefined
+  }
+
+  number(key: string, aliases: string[] = []): number {
+    return this.required(key, this.optionalNumber(key, aliases))
+  }
+
+  optionalBoolean(key: string, aliases: string[] = []): boolean | undefined {
+    const value = this.lookup(key, aliases)
+    if (value === undefined || typeof value === 'boolean') return value
+    if (value === 0 || value === 1 || value === 'true' || value === 'false') {
+      this.report(key, 'coerced', `expected boolean, got ${JSON.stringify(value)}`)
+      return value === 1 || value === 'true'
+    }
+    this.report(key, 'type', `expected boolean, got ${typeof value}`)
+    return undefined
+  }
+
+  boolean(key: string, aliases: string[] = []): boolean {
+    return this.required(key, this.optionalBoolean(key, aliases))
+  }
+
+  // Display-only fields: report the gap but keep rendering with a fallback
+  stringOr(key: string, fallback: string, aliases: string[] = []): string {
+    const value = this.optionalString(key, aliases)
+    if (value !== undefined) return value
+    this.report(key, 'missing', `missing or invalid, using '${fallback}'`)
+    return fallback
+  }
+
+  booleanOr(key: string, fallback: boolean, aliases: string[] = []): boolean {
+    const value = this.optionalBoolean(key, aliases)
+    if (value !== undefined) return value
+    this.report(key, 'missing', `missing or invalid, using ${fallback}`)
+    return fallback
+  }
+
+  // Either type accepted as-is (e.g. thresholds reported as "55" or 55)
+  optionalStringOrNumber(key: string, aliases: string[] = []): string | number | undefined {
+    const value = this.lookup(key, aliases)
+    if (value === undefined || typeof value === 'string' || typeof value === 'number') return value
+    this.report(key, 'type', `expected string or number, got ${typeof value}`)
+    return undefined
+  }
+
+  optionalObject(key: string, aliases: string[] = []): ContractReader | undefined {
+    const value = this.lookup(key, aliases)
+    if (value === undefined) return undefined
+    if (isRecord(value)) return new ContractReader(this.endpoint, value, this.fieldPath(key))
+    this.report(key, 'type', `expected object, got ${typeof value}`)
+    return undefined
+  }
+
+  array<T>(key: string, read: (item: ContractReader) => T, aliases: string[] = []): T[] {
+    const value = this.lookup(key, aliases)
+    if (!Array.isArray(value)) {
+      this.report(key, value === undefined ? 'missing' : 'type', `expected array, got ${value === undefined ? 'nothing' : typeof value}`)
+      throw new ContractError(this.endpoint, `missing required list '${this.fieldPath(key)}'`)
+    }
+    return value.map(item => read(ContractReader.from(this.endpoint, item, `${this.fieldPath(key)}[]`)))
+  }
+
+  // A list whose items are validated elsewhere (e.g. socket messages by lib/faceProtocol.ts)
+  unknownArray(key: string, aliases: string[] = []): unknown[] {
+    const value = this.lookup(key, aliases)
+    if (!Array.isArray(value)) {
+      this.report(key, value === undefined ? 'missing' : 'type', `expected array, got ${value === undefined ? 'nothing' : typeof value}`)
+      throw new ContractError(this.endpoint, `missing required list '${this.fieldPath(key)}'`)
+    }
+    return value
+  }
+
+  // Constrain a string to a known set, falling back when the backend sends something else
+  oneOf<T extends string>(key: string, allowed: readonly T[], fallback: T): T {
+    const value = this.optionalString(key)
+    if (value !== undefined && (allowed as readonly string[]).includes(value)) return value as T
+    this.report(key, value === undefined ? 'missing' : 'type', `expected one of ${allowed.join(', ')}, got ${value === undefined ? 'nothing' : `'${value}'`}`)
+    return fallback
+  }
+}
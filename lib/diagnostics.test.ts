@@ -0,0 +1,47 @@
+// lib/diagnostics.test.ts - Shareable report links survive a round trip and reject edited or truncated reports
+import { describe, expect, it, vi } from 'vitest'
+import { DiagnosticReport, decodeDiagnosticReport, encodeDiagnosticReport, formatDiagnosticReport } from './diagnostics'
+
+const report: DiagnosticReport = {
+  report_id: 'c0ffee00-0000-4000-8000-000000000001',
+  generated_at: '2026-01-05T10:00:00.000Z',
+  overall: 'warn',
+  user_agent: 'Mozilla/5.0 (Ünïcode test)',
+  api_base_url: 'http://localhost:8000/api/v1',
+  ws_base_url: 'ws://localhost:8000/api/v1',
+  user_id: 12,
+  results: [
+    { id: 'camera', label: 'Camera access', status: 'pass', detail: 'FaceTime HD Camera', duration_ms: 412 },
+    { id: 'latency', label: 'Latency', status: 'warn', detail: '240ms median — real-time feedback may lag', duration_ms: null }
+  ]
+}
+
+describe('diagnostic report links', () => {
+  it('round-trips a report through a URL-safe encoding', () => {
+    const encoded = encodeDiagnosticReport(report)
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(decodeDiagnosticReport(encoded)).toEqual(report)
+  })
+
+  it('rejects truncated links and reports with invalid fields', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const encoded = encodeDiagnosticReport(report)
+
+    expect(decodeDiagnosticReport(encoded.slice(0, encoded.length / 2))).toBeNull()
+    expect(decodeDiagnosticReport(encodeDiagnosticReport({ ...report, overall: 'great' as DiagnosticReport['overall'] }))).toBeNull()
+    expect(decodeDiagnosticReport(encodeDiagnosticReport({
+      ...report,
+      results: [{ ...report.results[0], status: 'ok' as DiagnosticReport['results'][number]['status'] }]
+    }))).toBeNull()
+    vi.restoreAllMocks()
+  })
+
+  it('formats a plain-text summary with one line per check', () => {
+    expect(formatDiagnosticReport(report).split('\n')).toEqual(expect.arrayContaining([
+      'Overall: WARN',
+      'User ID: 12',
+      '[PASS] Camera access: FaceTime HD Camera (412ms)',
+      '[WARN] Latency: 240ms median — real-time feedback may lag'
+    ]))
+  })
+})
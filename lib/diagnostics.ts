@@ -0,0 +1,324 @@
+// lib/diagnostics.ts - Pre-flight system check: camera, lighting, REST and WebSocket probes and a shareable report
+import { faceAPI } from './api'
+import { WS_AUTH_MODE, getValidAccessToken } from './auth'
+import { buildWebSocketUrl, getApiBaseUrl, getWebSocketBaseUrl } from './config'
+import { getErrorMessage } from './errors'
+import { FaceProtocolError, parseServerMessage, serializeClientMessage } from './faceProtocol'
+import { FRAME_QUALITY_COACHING, FrameQualityIssue, FrameQualityReport, createFrameQualityGate } from './frameQuality'
+
+export type DiagnosticCheckId = 'camera' | 'resolution' | 'lighting' | 'rest' | 'websocket' | 'latency'
+
+export type DiagnosticStatus = 'pending' | 'running' | 'pass' | 'warn' | 'fail' | 'skipped'
+
+export interface DiagnosticOutcome {
+  status: DiagnosticStatus
+  detail: string
+}
+
+export interface DiagnosticResult extends DiagnosticOutcome {
+  id: DiagnosticCheckId
+  label: string
+  duration_ms: number | null
+}
+
+// Attached to support tickets, hence snake_case
+export interface DiagnosticReport {
+  report_id: string
+  generated_at: string
+  overall: 'pass' | 'warn' | 'fail'
+  user_agent: string
+  api_base_url: string
+  ws_base_url: string
+  user_id: number | null
+  results: DiagnosticResult[]
+}
+
+export const DIAGNOSTIC_CHECKS: { id: DiagnosticCheckId; label: string }[] = [
+  { id: 'camera', label: 'Camera access' },
+  { id: 'resolution', label: 'Camera resolution' },
+  { id: 'lighting', label: 'Lighting' },
+  { id: 'rest', label: 'Backend API' },
+  { id: 'websocket', label: 'WebSocket handshake' },
+  { id: 'latency', label: 'Round-trip latency' }
+]
+
+// The real-time flows capture at 480x360; anything smaller still works but gives the backend less to go on
+const GOOD_RESOLUTION = { width: 480, height: 360 }
+const MIN_RESOLUTION = { width: 320, height: 240 }
+
+const LIGHTING_SAMPLES = 5
+const LIGHTING_SAMPLE_INTERVAL = 200
+
+const PING_COUNT = 5
+const PING_INTERVAL = 200
+const WEBSOCKET_TIMEOUT = 10000
+const GOOD_LATENCY = 150
+const MAX_LATENCY = 400
+
+// Close codes the face sockets use before 'connected'
+const WEBSOCKET_CLOSE_CODES: Record<number, DiagnosticOutcome> = {
+  4001: { status: 'fail', detail: 'Rejected as unauthorized - sign in and try again' },
+  4003: { status: 'warn', detail: 'Reachable, but the selected user has no registered face (close code 4003)' },
+  4004: { status: 'fail', detail: 'Selected user was not found by the backend (close code 4004)' }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// CAMERA CHECKS
+
+export const checkResolution = (track: MediaStreamTrack): DiagnosticOutcome => {
+  const { width = 0, height = 0, frameRate } = track.getSettings()
+  const detail = `${width}×${height}${frameRate ? ` @ ${Math.round(frameRate)} fps` : ''} (${track.label || 'unnamed camera'})`
+
+  if (width >= GOOD_RESOLUTION.width && height >= GOOD_RESOLUTION.height) {
+    return { status: 'pass', detail }
+  }
+  if (width >= MIN_RESOLUTION.width && height >= MIN_RESOLUTION.height) {
+    return { status: 'warn', detail: `${detail} - below the recommended ${GOOD_RESOLUTION.width}×${GOOD_RESOLUTION.height}` }
+  }
+  return { status: 'fail', detail: `${detail} - too small for reliable recognition` }
+}
+
+// Averages a few frames so one flicker does not decide the result; motion is ignored here
+export const checkLighting = async (video: HTMLVideoElement): Promise<DiagnosticOutcome> => {
+  const gate = createFrameQualityGate()
+  const reports: FrameQualityReport[] = []
+
+  for (let i = 0; i < LIGHTING_SAMPLES; i++) {
+    const report = gate.check(video)
+    if (report) reports.push(report)
+    await sleep(LIGHTING_SAMPLE_INTERVAL)
+  }
+
+  if (reports.length === 0) {
+    return { status: 'fail', detail: 'Could not read frames from the camera' }
+  }
+
+  const average = (key: 'brightness' | 'contrast') =>
+    reports.reduce((sum, report) => sum + report[key], 0) / reports.length
+  const brightness = average('brightness')
+  const contrast = average('contrast')
+  const detail = `Brightness ${brightness.toFixed(0)}/255, contrast ${contrast.toFixed(0)}`
+
+  // The issue seen in most samples, if any
+  const counts = new Map<FrameQualityIssue, number>()
+  reports.forEach(report => report.issues
+    .filter(issue => issue !== 'moving')
+    .forEach(issue => counts.set(issue, (counts.get(issue) ?? 0) + 1)))
+  const [issue, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [null, 0]
+
+  if (!issue || count <= reports.length / 2) {
+    return { status: 'pass', detail }
+  }
+  return { status: 'warn', detail: `${detail} - ${FRAME_QUALITY_COACHING[issue]}` }
+}
+
+// BACKEND CHECKS
+
+export const checkRest = async (signal?: AbortSignal): Promise<DiagnosticOutcome> => {
+  const started = performance.now()
+  try {
+    const health = await faceAPI.getHealth({ signal, retries: 0 })
+    const elapsed = Math.round(performance.now() - started)
+    const detail = `${health.status} in ${elapsed}ms${health.version ? ` (version ${health.version})` : ''}`
+    return { status: health.status === 'healthy' ? 'pass' : 'warn', detail }
+  } catch (error) {
+    return { status: 'fail', detail: getErrorMessage(error, 'Backend unreachable') }
+  }
+}
+
+export interface WebSocketProbe {
+  handshake: DiagnosticOutcome
+  latency: DiagnosticOutcome
+}
+
+// Opens a verification socket, waits for 'connected', measures ping/pong round trips and closes it again
+export const probeWebSocket = async (userId: number, signal?: AbortSignal): Promise<WebSocketProbe> => {
+  const token = await getValidAccessToken()
+  const url = buildWebSocketUrl(`/ws/face-verification/${userId}`, {
+    token: WS_AUTH_MODE === 'query' && token ? token : undefined
+  })
+
+  return new Promise(resolve => {
+    const started = performance.now()
+    const roundTrips: number[] = []
+    const sentAt = new Map<number, number>()
+    let handshake: DiagnosticOutcome | null = null
+    let finished = false
+    let ws: WebSocket
+
+    const finish = (failure?: DiagnosticOutcome) => {
+      if (finished) return
+      finished = true
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', handleAbort)
+
+      if (ws && ws.readyState === WebSocket.OPEN) {
+        ws.send(serializeClientMessage({ type: 'stop' }))
+      }
+      ws?.close(1000, 'System check finished')
+
+      const connected = handshake ?? failure ?? { status: 'fail', detail: 'No connected message received' }
+      resolve({ handshake: connected, latency: summarizeLatency(roundTrips, handshake !== null) })
+    }
+
+    const handleAbort = () => finish({ status: 'skipped', detail: 'Cancelled' })
+    signal?.addEventListener('abort', handleAbort)
+
+    const timeoutId = setTimeout(() => {
+      finish({ status: 'fail', detail: `No response within ${WEBSOCKET_TIMEOUT / 1000}s` })
+    }, WEBSOCKET_TIMEOUT)
+
+    const sendPing = () => {
+      if (finished || ws.readyState !== WebSocket.OPEN) return
+      const timestamp = Date.now()
+      sentAt.set(timestamp, performance.now())
+      ws.send(serializeClientMessage({ type: 'ping', timestamp }))
+    }
+
+    try {
+      ws = new WebSocket(url)
+    } catch (error) {
+      finish({ status: 'fail', detail: getErrorMessage(error, 'Failed to create connection') })
+      return
+    }
+
+    ws.onopen = () => {
+      if (WS_AUTH_MODE === 'message' && token) {
+        ws.send(serializeClientMessage({ type: 'auth', token }))
+      }
+    }
+
+    ws.onmessage = (event) => {
+      let message
+      try {
+        message = parseServerMessage(event.data)
+      } catch (error) {
+        if (!(error instanceof FaceProtocolError)) throw error
+        finish({ status: 'fail', detail: `Unexpected message from server: ${error.message}` })
+        return
+      }
+
+      if (message.type === 'connected') {
+        const elapsed = Math.round(performance.now() - started)
+        handshake = {
+          status: 'pass',
+          detail: `Connected in ${elapsed}ms${message.session_id ? ` (session ${message.session_id})` : ''}`
+        }
+        sendPing()
+      } else if (message.type === 'pong' && message.timestamp !== undefined && sentAt.has(message.timestamp)) {
+        roundTrips.push(performance.now() - sentAt.get(message.timestamp)!)
+        if (roundTrips.length >= PING_COUNT) {
+          finish()
+        } else {
+          setTimeout(sendPing, PING_INTERVAL)
+        }
+      }
+    }
+
+    ws.onclose = (event) => {
+      if (finished) return
+      finish(WEBSOCKET_CLOSE_CODES[event.code] ?? {
+        status: 'fail',
+        detail: `Closed before connecting (code ${event.code}${event.reason ? `: ${event.reason}` : ''})`
+      })
+    }
+  })
+}
+
+const summarizeLatency = (roundTrips: number[], connected: boolean): DiagnosticOutcome => {
+  if (!connected) {
+    return { status: 'skipped', detail: 'WebSocket did not connect' }
+  }
+  if (roundTrips.length === 0) {
+    return { status: 'fail', detail: 'No pong received for ping messages' }
+  }
+
+  const sorted = [...roundTrips].sort((a, b) => a - b)
+  const median = sorted[Math.floor(sorted.length / 2)]
+  const detail = `Median ${median.toFixed(0)}ms over ${sorted.length} pings (min ${sorted[0].toFixed(0)}ms, max ${sorted[sorted.length - 1].toFixed(0)}ms)`
+
+  if (median <= GOOD_LATENCY) return { status: 'pass', detail }
+  if (median <= MAX_LATENCY) return { status: 'warn', detail: `${detail} - real-time feedback may lag` }
+  return { status: 'fail', detail: `${detail} - too slow for real-time streaming` }
+}
+
+// REPORT
+
+export const createDiagnosticReport = (results: DiagnosticResult[], userId: number | null): DiagnosticReport => ({
+  report_id: crypto.randomUUID(),
+  generated_at: new Date().toISOString(),
+  overall: results.some(result => result.status === 'fail')
+    ? 'fail'
+    : results.some(result => result.status === 'warn' || result.status === 'skipped') ? 'warn' : 'pass',
+  user_agent: navigator.userAgent,
+  api_base_url: getApiBaseUrl(),
+  ws_base_url: getWebSocketBaseUrl(),
+  user_id: userId,
+  results
+})
+
+// Plain text for pasting into a support ticket
+export const formatDiagnosticReport = (report: DiagnosticReport): string => [
+  `System check ${report.report_id}`,
+  `Generated: ${report.generated_at}`,
+  `Overall: ${report.overall.toUpperCase()}`,
+  `Browser: ${report.user_agent}`,
+  `API: ${report.api_base_url}`,
+  `WebSocket: ${report.ws_base_url}`,
+  `User ID: ${report.user_id ?? 'none selected'}`,
+  '',
+  ...report.results.map(result =>
+    `[${result.status.toUpperCase()}] ${result.label}: ${result.detail}${result.duration_ms !== null ? ` (${result.duration_ms}ms)` : ''}`
+  )
+].join('\n')
+
+// Shareable link: the report travels in the URL fragment, so it never reaches a server
+export const encodeDiagnosticReport = (report: DiagnosticReport): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(report))
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const OVERALL_VALUES: readonly unknown[] = ['pass', 'warn', 'fail']
+const STATUS_VALUES: readonly unknown[] = ['pending', 'running', 'pass', 'warn', 'fail', 'skipped']
+const CHECK_IDS: readonly unknown[] = DIAGNOSTIC_CHECKS.map(check => check.id)
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isDiagnosticResult = (value: unknown): value is DiagnosticResult =>
+  isRecord(value) &&
+  CHECK_IDS.includes(value.id) &&
+  typeof value.label === 'string' &&
+  STATUS_VALUES.includes(value.status) &&
+  typeof value.detail === 'string' &&
+  (value.duration_ms === null || typeof value.duration_ms === 'number')
+
+// Shared links can be truncated or edited, so every field the page renders is checked
+const isDiagnosticReport = (value: unknown): value is DiagnosticReport =>
+  isRecord(value) &&
+  typeof value.report_id === 'string' &&
+  typeof value.generated_at === 'string' &&
+  OVERALL_VALUES.includes(value.overall) &&
+  typeof value.user_agent === 'string' &&
+  typeof value.api_base_url === 'string' &&
+  typeof value.ws_base_url === 'string' &&
+  (value.user_id === null || typeof value.user_id === 'number') &&
+  Array.isArray(value.results) &&
+  value.results.every(isDiagnosticResult)
+
+export const decodeDiagnosticReport = (encoded: string): DiagnosticReport | null => {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0))
+    const report: unknown = JSON.parse(new TextDecoder().decode(bytes))
+    return isDiagnosticReport(report) ? report : null
+  } catch (error) {
+    console.warn('Invalid shared system check report:', error)
+    return null
+  }
+}
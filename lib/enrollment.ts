@@ -0,0 +1,60 @@
+// lib/enrollment.ts - Guided multi-pose enrollment: pose targets, prompts and pose classification from landmarks
+import type { LivenessSample } from './liveness'
+
+export type EnrollmentPose = 'frontal' | 'left' | 'right' | 'up' | 'down'
+
+// Order the user is guided through; frontal first so it can serve as the baseline for the others
+export const ENROLLMENT_POSES: EnrollmentPose[] = ['frontal', 'left', 'right', 'up', 'down']
+
+export const POSE_PROMPTS: Record<EnrollmentPose, string> = {
+  frontal: 'Look straight at the camera',
+  left: 'Turn your head slightly to your left',
+  right: 'Turn your head slightly to your right',
+  up: 'Tilt your head slightly up',
+  down: 'Tilt your head slightly down'
+}
+
+export const POSE_LABELS: Record<EnrollmentPose, string> = {
+  frontal: 'Front',
+  left: 'Left',
+  right: 'Right',
+  up: 'Up',
+  down: 'Down'
+}
+
+// How long a pose must be held before its frame is taken
+export const POSE_HOLD_TIME = 700
+
+interface PoseTarget {
+  // Yaw and pitch offsets from the frontal baseline (see LivenessSample)
+  yaw: [number, number]
+  pitch: [number, number]
+}
+
+// "Slight" turns: far enough to add a new angle, not so far that the face detector loses the face
+const POSE_TARGETS: Record<Exclude<EnrollmentPose, 'frontal'>, PoseTarget> = {
+  left: { yaw: [0.08, 0.35], pitch: [-0.12, 0.12] },
+  right: { yaw: [-0.35, -0.08], pitch: [-0.12, 0.12] },
+  up: { yaw: [-0.08, 0.08], pitch: [-0.35, -0.06] },
+  down: { yaw: [-0.08, 0.08], pitch: [0.06, 0.35] }
+}
+
+// Absolute limits for the frontal pose itself, before any baseline exists
+const FRONTAL_MAX_YAW = 0.06
+
+const within = (value: number, [min, max]: [number, number]) => value >= min && value <= max
+
+// Whether the sample shows the requested pose; baseline is the captured frontal sample
+export const matchesPose = (
+  pose: EnrollmentPose,
+  sample: LivenessSample,
+  baseline: LivenessSample | null
+): boolean => {
+  if (pose === 'frontal') {
+    return Math.abs(sample.yaw) <= FRONTAL_MAX_YAW
+  }
+  if (!baseline) return false
+
+  const target = POSE_TARGETS[pose]
+  return within(sample.yaw - baseline.yaw, target.yaw) && within(sample.pitch - baseline.pitch, target.pitch)
+}
@@ -0,0 +1,162 @@
+// lib/errors.ts - Typed error model for faceAPI calls
+import axios from 'axios'
+
+export type FaceApiErrorKind = 'network' | 'auth' | 'not_found' | 'validation' | 'server' | 'timeout' | 'contract' | 'cancelled'
+
+// FastAPI validation errors arrive as a list of { loc, msg, type }
+export interface ValidationIssue {
+  loc: Array<string | number>
+  msg: string
+  type?: string
+}
+
+export class FaceApiError extends Error {
+  kind: FaceApiErrorKind
+  status?: number
+  // Raw `detail` from the backend response body, if any
+  detail?: unknown
+  retryable: boolean
+
+  constructor(kind: FaceApiErrorKind, message: string, options: { status?: number; detail?: unknown; retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'FaceApiError'
+    this.kind = kind
+    this.status = options.status
+    this.detail = options.detail
+    this.retryable = options.retryable ?? false
+  }
+}
+
+// Backend could not be reached at all (DNS, CORS, connection refused, offline)
+export class NetworkError extends FaceApiError {
+  constructor(message = 'Cannot reach the face recognition backend', cause?: unknown) {
+    super('network', message, { retryable: true, cause })
+    this.name = 'NetworkError'
+  }
+}
+
+export class TimeoutError extends FaceApiError {
+  constructor(message = 'The backend did not respond in time', cause?: unknown) {
+    super('timeout', message, { retryable: true, cause })
+    this.name = 'TimeoutError'
+  }
+}
+
+// Caller aborted the request (AbortSignal), e.g. the component unmounted
+export class CancelledError extends FaceApiError {
+  constructor(message = 'Request was cancelled', cause?: unknown) {
+    super('cancelled', message, { cause })
+    this.name = 'CancelledError'
+  }
+}
+
+// 401/403
+export class AuthError extends FaceApiError {
+  constructor(message: string, status: number, detail?: unknown, cause?: unknown) {
+    super('auth', message, { status, detail, cause })
+    this.name = 'AuthError'
+  }
+}
+
+export class NotFoundError extends FaceApiError {
+  constructor(message = 'Not found', detail?: unknown, cause?: unknown) {
+    super('not_found', message, { status: 404, detail, cause })
+    this.name = 'NotFoundError'
+  }
+}
+
+// 400/422
+export class ValidationError extends FaceApiError {
+  issues: ValidationIssue[]
+
+  constructor(message: string, status: number, detail?: unknown, cause?: unknown) {
+    super('validation', message, { status, detail, cause })
+    this.name = 'ValidationError'
+    this.issues = Array.isArray(detail) ? detail.filter(isValidationIssue) : []
+  }
+}
+
+// 5xx; gateway errors and 503 are worth retrying, other 5xx usually are not
+export class ServerError extends FaceApiError {
+  constructor(message: string, status: number, detail?: unknown, cause?: unknown) {
+    super('server', message, { status, detail, retryable: [502, 503, 504].includes(status), cause })
+    this.name = 'ServerError'
+  }
+}
+
+// 2xx response whose body does not match what the frontend expects (see lib/contracts.ts)
+export class ContractError extends FaceApiError {
+  endpoint: string
+
+  constructor(endpoint: string, message: string) {
+    super('contract', `Unexpected response from ${endpoint}: ${message}`)
+    this.name = 'ContractError'
+    this.endpoint = endpoint
+  }
+}
+
+const isValidationIssue = (value: unknown): value is ValidationIssue =>
+  typeof value === 'object' && value !== null && 'msg' in value && 'loc' in value
+
+const describeDetail = (detail: unknown): string | null => {
+  if (typeof detail === 'string') return detail
+  if (Array.isArray(detail)) {
+    const messages = detail.filter(isValidationIssue).map(issue => `${issue.loc.slice(1).join('.') || issue.loc.join('.')}: ${issue.msg}`)
+    return messages.length > 0 ? messages.join('; ') : null
+  }
+  return null
+}
+
+// Normalize anything thrown by axios (or already normalized) into a FaceApiError
+export const toFaceApiError = (error: unknown): FaceApiError => {
+  if (error instanceof FaceApiError) return error
+
+  if (axios.isCancel(error)) {
+    return new CancelledError(undefined, error)
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new FaceApiError('network', error instanceof Error ? error.message : 'Unexpected error', { cause: error })
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new TimeoutError(undefined, error)
+  }
+
+  if (!error.response) {
+    return new NetworkError(undefined, error)
+  }
+
+  const { status, data } = error.response
+  const detail = (data as { detail?: unknown } | undefined)?.detail
+  const message = describeDetail(detail)
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message || (status === 401 ? 'Authentication required' : 'Access denied'), status, detail, error)
+  }
+  if (status === 404) {
+    return new NotFoundError(message || 'Not found', detail, error)
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message || 'Invalid request', status, detail, error)
+  }
+  if (status === 408) {
+    return new TimeoutError(message || undefined, error)
+  }
+  if (status >= 500) {
+    return new ServerError(message || `Backend error (${status})`, status, detail, error)
+  }
+
+  return new FaceApiError('server', message || `Unexpected response (${status})`, { status, detail, cause: error })
+}
+
+// True when the backend itself is unavailable, as opposed to answering with an error
+export const isBackendUnavailable = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  error instanceof TimeoutError ||
+  (error instanceof ServerError && error.retryable)
+
+export const isCancelled = (error: unknown): boolean => error instanceof CancelledError
+
+export const getErrorMessage = (error: unknown, fallback = 'Something went wrong'): string =>
+  error instanceof Error ? error.message : fallback
@@ -0,0 +1,202 @@
+// lib/faceDetection.ts - CPU-only in-browser face detection, position checks and face cropping before upload
+//
+// NEXT_PUBLIC_FACE_DETECTOR_WASM_URL   Where the MediaPipe WASM runtime is served from (defaults to jsDelivr)
+// NEXT_PUBLIC_FACE_DETECTOR_MODEL_URL  BlazeFace short-range model (defaults to Google's model bucket)
+//
+// Self-host both when the app must not reach third-party CDNs. Detection is best-effort:
+// if the runtime fails to load, flows fall back to sending uncropped frames.
+
+const MEDIAPIPE_VERSION = '0.10.35'
+
+const WASM_URL = process.env.NEXT_PUBLIC_FACE_DETECTOR_WASM_URL ||
+  `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm`
+
+const MODEL_URL = process.env.NEXT_PUBLIC_FACE_DETECTOR_MODEL_URL ||
+  'https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite'
+
+const MIN_DETECTION_CONFIDENCE = 0.5
+
+export interface Point {
+  x: number
+  y: number
+}
+
+// All coordinates are in source (video) pixels
+export interface DetectedFace {
+  x: number
+  y: number
+  width: number
+  height: number
+  score: number
+  // From the subject's point of view, as reported by BlazeFace
+  rightEye?: Point
+  leftEye?: Point
+}
+
+export interface FaceDetector {
+  detect: (source: HTMLVideoElement, timestamp: number) => DetectedFace[]
+  close: () => void
+}
+
+let filesetPromise: ReturnType<typeof createVisionFileset> | null = null
+let detectorPromise: Promise<FaceDetector | null> | null = null
+
+// Imported lazily so the runtime only ships to pages that use the camera
+const createVisionFileset = async () => {
+  const vision = await import('@mediapipe/tasks-vision')
+  const fileset = await vision.FilesetResolver.forVisionTasks(WASM_URL)
+  return { vision, fileset }
+}
+
+// WASM runtime shared by every MediaPipe task (face detector, liveness landmarker)
+export const loadVisionFileset = () => {
+  if (!filesetPromise) {
+    filesetPromise = createVisionFileset()
+    // A failed load may be transient (offline, CDN hiccup); let the next caller try again
+    filesetPromise.catch(() => {
+      filesetPromise = null
+    })
+  }
+  return filesetPromise
+}
+
+// Loaded once per page and shared by every component; resolves to null when unavailable
+export const loadFaceDetector = (): Promise<FaceDetector | null> => {
+  if (typeof window === 'undefined') return Promise.resolve(null)
+
+  if (!detectorPromise) {
+    detectorPromise = (async () => {
+      try {
+        const { vision, fileset } = await loadVisionFileset()
+        const detector = await vision.FaceDetector.createFromOptions(fileset, {
+          baseOptions: { modelAssetPath: MODEL_URL, delegate: 'CPU' },
+          runningMode: 'VIDEO',
+          minDetectionConfidence: MIN_DETECTION_CONFIDENCE
+        })
+        console.log('✅ Face detector loaded')
+
+        return {
+          detect(source, timestamp) {
+            const width = source.videoWidth
+            const height = source.videoHeight
+            return detector.detectForVideo(source, timestamp).detections
+              .filter(detection => detection.boundingBox)
+              .map(detection => {
+                const box = detection.boundingBox!
+                const [rightEye, leftEye] = detection.keypoints
+                return {
+                  x: box.originX,
+                  y: box.originY,
+                  width: box.width,
+                  height: box.height,
+                  score: detection.categories[0]?.score ?? 0,
+                  rightEye: rightEye ? { x: rightEye.x * width, y: rightEye.y * height } : undefined,
+                  leftEye: leftEye ? { x: leftEye.x * width, y: leftEye.y * height } : undefined
+                }
+              })
+          },
+          close() {
+            detector.close()
+          }
+        }
+      } catch (error) {
+        console.warn('Face detector unavailable, frames will be sent uncropped:', error)
+        return null
+      }
+    })()
+  }
+
+  return detectorPromise
+}
+
+// POSITION CHECKS
+
+export type FacePositionIssue = 'no_face' | 'multiple_faces' | 'too_far' | 'too_close' | 'off_center'
+
+export interface FacePositionReport {
+  faceCount: number
+  // Face height as a fraction of the frame height
+  faceSize: number | null
+  centered: boolean
+  issues: FacePositionIssue[]
+  ok: boolean
+}
+
+// Guide oval in normalized frame coordinates; also drawn by FaceGuideOverlay
+export const FACE_GUIDE = {
+  centerX: 0.5,
+  centerY: 0.47,
+  radiusX: 0.21,
+  radiusY: 0.36
+}
+
+const MIN_FACE_SIZE = 0.28
+const MAX_FACE_SIZE = 0.8
+
+export const FACE_POSITION_COACHING: Record<FacePositionIssue, string> = {
+  no_face: 'No face detected - look at the camera',
+  multiple_faces: 'More than one face in view - only you should be visible',
+  too_far: 'Move closer to the camera',
+  too_close: 'Move back a little',
+  off_center: 'Center your face in the oval'
+}
+
+export const assessFacePosition = (faces: DetectedFace[], width: number, height: number): FacePositionReport => {
+  if (faces.length !== 1 || width === 0 || height === 0) {
+    const issues: FacePositionIssue[] = [faces.length === 0 ? 'no_face' : 'multiple_faces']
+    return { faceCount: faces.length, faceSize: null, centered: false, issues, ok: false }
+  }
+
+  const [face] = faces
+  const faceSize = face.height / height
+  const dx = (face.x + face.width / 2) / width - FACE_GUIDE.centerX
+  const dy = (face.y + face.height / 2) / height - FACE_GUIDE.centerY
+  // Face centre inside the inner half of the guide oval
+  const centered = (dx / (FACE_GUIDE.radiusX / 2)) ** 2 + (dy / (FACE_GUIDE.radiusY / 2)) ** 2 <= 1
+
+  const issues: FacePositionIssue[] = []
+  if (faceSize < MIN_FACE_SIZE) issues.push('too_far')
+  if (faceSize > MAX_FACE_SIZE) issues.push('too_close')
+  if (!centered) issues.push('off_center')
+
+  return { faceCount: 1, faceSize, centered, issues, ok: issues.length === 0 }
+}
+
+export const getFacePositionCoaching = (report: FacePositionReport | null): string | null =>
+  report && report.issues.length > 0 ? FACE_POSITION_COACHING[report.issues[0]] : null
+
+// CROPPING
+
+// Context kept around the detector box so the backend's own detector still finds the face
+const CROP_MARGIN = 0.6
+export const DEFAULT_CROP_SIZE = 320
+
+// Draws the face upright (eyes levelled) and centred into a square canvas of the given size
+export const drawAlignedFace = (
+  source: CanvasImageSource,
+  face: DetectedFace,
+  canvas: HTMLCanvasElement,
+  size: number = DEFAULT_CROP_SIZE
+): boolean => {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return false
+
+  const centerX = face.x + face.width / 2
+  const centerY = face.y + face.height / 2
+  const side = Math.max(face.width, face.height) * (1 + CROP_MARGIN)
+  const angle = face.leftEye && face.rightEye
+    ? Math.atan2(face.leftEye.y - face.rightEye.y, face.leftEye.x - face.rightEye.x)
+    : 0
+
+  canvas.width = size
+  canvas.height = size
+  ctx.save()
+  ctx.fillStyle = '#000'
+  ctx.fillRect(0, 0, size, size)
+  ctx.translate(size / 2, size / 2)
+  ctx.rotate(-angle)
+  ctx.scale(size / side, size / side)
+  ctx.drawImage(source, -centerX, -centerY)
+  ctx.restore()
+  return true
+}
@@ -0,0 +1,85 @@
+// lib/faceProtocol.test.ts - Server message validation and binary frame encoding
+import { describe, expect, it } from 'vitest'
+import {
+  BINARY_FRAME_HEADER_SIZE,
+  BINARY_FRAME_VERSION,
+  FaceProtocolError,
+  encodeBinaryFrame,
+  parseServerMessage,
+  validateServerMessage
+} from './faceProtocol'
+
+const protocolErrorCode = (run: () => unknown) => {
+  try {
+    run()
+  } catch (error) {
+    expect(error).toBeInstanceOf(FaceProtocolError)
+    return (error as FaceProtocolError).code
+  }
+  throw new Error('expected a FaceProtocolError')
+}
+
+describe('validateServerMessage', () => {
+  it('accepts a message with its required fields', () => {
+    const message = { type: 'frame_processed', success: true, message: 'ok', frames_collected: 2 }
+    expect(validateServerMessage(message)).toBe(message)
+  })
+
+  it('treats null optional fields as absent', () => {
+    expect(validateServerMessage({ type: 'error', message: 'boom', can_retry: null })).toMatchObject({ type: 'error' })
+  })
+
+  it('rejects non-objects', () => {
+    expect(protocolErrorCode(() => validateServerMessage(null))).toBe('invalid_message')
+    expect(protocolErrorCode(() => validateServerMessage(['connected']))).toBe('invalid_message')
+  })
+
+  it('rejects unknown message types', () => {
+    expect(protocolErrorCode(() => validateServerMessage({ type: 'surprise' }))).toBe('unknown_type')
+    expect(protocolErrorCode(() => validateServerMessage({ message: 'no type' }))).toBe('unknown_type')
+  })
+
+  it('rejects missing and mistyped required fields', () => {
+    expect(protocolErrorCode(() => validateServerMessage({ type: 'registration_complete' }))).toBe('invalid_message')
+    expect(protocolErrorCode(() => validateServerMessage({ type: 'verification_complete', verified: 'yes' }))).toBe('invalid_message')
+  })
+
+  it('rejects mistyped optional fields', () => {
+    expect(protocolErrorCode(() => validateServerMessage({ type: 'connected', required_frames: '5' }))).toBe('invalid_message')
+  })
+})
+
+describe('parseServerMessage', () => {
+  it('parses and validates a text frame', () => {
+    expect(parseServerMessage('{"type":"pong","timestamp":1}')).toEqual({ type: 'pong', timestamp: 1 })
+  })
+
+  it('reports malformed JSON and non-text frames', () => {
+    expect(protocolErrorCode(() => parseServerMessage('{"type":'))).toBe('malformed_json')
+    expect(protocolErrorCode(() => parseServerMessage(new ArrayBuffer(4)))).toBe('invalid_message')
+  })
+})
+
+describe('encodeBinaryFrame', () => {
+  const jpeg = [0xff, 0xd8, 0xff, 0xe0]
+  const dataUrl = `data:image/jpeg;base64,${btoa(String.fromCharCode(...jpeg))}`
+
+  it('writes the 16-byte big-endian header before the JPEG bytes', () => {
+    const buffer = encodeBinaryFrame({ type: 'frame', frame: dataUrl, timestamp: 1700000000123.5, pose: 'right' }, 258)
+    const header = new DataView(buffer)
+
+    expect(buffer.byteLength).toBe(BINARY_FRAME_HEADER_SIZE + jpeg.length)
+    expect(header.getUint8(0)).toBe(BINARY_FRAME_VERSION)
+    expect(header.getUint8(1)).toBe(3)
+    expect(header.getUint16(2)).toBe(0)
+    expect(header.getUint32(4)).toBe(258)
+    expect(header.getFloat64(8)).toBe(1700000000123.5)
+    expect(Array.from(new Uint8Array(buffer, BINARY_FRAME_HEADER_SIZE))).toEqual(jpeg)
+  })
+
+  it('uses pose code 0 without a pose and wraps the sequence to u32', () => {
+    const header = new DataView(encodeBinaryFrame({ type: 'frame', frame: dataUrl, timestamp: 0 }, 2 ** 32 + 7))
+    expect(header.getUint8(1)).toBe(0)
+    expect(header.getUint32(4)).toBe(7)
+  })
+})
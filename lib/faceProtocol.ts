@@ -0,0 +1,382 @@
+// lib/faceProtocol.ts - Typed WebSocket protocol for real-time face registration/verification
+import type { FaceRegistrationResponse, FaceVerificationResponse } from './api'
+import type { LivenessTranscript } from './liveness'
+import type { EnrollmentPose } from './enrollment'
+
+// CLIENT → SERVER MESSAGES
+
+// First message when WS_AUTH_MODE is 'message'
+export interface AuthMessage {
+  type: 'auth'
+  token: string
+}
+
+export interface PingMessage {
+  type: 'ping'
+  timestamp: number
+}
+
+export interface FrameMessage {
+  type: 'frame'
+  frame: string
+  timestamp: number
+  // Guided enrollment: which pose this frame shows
+  pose?: EnrollmentPose
+  // Numbered per connection; the backend echoes it in frame_processed (binary frames carry it in the header)
+  sequence?: number
+}
+
+export interface StopMessage {
+  type: 'stop'
+}
+
+export interface RestartVerificationMessage {
+  type: 'restart_verification'
+}
+
+// Verification sockets opened with ?liveness=1 do not complete until this arrives
+export interface LivenessTranscriptMessage {
+  type: 'liveness_transcript'
+  transcript: LivenessTranscript
+}
+
+export type ClientMessage =
+  | AuthMessage
+  | PingMessage
+  | FrameMessage
+  | StopMessage
+  | RestartVerificationMessage
+  | LivenessTranscriptMessage
+
+// SERVER → CLIENT MESSAGES
+
+// How frames travel after the handshake; sockets opened with ?frame_format=binary may be offered 'binary'
+export type FrameFormat = 'json' | 'binary'
+
+export interface ConnectedMessage {
+  type: 'connected'
+  message?: string
+  required_frames?: number
+  session_id?: string
+  // Absent on older backends, which only accept JSON frames
+  frame_format?: string
+}
+
+export interface FrameProcessedMessage {
+  type: 'frame_processed'
+  success: boolean
+  message: string
+  frames_collected?: number
+  quality_score?: number
+  antispoofing_score?: number
+  face_confidence?: number
+  processing_time?: number
+  // Verification only
+  similarity_score?: number
+  is_match?: boolean
+  comparison_time?: number
+  attempts_remaining?: number
+  // Guided enrollment only
+  pose?: string
+  poses_collected?: number
+  // Echoed from the frame message or the binary frame header
+  sequence?: number
+}
+
+// Sent instead of 'connected' when a socket opened with ?resume_session=<id> picked up that session
+export interface SessionResumedMessage {
+  type: 'session_resumed'
+  session_id: string
+  message?: string
+  required_frames?: number
+  // Progress the backend kept: accepted frames (registration) or processed attempts (verification)
+  frames_collected: number
+  // Guided enrollment only
+  poses?: string[]
+  // Verification only
+  attempts_remaining?: number
+  frame_format?: string
+}
+
+export interface SpoofingDetectedMessage {
+  type: 'spoofing_detected'
+  message: string
+  antispoofing_score?: number
+  can_retry?: boolean
+}
+
+export interface RegistrationCompleteMessage extends Partial<FaceRegistrationResponse> {
+  type: 'registration_complete'
+  face_id: number
+  // Poses covered by a guided enrollment
+  poses?: string[]
+}
+
+export interface VerificationCompleteMessage extends Partial<FaceVerificationResponse> {
+  type: 'verification_complete'
+  verified: boolean
+  // Present when the session required liveness challenges
+  liveness_passed?: boolean
+}
+
+// Backend's verdict on a submitted liveness transcript
+export interface LivenessResultMessage {
+  type: 'liveness_result'
+  passed: boolean
+  message: string
+}
+
+export interface VerificationRestartedMessage {
+  type: 'verification_restarted'
+  message: string
+}
+
+export interface TimeoutWarningMessage {
+  type: 'timeout_warning'
+  message: string
+  can_retry?: boolean
+}
+
+export interface PongMessage {
+  type: 'pong'
+  timestamp?: number
+}
+
+export interface HeartbeatMessage {
+  type: 'heartbeat'
+  timestamp?: number
+}
+
+export interface ErrorMessage {
+  type: 'error'
+  message: string
+  can_retry?: boolean
+}
+
+export type ServerMessage =
+  | ConnectedMessage
+  | SessionResumedMessage
+  | FrameProcessedMessage
+  | SpoofingDetectedMessage
+  | RegistrationCompleteMessage
+  | VerificationCompleteMessage
+  | VerificationRestartedMessage
+  | LivenessResultMessage
+  | TimeoutWarningMessage
+  | PongMessage
+  | HeartbeatMessage
+  | ErrorMessage
+
+export type ServerMessageType = ServerMessage['type']
+
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>
+
+export type ServerMessageHandlers = {
+  [T in ServerMessageType]?: (message: ServerMessageOf<T>) => void
+}
+
+// RUNTIME VALIDATION
+
+export type FaceProtocolErrorCode = 'malformed_json' | 'invalid_message' | 'unknown_type'
+
+export class FaceProtocolError extends Error {
+  code: FaceProtocolErrorCode
+  raw: unknown
+
+  constructor(code: FaceProtocolErrorCode, message: string, raw: unknown) {
+    super(message)
+    this.name = 'FaceProtocolError'
+    this.code = code
+    this.raw = raw
+  }
+}
+
+type FieldKind = 'string' | 'number' | 'boolean'
+
+// Field name → expected type; a trailing '?' marks the field optional (null is treated as absent)
+type MessageSchema = Record<string, FieldKind | `${FieldKind}?`>
+
+const SERVER_MESSAGE_SCHEMAS: Record<ServerMessageType, MessageSchema> = {
+  connected: {
+    message: 'string?',
+    required_frames: 'number?',
+    session_id: 'string?',
+    frame_format: 'string?'
+  },
+  session_resumed: {
+    session_id: 'string',
+    message: 'string?',
+    required_frames: 'number?',
+    frames_collected: 'number',
+    attempts_remaining: 'number?',
+    frame_format: 'string?'
+  },
+  frame_processed: {
+    success: 'boolean',
+    message: 'string',
+    frames_collected: 'number?',
+    quality_score: 'number?',
+    antispoofing_score: 'number?',
+    face_confidence: 'number?',
+    processing_time: 'number?',
+    similarity_score: 'number?',
+    is_match: 'boolean?',
+    comparison_time: 'number?',
+    attempts_remaining: 'number?',
+    pose: 'string?',
+    poses_collected: 'number?',
+    sequence: 'number?'
+  },
+  spoofing_detected: {
+    message: 'string',
+    antispoofing_score: 'number?',
+    can_retry: 'boolean?'
+  },
+  registration_complete: {
+    face_id: 'number',
+    user_id: 'number?',
+    user_name: 'string?',
+    quality_score: 'number?',
+    face_confidence: 'number?',
+    antispoofing_score: 'number?',
+    frames_processed: 'number?',
+    avg_processing_time: 'number?',
+    model_name: 'string?',
+    replaced_face_id: 'number?',
+    template_label: 'string?'
+  },
+  verification_complete: {
+    verified: 'boolean',
+    verification_id: 'number?',
+    user_id: 'number?',
+    user_name: 'string?',
+    similarity_score: 'number?',
+    max_similarity_score: 'number?',
+    quality_score: 'number?',
+    antispoofing_score: 'number?',
+    match_ratio: 'number?',
+    confidence_score: 'number?',
+    frames_processed: 'number?',
+    threshold_used: 'number?',
+    verification_method: 'string?',
+    model_name: 'string?',
+    liveness_passed: 'boolean?',
+    matched_face_id: 'number?',
+    matched_template_label: 'string?'
+  },
+  verification_restarted: {
+    message: 'string'
+  },
+  liveness_result: {
+    passed: 'boolean',
+    message: 'string'
+  },
+  timeout_warning: {
+    message: 'string',
+    can_retry: 'boolean?'
+  },
+  pong: {
+    timestamp: 'number?'
+  },
+  heartbeat: {
+    timestamp: 'number?'
+  },
+  error: {
+    message: 'string',
+    can_retry: 'boolean?'
+  }
+}
+
+const isServerMessageType = (type: unknown): type is ServerMessageType =>
+  typeof type === 'string' && Object.prototype.hasOwnProperty.call(SERVER_MESSAGE_SCHEMAS, type)
+
+export const validateServerMessage = (value: unknown): ServerMessage => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new FaceProtocolError('invalid_message', 'Message is not a JSON object', value)
+  }
+
+  const record = value as Record<string, unknown>
+  if (!isServerMessageType(record.type)) {
+    throw new FaceProtocolError('unknown_type', `Unknown message type: ${String(record.type)}`, value)
+  }
+
+  const schema = SERVER_MESSAGE_SCHEMAS[record.type]
+  for (const [field, spec] of Object.entries(schema)) {
+    const optional = spec.endsWith('?')
+    const kind = spec.replace('?', '')
+    const fieldValue = record[field]
+
+    if (fieldValue === undefined || fieldValue === null) {
+      if (optional) continue
+      throw new FaceProtocolError('invalid_message', `'${record.type}' message is missing '${field}'`, value)
+    }
+
+    if (typeof fieldValue !== kind) {
+      throw new FaceProtocolError(
+        'invalid_message',
+        `'${record.type}' message field '${field}' should be ${kind}, got ${typeof fieldValue}`,
+        value
+      )
+    }
+  }
+
+  return value as ServerMessage
+}
+
+export const parseServerMessage = (data: unknown): ServerMessage => {
+  if (typeof data !== 'string') {
+    throw new FaceProtocolError('invalid_message', 'Expected a text frame', data)
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(data)
+  } catch {
+    throw new FaceProtocolError('malformed_json', 'Message is not valid JSON', data)
+  }
+
+  return validateServerMessage(parsed)
+}
+
+export const serializeClientMessage = (message: ClientMessage): string => JSON.stringify(message)
+
+// BINARY FRAMES
+
+// Layout (big-endian): version u8 | pose u8 (0 = none) | reserved u16 | sequence u32 | timestamp f64 (ms) | JPEG bytes
+export const BINARY_FRAME_VERSION = 1
+export const BINARY_FRAME_HEADER_SIZE = 16
+
+// Wire codes, fixed independently of the order poses are prompted in
+export const FRAME_POSE_CODES: Record<EnrollmentPose, number> = {
+  frontal: 1,
+  left: 2,
+  right: 3,
+  up: 4,
+  down: 5
+}
+
+export const getFrameFormat = (message: ConnectedMessage | SessionResumedMessage): FrameFormat =>
+  message.frame_format === 'binary' ? 'binary' : 'json'
+
+// Raw JPEG bytes of a canvas data URL, without the ~33% base64 overhead
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export const encodeBinaryFrame = (message: FrameMessage, sequence: number): ArrayBuffer => {
+  const image = dataUrlToBytes(message.frame)
+  const buffer = new ArrayBuffer(BINARY_FRAME_HEADER_SIZE + image.length)
+  const header = new DataView(buffer)
+  header.setUint8(0, BINARY_FRAME_VERSION)
+  header.setUint8(1, message.pose ? FRAME_POSE_CODES[message.pose] : 0)
+  header.setUint16(2, 0)
+  header.setUint32(4, sequence >>> 0)
+  header.setFloat64(8, message.timestamp)
+  new Uint8Array(buffer, BINARY_FRAME_HEADER_SIZE).set(image)
+  return buffer
+}
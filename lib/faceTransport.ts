@@ -0,0 +1,208 @@
+// lib/faceTransport.ts - WebSocket and HTTP polling transports for the face streams, with the same message events
+import { faceAPI } from './api'
+import { AuthError, isCancelled } from './errors'
+import {
+  ClientMessage,
+  FaceProtocolError,
+  ServerMessage,
+  parseServerMessage,
+  serializeClientMessage,
+  validateServerMessage
+} from './faceProtocol'
+
+export type FaceTransportKind = 'websocket' | 'http'
+
+export interface FaceTransportEvents {
+  onOpen: () => void
+  onMessage: (message: ServerMessage) => void
+  // Malformed, unknown or invalid backend messages; the transport stays open
+  onProtocolError: (error: FaceProtocolError) => void
+  onError: (error: unknown) => void
+  // Fired once; codes match the WebSocket close codes the backend uses (1006 when the connection was lost)
+  onClose: (code: number, reason: string) => void
+}
+
+export interface FaceTransport {
+  kind: FaceTransportKind
+  // Whether binary frames (lib/faceProtocol.ts encodeBinaryFrame) can be sent at all
+  supportsBinary: boolean
+  isConnecting: () => boolean
+  isOpen: () => boolean
+  send: (message: ClientMessage) => boolean
+  sendBinary: (data: ArrayBuffer) => boolean
+  // Bytes accepted by send() that have not gone out yet, for backpressure
+  bufferedAmount: () => number
+  close: (code?: number, reason?: string) => void
+}
+
+// Close code a browser reports for a connection that dropped without a close frame
+export const ABNORMAL_CLOSE_CODE = 1006
+// Backend close code for a missing, invalid or expired token
+export const UNAUTHORIZED_CLOSE_CODE = 4001
+
+const decode = (events: FaceTransportEvents, decodeMessage: () => ServerMessage) => {
+  let message: ServerMessage
+  try {
+    message = decodeMessage()
+  } catch (error) {
+    if (!(error instanceof FaceProtocolError)) throw error
+    events.onProtocolError(error)
+    return
+  }
+  events.onMessage(message)
+}
+
+// WEBSOCKET
+
+export const openWebSocketTransport = (url: string, events: FaceTransportEvents): FaceTransport => {
+  const ws = new WebSocket(url)
+
+  ws.onopen = () => events.onOpen()
+  ws.onmessage = (event) => decode(events, () => parseServerMessage(event.data))
+  ws.onerror = (event) => events.onError(event)
+  ws.onclose = (event) => events.onClose(event.code, event.reason)
+
+  return {
+    kind: 'websocket',
+    supportsBinary: true,
+    isConnecting: () => ws.readyState === WebSocket.CONNECTING,
+    isOpen: () => ws.readyState === WebSocket.OPEN,
+    send(message) {
+      if (ws.readyState !== WebSocket.OPEN) return false
+      ws.send(serializeClientMessage(message))
+      return true
+    },
+    sendBinary(data) {
+      if (ws.readyState !== WebSocket.OPEN) return false
+      ws.send(data)
+      return true
+    },
+    bufferedAmount: () => ws.bufferedAmount,
+    close(code, reason) {
+      ws.close(code, reason)
+    }
+  }
+}
+
+// HTTP POLLING
+
+export interface HttpTransportTarget {
+  kind: 'registration' | 'verification'
+  userId: number
+  params?: Record<string, string | undefined>
+}
+
+const DEFAULT_POLL_INTERVAL = 250
+// Consecutive failed polls before the channel counts as lost
+const MAX_POLL_FAILURES = 3
+
+// Opens a channel with POST, sends every client message as its own POST and polls for server messages.
+// The Authorization header comes from the shared axios client, so no token is passed here.
+export const openHttpTransport = (target: HttpTransportTarget, events: FaceTransportEvents): FaceTransport => {
+  const controller = new AbortController()
+  const { signal } = controller
+  let state: 'connecting' | 'open' | 'closed' = 'connecting'
+  let channelId: string | null = null
+  let cursor = 0
+  let pollTimeout: ReturnType<typeof setTimeout> | null = null
+  let pollInterval = DEFAULT_POLL_INTERVAL
+  let failures = 0
+  // Size of the message POSTs still in flight
+  let pendingBytes = 0
+
+  const finish = (code: number, reason: string) => {
+    if (state === 'closed') return
+    state = 'closed'
+    if (pollTimeout) clearTimeout(pollTimeout)
+    controller.abort()
+    events.onClose(code, reason)
+  }
+
+  const poll = async () => {
+    pollTimeout = null
+    if (state !== 'open' || !channelId) return
+
+    try {
+      const response = await faceAPI.pollStreamMessages(channelId, cursor, { signal })
+      failures = 0
+      cursor = response.cursor
+      for (const message of response.messages) {
+        if (state !== 'open') return
+        decode(events, () => validateServerMessage(message))
+      }
+      if (response.closed) {
+        finish(response.closed.code, response.closed.reason)
+        return
+      }
+    } catch (error) {
+      if (isCancelled(error)) return
+      events.onError(error)
+      if (++failures >= MAX_POLL_FAILURES) {
+        finish(ABNORMAL_CLOSE_CODE, 'Polling failed')
+        return
+      }
+    }
+
+    if (state === 'open') {
+      pollTimeout = setTimeout(poll, pollInterval)
+    }
+  }
+
+  // Not aborted by close(): a channel the backend already created must be seen here to be closed
+  faceAPI.openStreamChannel(target.kind, target.userId, target.params)
+    .then(channel => {
+      if (state !== 'connecting') {
+        // Closed while opening; let the backend drop the channel right away
+        faceAPI.closeStreamChannel(channel.channel_id).catch(() => {})
+        return
+      }
+      channelId = channel.channel_id
+      pollInterval = channel.poll_interval ?? DEFAULT_POLL_INTERVAL
+      state = 'open'
+      events.onOpen()
+      poll()
+    })
+    .catch(error => {
+      if (state !== 'connecting') return
+      events.onError(error)
+      // A rejected token closes like the socket does, so credentials are renewed the same way
+      if (error instanceof AuthError && error.status === 401) {
+        finish(UNAUTHORIZED_CLOSE_CODE, 'Unauthorized')
+      } else {
+        finish(ABNORMAL_CLOSE_CODE, 'Could not open HTTP stream')
+      }
+    })
+
+  return {
+    kind: 'http',
+    // Frames stay JSON over HTTP
+    supportsBinary: false,
+    isConnecting: () => state === 'connecting',
+    isOpen: () => state === 'open',
+    send(message) {
+      if (state !== 'open' || !channelId) return false
+      const size = message.type === 'frame' ? message.frame.length : 0
+      pendingBytes += size
+      // Not tied to the poll signal, so a final 'stop' still goes out when the channel is closed right after
+      faceAPI.sendStreamMessage(channelId, message)
+        .catch(error => {
+          if (state !== 'closed') events.onError(error)
+        })
+        .finally(() => {
+          pendingBytes -= size
+        })
+      return true
+    },
+    sendBinary: () => false,
+    bufferedAmount: () => pendingBytes,
+    close(code = 1000, reason = '') {
+      const id = channelId
+      const wasOpen = state === 'open'
+      finish(code, reason)
+      // Sent without the aborted signal so it still reaches the backend
+      if (wasOpen && id) {
+        faceAPI.closeStreamChannel(id).catch(error => console.warn('Failed to close HTTP stream channel:', error))
+      }
+    }
+  }
+}
@@ -0,0 +1,160 @@
+// lib/frameQuality.ts - In-browser frame pre-check (brightness, contrast, blur, motion) before frames are sent to the backend
+
+export type FrameQualityIssue = 'too_dark' | 'too_bright' | 'low_contrast' | 'blurry' | 'moving'
+
+export interface FrameQualityThresholds {
+  // Mean luma, 0-255
+  minBrightness: number
+  maxBrightness: number
+  // Luma standard deviation
+  minContrast: number
+  // Variance of the Laplacian; low values mean a blurred frame
+  minSharpness: number
+  // Mean absolute luma difference from the previous frame
+  maxMotion: number
+}
+
+export interface FrameQualityReport {
+  brightness: number
+  contrast: number
+  sharpness: number
+  // null for the first frame, which has nothing to compare against
+  motion: number | null
+  issues: FrameQualityIssue[]
+  ok: boolean
+}
+
+// Tuned for the 160x120 analysis size below; relaxed so only clearly unusable frames are dropped
+export const DEFAULT_FRAME_QUALITY_THRESHOLDS: FrameQualityThresholds = {
+  minBrightness: 50,
+  maxBrightness: 215,
+  minContrast: 20,
+  minSharpness: 40,
+  maxMotion: 22
+}
+
+export const FRAME_QUALITY_COACHING: Record<FrameQualityIssue, string> = {
+  too_dark: 'Too dark - turn on a light or face a window',
+  too_bright: 'Too bright - move away from direct light',
+  low_contrast: 'Image is washed out - avoid backlight behind you',
+  blurry: 'Image is blurry - clean the lens or hold still',
+  moving: 'Hold still'
+}
+
+// Frames are analysed downscaled: plenty for these statistics and cheap enough to run on every capture
+const ANALYSIS_WIDTH = 160
+const ANALYSIS_HEIGHT = 120
+
+// Rec. 601 luma
+export const toGrayscale = (rgba: Uint8ClampedArray): Float32Array => {
+  const gray = new Float32Array(rgba.length / 4)
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4
+    gray[i] = 0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2]
+  }
+  return gray
+}
+
+const laplacianVariance = (gray: Float32Array, width: number, height: number) => {
+  let sum = 0
+  let sumSquares = 0
+  let count = 0
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i]
+      sum += value
+      sumSquares += value * value
+      count++
+    }
+  }
+
+  if (count === 0) return 0
+  const mean = sum / count
+  return sumSquares / count - mean * mean
+}
+
+export const analyzeFrame = (
+  gray: Float32Array,
+  width: number,
+  height: number,
+  previous: Float32Array | null = null,
+  thresholds: FrameQualityThresholds = DEFAULT_FRAME_QUALITY_THRESHOLDS
+): FrameQualityReport => {
+  let sum = 0
+  let sumSquares = 0
+  for (let i = 0; i < gray.length; i++) {
+    sum += gray[i]
+    sumSquares += gray[i] * gray[i]
+  }
+  const brightness = sum / gray.length
+  const contrast = Math.sqrt(Math.max(0, sumSquares / gray.length - brightness * brightness))
+  const sharpness = laplacianVariance(gray, width, height)
+
+  let motion: number | null = null
+  if (previous && previous.length === gray.length) {
+    let difference = 0
+    for (let i = 0; i < gray.length; i++) {
+      difference += Math.abs(gray[i] - previous[i])
+    }
+    motion = difference / gray.length
+  }
+
+  const issues: FrameQualityIssue[] = []
+  if (brightness < thresholds.minBrightness) issues.push('too_dark')
+  if (brightness > thresholds.maxBrightness) issues.push('too_bright')
+  if (contrast < thresholds.minContrast) issues.push('low_contrast')
+  if (motion !== null && motion > thresholds.maxMotion) {
+    // Motion blurs the frame too; coach about the cause, not the symptom
+    issues.push('moving')
+  } else if (sharpness < thresholds.minSharpness) {
+    issues.push('blurry')
+  }
+
+  return { brightness, contrast, sharpness, motion, issues, ok: issues.length === 0 }
+}
+
+export const getFrameQualityCoaching = (report: FrameQualityReport | null): string | null =>
+  report && report.issues.length > 0 ? FRAME_QUALITY_COACHING[report.issues[0]] : null
+
+export interface FrameQualityGate {
+  check: (source: CanvasImageSource) => FrameQualityReport | null
+  reset: () => void
+}
+
+// Keeps the previous frame for motion detection; check() returns null when the source cannot be read
+export const createFrameQualityGate = (
+  thresholds: Partial<FrameQualityThresholds> = {}
+): FrameQualityGate => {
+  const merged = { ...DEFAULT_FRAME_QUALITY_THRESHOLDS, ...thresholds }
+  let canvas: HTMLCanvasElement | null = null
+  let previous: Float32Array | null = null
+
+  return {
+    check(source) {
+      if (!canvas) {
+        canvas = document.createElement('canvas')
+        canvas.width = ANALYSIS_WIDTH
+        canvas.height = ANALYSIS_HEIGHT
+      }
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })
+      if (!ctx) return null
+
+      try {
+        ctx.drawImage(source, 0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT)
+        const gray = toGrayscale(ctx.getImageData(0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT).data)
+        const report = analyzeFrame(gray, ANALYSIS_WIDTH, ANALYSIS_HEIGHT, previous, merged)
+        previous = gray
+        return report
+      } catch (error) {
+        console.warn('Frame quality check failed:', error)
+        return null
+      }
+    },
+
+    reset() {
+      previous = null
+    }
+  }
+}
@@ -0,0 +1,57 @@
+// lib/liveness.test.ts - Challenge selection and the per-challenge landmark trackers
+import { describe, expect, it } from 'vitest'
+import { LIVENESS_PROMPTS, LivenessSample, createChallengeTracker, pickChallenges } from './liveness'
+
+const sample = (overrides: Partial<LivenessSample> = {}): LivenessSample => ({
+  timestamp: 0,
+  yaw: 0,
+  pitch: 0.5,
+  blink: 0,
+  smile: 0,
+  ...overrides
+})
+
+const feed = (type: Parameters<typeof createChallengeTracker>[0], samples: Partial<LivenessSample>[]) => {
+  const tracker = createChallengeTracker(type)
+  return { results: samples.map(overrides => tracker.update(sample(overrides))), tracker }
+}
+
+describe('pickChallenges', () => {
+  it('returns distinct known challenges, capped at the pool size', () => {
+    const picked = pickChallenges(3)
+    expect(picked).toHaveLength(3)
+    expect(new Set(picked).size).toBe(3)
+    picked.forEach(type => expect(Object.keys(LIVENESS_PROMPTS)).toContain(type))
+    expect(pickChallenges(20)).toHaveLength(Object.keys(LIVENESS_PROMPTS).length)
+  })
+})
+
+describe('createChallengeTracker', () => {
+  it('passes a head turn measured from the resting pose, only in the requested direction', () => {
+    expect(feed('turn_left', [{ yaw: 0.1 }, { yaw: 0.2 }, { yaw: 0.26 }]).results).toEqual([false, false, true])
+    expect(feed('turn_right', [{ yaw: 0 }, { yaw: 0.3 }]).results).toEqual([false, false])
+    expect(feed('turn_right', [{ yaw: 0 }, { yaw: -0.2 }]).results).toEqual([false, true])
+  })
+
+  it('passes a nod only once the head comes back up', () => {
+    const { results, tracker } = feed('nod', [{ pitch: 0.5 }, { pitch: 0.65 }, { pitch: 0.6 }, { pitch: 0.52 }])
+    expect(results).toEqual([false, false, false, true])
+    expect(tracker.peak()).toBeCloseTo(0.15)
+  })
+
+  it('counts two full blinks', () => {
+    const { results, tracker } = feed('blink_twice', [
+      { blink: 0.8 }, { blink: 0.1 }, { blink: 0.4 }, { blink: 0.1 }, { blink: 0.9 }, { blink: 0.2 }
+    ])
+    expect(results).toEqual([false, false, false, false, false, true])
+    expect(tracker.peak()).toBe(2)
+  })
+
+  it('requires a smile to be held for consecutive samples', () => {
+    expect(feed('smile', [{ smile: 0.7 }, { smile: 0.7 }, { smile: 0.2 }, { smile: 0.7 }, { smile: 0.8 }]).results)
+      .toEqual([false, false, false, false, false])
+    const { results, tracker } = feed('smile', [{ smile: 0.7 }, { smile: 0.9 }, { smile: 0.65 }])
+    expect(results).toEqual([false, false, true])
+    expect(tracker.peak()).toBe(0.9)
+  })
+})
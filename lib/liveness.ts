@@ -0,0 +1,219 @@
+// lib/liveness.ts - Randomized challenge-response liveness checks (blink, head turn, nod, smile) from face landmarks
+//
+// NEXT_PUBLIC_FACE_LANDMARKER_MODEL_URL  MediaPipe face landmarker model (defaults to Google's model bucket)
+import { loadVisionFileset } from './faceDetection'
+
+const LANDMARKER_MODEL_URL = process.env.NEXT_PUBLIC_FACE_LANDMARKER_MODEL_URL ||
+  'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task'
+
+export type LivenessChallengeType = 'turn_left' | 'turn_right' | 'blink_twice' | 'nod' | 'smile'
+
+export const LIVENESS_PROMPTS: Record<LivenessChallengeType, string> = {
+  turn_left: 'Slowly turn your head to your left',
+  turn_right: 'Slowly turn your head to your right',
+  blink_twice: 'Blink twice',
+  nod: 'Nod your head down and back up',
+  smile: 'Smile'
+}
+
+export const DEFAULT_CHALLENGE_COUNT = 3
+export const CHALLENGE_TIMEOUT = 8000
+
+// One landmarker reading, normalized so thresholds do not depend on face size or distance
+export interface LivenessSample {
+  timestamp: number
+  // Nose offset from the cheek midpoint, as a fraction of face width; positive = turned to the subject's left
+  yaw: number
+  // Nose position between the eye line (0) and the mouth (1)
+  pitch: number
+  // Blendshape scores, 0-1
+  blink: number
+  smile: number
+}
+
+// Sent to the backend as-is, hence snake_case
+export interface LivenessChallengeRecord {
+  type: LivenessChallengeType
+  issued_at: number
+  completed_at: number | null
+  passed: boolean
+  samples: number
+  // Strongest response seen (turn/nod delta, blink count or smile score)
+  peak: number
+}
+
+export interface LivenessTranscript {
+  // Ties the transcript to one streaming session so it cannot be replayed into another
+  session_id: string | null
+  nonce: string
+  started_at: number
+  completed_at: number | null
+  challenges: LivenessChallengeRecord[]
+  passed: boolean
+}
+
+// Landmark indices in the MediaPipe face mesh
+const NOSE_TIP = 1
+const RIGHT_CHEEK = 234
+const LEFT_CHEEK = 454
+const RIGHT_EYE_OUTER = 33
+const LEFT_EYE_OUTER = 263
+const UPPER_LIP = 13
+
+const TURN_THRESHOLD = 0.15
+const NOD_THRESHOLD = 0.1
+const NOD_RETURN = 0.04
+const BLINK_CLOSED = 0.5
+const BLINK_OPEN = 0.25
+const REQUIRED_BLINKS = 2
+const SMILE_THRESHOLD = 0.6
+const SMILE_HOLD_SAMPLES = 3
+
+export const pickChallenges = (count: number = DEFAULT_CHALLENGE_COUNT): LivenessChallengeType[] => {
+  const pool = Object.keys(LIVENESS_PROMPTS) as LivenessChallengeType[]
+  // Fisher-Yates with crypto randomness so the sequence cannot be predicted and pre-recorded
+  const random = new Uint32Array(pool.length)
+  crypto.getRandomValues(random)
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = random[i] % (i + 1)
+    const swap = pool[i]
+    pool[i] = pool[j]
+    pool[j] = swap
+  }
+  return pool.slice(0, Math.min(count, pool.length))
+}
+
+// CHALLENGE TRACKING
+
+export interface ChallengeTracker {
+  // Feeds one sample; returns true once the challenge has been performed
+  update: (sample: LivenessSample) => boolean
+  peak: () => number
+}
+
+// Movements are measured against the first sample so a slightly turned resting pose still works
+export const createChallengeTracker = (type: LivenessChallengeType): ChallengeTracker => {
+  let baseline: LivenessSample | null = null
+  let peak = 0
+
+  switch (type) {
+    case 'turn_left':
+    case 'turn_right': {
+      const direction = type === 'turn_left' ? 1 : -1
+      return {
+        update(sample) {
+          baseline = baseline || sample
+          const delta = (sample.yaw - baseline.yaw) * direction
+          peak = Math.max(peak, delta)
+          return delta >= TURN_THRESHOLD
+        },
+        peak: () => peak
+      }
+    }
+
+    case 'nod': {
+      let wentDown = false
+      return {
+        update(sample) {
+          baseline = baseline || sample
+          const delta = sample.pitch - baseline.pitch
+          peak = Math.max(peak, delta)
+          if (delta >= NOD_THRESHOLD) wentDown = true
+          return wentDown && delta <= NOD_RETURN
+        },
+        peak: () => peak
+      }
+    }
+
+    case 'blink_twice': {
+      let closed = false
+      return {
+        update(sample) {
+          if (!closed && sample.blink >= BLINK_CLOSED) {
+            closed = true
+          } else if (closed && sample.blink <= BLINK_OPEN) {
+            closed = false
+            peak++
+          }
+          return peak >= REQUIRED_BLINKS
+        },
+        peak: () => peak
+      }
+    }
+
+    case 'smile': {
+      let held = 0
+      return {
+        update(sample) {
+          peak = Math.max(peak, sample.smile)
+          held = sample.smile >= SMILE_THRESHOLD ? held + 1 : 0
+          return held >= SMILE_HOLD_SAMPLES
+        },
+        peak: () => peak
+      }
+    }
+  }
+}
+
+// LANDMARKER
+
+export interface FaceLandmarkTracker {
+  // null when no face is visible
+  sample: (source: HTMLVideoElement, timestamp: number) => LivenessSample | null
+}
+
+let landmarkerPromise: Promise<FaceLandmarkTracker | null> | null = null
+
+// Loaded on first use and shared; resolves to null when the runtime or model cannot be loaded
+export const loadFaceLandmarker = (): Promise<FaceLandmarkTracker | null> => {
+  if (typeof window === 'undefined') return Promise.resolve(null)
+
+  if (!landmarkerPromise) {
+    landmarkerPromise = (async () => {
+      try {
+        const { vision, fileset } = await loadVisionFileset()
+        const landmarker = await vision.FaceLandmarker.createFromOptions(fileset, {
+          baseOptions: { modelAssetPath: LANDMARKER_MODEL_URL, delegate: 'CPU' },
+          runningMode: 'VIDEO',
+          numFaces: 1,
+          outputFaceBlendshapes: true
+        })
+        console.log('✅ Face landmarker loaded')
+
+        return {
+          sample(source, timestamp) {
+            const result = landmarker.detectForVideo(source, timestamp)
+            const landmarks = result.faceLandmarks[0]
+            if (!landmarks) return null
+
+            const scores = new Map(
+              (result.faceBlendshapes[0]?.categories || []).map(category => [category.categoryName, category.score])
+            )
+            const score = (name: string) => scores.get(name) ?? 0
+
+            const nose = landmarks[NOSE_TIP]
+            const rightCheek = landmarks[RIGHT_CHEEK]
+            const leftCheek = landmarks[LEFT_CHEEK]
+            const faceWidth = Math.abs(leftCheek.x - rightCheek.x) || 1
+            const eyeLineY = (landmarks[RIGHT_EYE_OUTER].y + landmarks[LEFT_EYE_OUTER].y) / 2
+            const eyeToMouth = (landmarks[UPPER_LIP].y - eyeLineY) || 1
+
+            return {
+              timestamp,
+              yaw: (nose.x - (rightCheek.x + leftCheek.x) / 2) / faceWidth,
+              pitch: (nose.y - eyeLineY) / eyeToMouth,
+              blink: (score('eyeBlinkLeft') + score('eyeBlinkRight')) / 2,
+              smile: (score('mouthSmileLeft') + score('mouthSmileRight')) / 2
+            }
+          }
+        }
+      } catch (error) {
+        console.warn('Face landmarker unavailable, liveness challenges disabled:', error)
+        landmarkerPromise = null
+        return null
+      }
+    })()
+  }
+
+  return landmarkerPromise
+}
@@ -0,0 +1,89 @@
+// lib/proctoring.ts - Background proctoring during a quiz: flagged event types, timing and frame snapshots
+import type { FacePositionReport } from './faceDetection'
+
+export type ProctoringEventType = 'absent' | 'multiple_faces' | 'identity_mismatch' | 'verification_failed' | 'camera_lost'
+
+// Sent to the backend as-is, hence snake_case
+export interface ProctoringEvent {
+  id: string
+  type: ProctoringEventType
+  started_at: number
+  // Set once an ongoing condition (absence, extra faces) clears; null while it lasts or for instant events
+  ended_at: number | null
+  message: string
+  similarity_score?: number
+  verification_id?: number
+}
+
+export interface ProctoringReport {
+  attempt_id: string
+  user_id: number
+  quiz_id?: string
+  course_id?: string
+  // The identity check that opened the quiz
+  verification_id?: number
+  events: ProctoringEvent[]
+}
+
+export const PROCTORING_EVENT_LABELS: Record<ProctoringEventType, string> = {
+  absent: 'Student left the camera view',
+  multiple_faces: 'More than one person in view',
+  identity_mismatch: 'Re-verification did not match the registered face',
+  verification_failed: 'Re-verification was rejected',
+  camera_lost: 'Camera stopped during the quiz'
+}
+
+// Random re-verification window, so checks cannot be anticipated
+export const MIN_RECHECK_INTERVAL = 30000
+export const MAX_RECHECK_INTERVAL = 90000
+
+// How long a condition must last before it is flagged; covers glances away and detector flicker
+export const ABSENCE_GRACE = 5000
+export const MULTIPLE_FACES_GRACE = 2000
+
+export const nextRecheckDelay = (min: number = MIN_RECHECK_INTERVAL, max: number = MAX_RECHECK_INTERVAL): number => {
+  const random = new Uint32Array(1)
+  crypto.getRandomValues(random)
+  return min + (random[0] / 0xffffffff) * (max - min)
+}
+
+// The ongoing condition a detector result shows, if any
+export const getPresenceIssue = (position: FacePositionReport | null): 'absent' | 'multiple_faces' | null => {
+  if (!position) return null
+  if (position.faceCount === 0) return 'absent'
+  if (position.faceCount > 1) return 'multiple_faces'
+  return null
+}
+
+export const createProctoringEvent = (
+  type: ProctoringEventType,
+  details: Partial<Pick<ProctoringEvent, 'message' | 'similarity_score' | 'verification_id' | 'started_at'>> = {}
+): ProctoringEvent => ({
+  id: crypto.randomUUID(),
+  type,
+  started_at: details.started_at ?? Date.now(),
+  ended_at: null,
+  message: details.message ?? PROCTORING_EVENT_LABELS[type],
+  similarity_score: details.similarity_score,
+  verification_id: details.verification_id
+})
+
+// Grabs the current video frame as a JPEG file for the REST verify endpoint
+export const snapshotVideo = (video: HTMLVideoElement, quality = 0.85): Promise<File | null> => {
+  if (video.videoWidth === 0 || video.videoHeight === 0) return Promise.resolve(null)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = video.videoWidth
+  canvas.height = video.videoHeight
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return Promise.resolve(null)
+  ctx.drawImage(video, 0, 0)
+
+  return new Promise(resolve => {
+    canvas.toBlob(
+      blob => resolve(blob ? new File([blob], `proctoring-${Date.now()}.jpg`, { type: 'image/jpeg' }) : null),
+      'image/jpeg',
+      quality
+    )
+  })
+}
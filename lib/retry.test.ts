@@ -0,0 +1,76 @@
+// lib/retry.test.ts - Backoff delays and which failures are retried
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CancelledError, NetworkError, ServerError, ValidationError } from './errors'
+import { getBackoffDelay, withRetry } from './retry'
+
+describe('getBackoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('doubles per attempt up to the cap, with jitter between half and the full delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999)
+    expect(getBackoffDelay(0, 500, 5000)).toBeCloseTo(500)
+    expect(getBackoffDelay(2, 500, 5000)).toBeCloseTo(2000)
+    expect(getBackoffDelay(6, 500, 5000)).toBeCloseTo(5000)
+
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    expect(getBackoffDelay(1, 500, 5000)).toBe(500)
+  })
+})
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('retries retryable failures and resolves with the first success', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(new NetworkError())
+      .mockRejectedValueOnce(new ServerError('Bad gateway', 502))
+      .mockResolvedValue('ok')
+
+    const result = withRetry(request, { retries: 2, baseDelay: 100 })
+    await vi.runAllTimersAsync()
+
+    await expect(result).resolves.toBe('ok')
+    expect(request).toHaveBeenCalledTimes(3)
+  })
+
+  it('gives up after the configured retries', async () => {
+    const request = vi.fn().mockRejectedValue(new NetworkError())
+
+    const result = withRetry(request, { retries: 1, baseDelay: 100 })
+    const assertion = expect(result).rejects.toBeInstanceOf(NetworkError)
+    await vi.runAllTimersAsync()
+
+    await assertion
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry errors that are not retryable', async () => {
+    const request = vi.fn().mockRejectedValue(new ValidationError('Bad image', 422))
+
+    await expect(withRetry(request)).rejects.toBeInstanceOf(ValidationError)
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops waiting as soon as the signal aborts', async () => {
+    const controller = new AbortController()
+    const request = vi.fn().mockRejectedValue(new NetworkError())
+
+    const result = withRetry(request, { retries: 3, baseDelay: 1000, signal: controller.signal })
+    const assertion = expect(result).rejects.toBeInstanceOf(CancelledError)
+    await vi.advanceTimersByTimeAsync(10)
+    controller.abort()
+
+    await assertion
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,61 @@
+// lib/retry.ts - Exponential backoff for idempotent requests
+import { CancelledError, toFaceApiError } from './errors'
+
+export interface RetryOptions {
+  // Extra attempts after the first one
+  retries?: number
+  baseDelay?: number
+  maxDelay?: number
+  signal?: AbortSignal
+}
+
+const DEFAULT_RETRIES = 2
+const DEFAULT_BASE_DELAY = 500
+const DEFAULT_MAX_DELAY = 5000
+
+// Resolves after `ms`, or rejects with CancelledError as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new CancelledError())
+    return
+  }
+
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(new CancelledError())
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+// Full delay doubles per attempt; jitter keeps many clients from retrying in lockstep
+export const getBackoffDelay = (attempt: number, baseDelay = DEFAULT_BASE_DELAY, maxDelay = DEFAULT_MAX_DELAY) =>
+  Math.min(maxDelay, baseDelay * 2 ** attempt) * (0.5 + Math.random() * 0.5)
+
+// Only errors flagged retryable (network, timeout, 502/503/504) are retried
+export const withRetry = async <T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const {
+    retries = DEFAULT_RETRIES,
+    baseDelay = DEFAULT_BASE_DELAY,
+    maxDelay = DEFAULT_MAX_DELAY,
+    signal
+  } = options
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request()
+    } catch (error) {
+      const apiError = toFaceApiError(error)
+      if (!apiError.retryable || attempt >= retries || signal?.aborted) {
+        throw apiError
+      }
+
+      const delay = getBackoffDelay(attempt, baseDelay, maxDelay)
+      console.warn(`🔁 Retrying in ${Math.round(delay)}ms (${attempt + 1}/${retries}): ${apiError.message}`)
+      await sleep(delay, signal)
+    }
+  }
+}
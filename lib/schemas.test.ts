@@ -0,0 +1,78 @@
+// lib/schemas.test.ts - Response normalization across the field variants the backend has shipped
+import { beforeEach, describe, expect, it } from 'vitest'
+import { clearContractIssues, getContractIssues } from './contracts'
+import { ContractError } from './errors'
+import { parseFaceVerification, parseUser, parseUsers } from './schemas'
+
+beforeEach(() => {
+  clearContractIssues()
+})
+
+describe('parseFaceVerification', () => {
+  it('normalizes variant keys and records each one', () => {
+    const result = parseFaceVerification({
+      success: true,
+      id: 42,
+      UserID: 7,
+      name: 'Ada',
+      verification_result: true,
+      similarity_score: 91.5,
+      threshold_used: 0.6
+    })
+
+    expect(result).toMatchObject({
+      verification_id: 42,
+      user_id: 7,
+      user_name: 'Ada',
+      verified: true,
+      threshold: 0.6,
+      threshold_used: 0.6
+    })
+    expect(getContractIssues()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ endpoint: 'POST /face/verify', path: 'verification_id', problem: 'variant' }),
+      expect.objectContaining({ path: 'verified', problem: 'variant' })
+    ]))
+  })
+
+  it('prefers the canonical key over a variant', () => {
+    const result = parseFaceVerification({
+      success: true, verification_id: 1, id: 2, user_id: 3, verified: false, similarity_score: 10
+    })
+    expect(result.verification_id).toBe(1)
+    expect(getContractIssues().filter(issue => issue.problem === 'variant')).toEqual([])
+  })
+
+  it('throws a ContractError and records the gap when a required field is missing', () => {
+    expect(() => parseFaceVerification({ success: true, verification_id: 1, user_id: 3, verified: true }))
+      .toThrow(ContractError)
+    expect(getContractIssues()).toContainEqual(
+      expect.objectContaining({ path: 'similarity_score', problem: 'missing' })
+    )
+  })
+
+  it('rejects a non-object body', () => {
+    expect(() => parseFaceVerification('<html>')).toThrow(ContractError)
+  })
+})
+
+describe('parseUser', () => {
+  it('reads raw PascalCase database rows', () => {
+    expect(parseUser({ ID: 5, Name: 'Grace', RoleID: 3, Role: 'Student', Active: false })).toMatchObject({
+      id: 5,
+      name: 'Grace',
+      roleId: 3,
+      role: 'Student',
+      active: false
+    })
+  })
+
+  it('reports a drifted list field once with its count', () => {
+    parseUsers([
+      { ID: 1, name: 'A', roleId: 1 },
+      { ID: 2, name: 'B', roleId: 1 }
+    ])
+    expect(getContractIssues().filter(issue => issue.path === '[].id')).toEqual([
+      expect.objectContaining({ endpoint: 'GET /users', problem: 'variant', count: 2 })
+    ])
+  })
+})
@@ -0,0 +1,278 @@
+// lib/schemas.ts - Response schemas for faceAPI: validate backend payloads and normalize field variants
+import { ContractReader } from './contracts'
+import type {
+  Face,
+  FaceLifecycleResponse,
+  FaceRegistrationResponse,
+  FaceStatusResponse,
+  FaceTemplatesResponse,
+  FaceVerificationResponse,
+  HealthResponse,
+  StreamChannel,
+  StreamPollResponse,
+  StreamingSession,
+  SystemStatsResponse,
+  User,
+  UserStats,
+  VerificationHistoryResponse,
+  VerificationRecord
+} from './api'
+
+// Known naming variants the backend has shipped; the canonical key is what the UI reads
+const DATETIME_VARIANTS = {
+  verification_datetime: ['verified_at', 'VerificationDateTime', 'created_at'],
+  registered_at: ['registration_datetime', 'CreationDateTime', 'created_at']
+}
+
+const SYSTEM_HEALTH_VALUES = ['excellent', 'good', 'poor'] as const
+
+export const parseFaceRegistration = (data: unknown): FaceRegistrationResponse => {
+  const r = ContractReader.from('POST /face/register', data)
+  return {
+    success: r.boolean('success'),
+    face_id: r.number('face_id', ['FaceID']),
+    user_id: r.number('user_id', ['UserID']),
+    user_name: r.stringOr('user_name', '', ['name']),
+    quality_score: r.number('quality_score'),
+    face_confidence: r.number('face_confidence'),
+    model_name: r.stringOr('model_name', 'unknown'),
+    processing_time: r.optionalNumber('processing_time') ?? 0,
+    message: r.stringOr('message', ''),
+    antispoofing_score: r.optionalNumber('antispoofing_score'),
+    frames_processed: r.optionalNumber('frames_processed'),
+    avg_processing_time: r.optionalNumber('avg_processing_time'),
+    registration_source: r.optionalString('registration_source', ['source']),
+    replaced_face_id: r.optionalNumber('replaced_face_id'),
+    template_label: r.optionalString('template_label', ['label'])
+  }
+}
+
+export const parseFaceVerification = (data: unknown): FaceVerificationResponse => {
+  const r = ContractReader.from('POST /face/verify', data)
+  const threshold = r.optionalNumber('threshold')
+  const thresholdUsed = r.optionalNumber('threshold_used')
+  return {
+    success: r.boolean('success'),
+    verification_id: r.number('verification_id', ['id']),
+    user_id: r.number('user_id', ['UserID']),
+    user_name: r.stringOr('user_name', '', ['name']),
+    quiz_id: r.optionalString('quiz_id'),
+    course_id: r.optionalString('course_id'),
+    verified: r.boolean('verified', ['verification_result', 'VerificationResult']),
+    similarity_score: r.number('similarity_score'),
+    max_similarity_score: r.optionalNumber('max_similarity_score'),
+    distance: r.optionalNumber('distance') ?? 0,
+    threshold: threshold ?? thresholdUsed ?? 0,
+    quality_score: r.optionalNumber('quality_score') ?? 0,
+    antispoofing_score: r.optionalNumber('antispoofing_score') ?? 0,
+    match_ratio: r.optionalNumber('match_ratio') ?? 0,
+    confidence_score: r.optionalNumber('confidence_score') ?? 0,
+    frames_processed: r.optionalNumber('frames_processed') ?? 1,
+    processing_time: r.optionalNumber('processing_time') ?? 0,
+    avg_processing_time: r.optionalNumber('avg_processing_time') ?? 0,
+    model_name: r.stringOr('model_name', 'unknown'),
+    verification_method: r.stringOr('verification_method', 'single_image'),
+    threshold_used: thresholdUsed ?? threshold ?? 0,
+    message: r.stringOr('message', ''),
+    matched_face_id: r.optionalNumber('matched_face_id'),
+    matched_template_label: r.optionalString('matched_template_label')
+  }
+}
+
+export const parseFaceStatus = (data: unknown): FaceStatusResponse => {
+  const r = ContractReader.from('GET /face/status', data)
+  return {
+    user_id: r.number('user_id', ['UserID']),
+    user_name: r.stringOr('user_name', '', ['name']),
+    registered: r.boolean('registered', ['is_registered']),
+    face_id: r.optionalNumber('face_id'),
+    quality_score: r.optionalNumber('quality_score'),
+    face_confidence: r.optionalNumber('face_confidence'),
+    model_name: r.optionalString('model_name'),
+    detector_backend: r.optionalString('detector_backend'),
+    registration_source: r.optionalString('registration_source'),
+    registered_at: r.optionalString('registered_at', DATETIME_VARIANTS.registered_at),
+    is_active: r.optionalBoolean('is_active', ['IsActive']),
+    template_count: r.optionalNumber('template_count')
+  }
+}
+
+const parseFaceRecord = (r: ContractReader): Face => ({
+  id: r.number('id', ['face_id']),
+  UserID: r.number('UserID', ['user_id']),
+  ModelName: r.stringOr('ModelName', 'unknown', ['model_name']),
+  DetectorBackend: r.stringOr('DetectorBackend', 'unknown', ['detector_backend']),
+  QualityScore: r.optionalNumber('QualityScore', ['quality_score']),
+  FaceConfidence: r.optionalNumber('FaceConfidence', ['face_confidence']),
+  S3Key: r.optionalString('S3Key', ['s3_key']),
+  S3Url: r.optionalString('S3Url', ['s3_url']),
+  IsActive: r.booleanOr('IsActive', true, ['is_active']),
+  RegistrationSource: r.stringOr('RegistrationSource', 'unknown', ['registration_source']),
+  StorageType: r.stringOr('StorageType', 'unknown', ['storage_type']),
+  CreationDateTime: r.stringOr('CreationDateTime', '', ['registered_at', 'created_at']),
+  UpdateDateTime: r.stringOr('UpdateDateTime', '', ['updated_at', 'UpdationDateTime']),
+  Label: r.optionalString('Label', ['label', 'template_label'])
+})
+
+export const parseFaceTemplates = (data: unknown): FaceTemplatesResponse => {
+  const r = ContractReader.from('GET /face/templates', data)
+  return {
+    user_id: r.number('user_id'),
+    templates: r.array('templates', parseFaceRecord, ['faces'])
+  }
+}
+
+export const parseFaceLifecycle = (data: unknown): FaceLifecycleResponse => {
+  const r = ContractReader.from('/face lifecycle', data)
+  return {
+    success: r.boolean('success'),
+    user_id: r.number('user_id', ['UserID']),
+    face_id: r.optionalNumber('face_id', ['FaceID']),
+    is_active: r.optionalBoolean('is_active', ['IsActive']),
+    message: r.stringOr('message', '')
+  }
+}
+
+const parseVerificationRecord = (r: ContractReader): VerificationRecord => ({
+  verification_id: r.number('verification_id', ['id']),
+  user_id: r.number('user_id', ['UserID']),
+  quiz_id: r.optionalString('quiz_id', ['QuizID']),
+  course_id: r.optionalString('course_id', ['CourseID']),
+  verified: r.boolean('verified', ['verification_result', 'VerificationResult']),
+  similarity_score: r.number('similarity_score', ['SimilarityScore']),
+  distance: r.optionalNumber('distance', ['Distance']) ?? 0,
+  threshold_used: r.optionalNumber('threshold_used', ['threshold', 'ThresholdUsed']) ?? 0,
+  model_name: r.stringOr('model_name', 'unknown', ['ModelName']),
+  quality_score: r.optionalNumber('quality_score', ['QualityScore']),
+  antispoofing_score: r.optionalNumber('antispoofing_score'),
+  matched_template_label: r.optionalString('matched_template_label'),
+  source: r.optionalString('source'),
+  verification_datetime: r.optionalString('verification_datetime', DATETIME_VARIANTS.verification_datetime)
+})
+
+export const parseVerificationHistory = (data: unknown): VerificationHistoryResponse => {
+  const r = ContractReader.from('GET /face/verifications', data)
+  const verifications = r.array('verifications', parseVerificationRecord, ['history'])
+  return {
+    user_id: r.number('user_id'),
+    total_verifications: r.optionalNumber('total_verifications', ['total', 'count']) ?? verifications.length,
+    verifications
+  }
+}
+
+export const parseHealth = (data: unknown): HealthResponse => {
+  const r = ContractReader.from('GET /health', data)
+  const services = r.optionalObject('services')
+  const configuration = r.optionalObject('configuration')
+  const performance = r.optionalObject('performance')
+
+  return {
+    status: r.string('status'),
+    timestamp: r.stringOr('timestamp', ''),
+    engine: r.optionalString('engine'),
+    database: r.optionalString('database'),
+    services: services && {
+      deepface: services.stringOr('deepface', 'unknown'),
+      database: services.stringOr('database', 'unknown'),
+      api: services.stringOr('api', 'unknown')
+    },
+    configuration: configuration && {
+      model: configuration.stringOr('model', 'unknown', ['model_name']),
+      detector: configuration.stringOr('detector', 'unknown', ['detector_backend']),
+      distance_metric: configuration.stringOr('distance_metric', 'unknown'),
+      anti_spoofing: configuration.booleanOr('anti_spoofing', false, ['antispoofing']),
+      threshold: configuration.optionalStringOrNumber('threshold') ?? 'unknown'
+    },
+    performance: performance && {
+      min_quality_score: performance.optionalNumber('min_quality_score') ?? 0,
+      min_face_confidence: performance.optionalNumber('min_face_confidence') ?? 0
+    },
+    version: r.optionalString('version'),
+    active_connections: r.optionalNumber('active_connections'),
+    memory_usage: r.optionalNumber('memory_usage')
+  }
+}
+
+export const parseSystemStats = (data: unknown): SystemStatsResponse => {
+  const r = ContractReader.from('GET /stats', data)
+  return {
+    total_users: r.number('total_users'),
+    registered_faces: r.number('registered_faces'),
+    registration_rate: r.number('registration_rate'),
+    success_rate_24h: r.number('success_rate_24h'),
+    system_health: r.oneOf('system_health', SYSTEM_HEALTH_VALUES, 'poor'),
+    active_sessions: r.optionalNumber('active_sessions') ?? 0,
+    avg_processing_time: r.optionalNumber('avg_processing_time') ?? 0,
+    total_verifications_today: r.optionalNumber('total_verifications_today') ?? 0
+  }
+}
+
+// The users endpoints have returned both the API shape (camelCase) and raw DB rows (PascalCase)
+const parseUserRecord = (r: ContractReader): User => ({
+  id: r.number('id', ['ID', 'user_id']),
+  name: r.string('name', ['Name']),
+  email: r.optionalString('email', ['Email']),
+  mobile: r.optionalString('mobile', ['MobileNumber']),
+  role: r.stringOr('role', 'Unknown', ['Role']),
+  roleId: r.number('roleId', ['role_id', 'RoleID']),
+  status: r.stringOr('status', 'unknown', ['Status']),
+  active: r.booleanOr('active', true, ['Active']),
+  salutation: r.optionalString('salutation', ['Salutation']),
+  lastLogin: r.optionalString('lastLogin', ['last_login', 'LastLoginDateTime']),
+  createdAt: r.stringOr('createdAt', '', ['created_at', 'CreationDateTime']),
+  updatedAt: r.stringOr('updatedAt', '', ['updated_at', 'UpdationDateTime'])
+})
+
+export const parseUsers = (data: unknown): User[] =>
+  ContractReader.list('GET /users', data, parseUserRecord)
+
+export const parseUser = (data: unknown): User =>
+  parseUserRecord(ContractReader.from('GET /user', data))
+
+export const parseUserStats = (data: unknown): UserStats => {
+  const r = ContractReader.from('GET /users/stats', data)
+  return {
+    total_users: r.number('total_users'),
+    students: r.optionalNumber('students') ?? 0,
+    instructors: r.optionalNumber('instructors') ?? 0,
+    staff: r.optionalNumber('staff') ?? 0,
+    admins: r.optionalNumber('admins') ?? 0,
+    registered_faces: r.number('registered_faces'),
+    registration_rate: r.number('registration_rate')
+  }
+}
+
+export const parseStreamingSession = (data: unknown): StreamingSession => {
+  const r = ContractReader.from('GET /streaming/session', data)
+  return {
+    id: r.number('id'),
+    SessionID: r.string('SessionID', ['session_id']),
+    UserID: r.number('UserID', ['user_id']),
+    SessionType: r.stringOr('SessionType', 'unknown', ['session_type']),
+    Status: r.stringOr('Status', 'unknown', ['status']),
+    FramesProcessed: r.optionalNumber('FramesProcessed', ['frames_processed']) ?? 0,
+    LivenessScore: r.optionalNumber('LivenessScore', ['liveness_score']),
+    AntiSpoofingScore: r.optionalNumber('AntiSpoofingScore', ['antispoofing_score']),
+    QualityScore: r.optionalNumber('QualityScore', ['quality_score']),
+    StartTime: r.stringOr('StartTime', '', ['start_time']),
+    EndTime: r.optionalString('EndTime', ['end_time'])
+  }
+}
+
+export const parseStreamChannel = (data: unknown): StreamChannel => {
+  const r = ContractReader.from('POST /streaming/http', data)
+  return {
+    channel_id: r.string('channel_id'),
+    poll_interval: r.optionalNumber('poll_interval')
+  }
+}
+
+export const parseStreamPoll = (data: unknown): StreamPollResponse => {
+  const r = ContractReader.from('GET /streaming/http/messages', data)
+  const closed = r.optionalObject('closed')
+  return {
+    messages: r.unknownArray('messages'),
+    cursor: r.number('cursor'),
+    closed: closed ? { code: closed.number('code'), reason: closed.stringOr('reason', '') } : null
+  }
+}
@@ -0,0 +1,295 @@
+// mock/data.mjs - In-memory users, face templates, verifications and streaming sessions for the mock backend
+
+const FIRST_NAMES = ['John', 'Jane', 'Bob', 'Alice', 'Priya', 'Omar', 'Mei', 'Carlos', 'Fatima', 'Liam', 'Sofia', 'Kenji', 'Amara', 'Noah', 'Elena', 'Ravi']
+const LAST_NAMES = ['Doe', 'Smith', 'Johnson', 'Wilson', 'Patel', 'Hassan', 'Chen', 'Garcia', 'Khan', 'Murphy', 'Rossi', 'Tanaka', 'Okafor', 'Brown', 'Novak', 'Iyer']
+
+// Matches the RoleID values the real backend uses for role names
+const ROLES = [
+  { roleId: 3, role: 'Student' },
+  { roleId: 3, role: 'Student' },
+  { roleId: 3, role: 'Student' },
+  { roleId: 2, role: 'Instructor' },
+  { roleId: 3, role: 'Student' },
+  { roleId: 4, role: 'Staff' },
+  { roleId: 3, role: 'Student' },
+  { roleId: 1, role: 'Admin' }
+]
+
+const MODEL_NAME = 'ArcFace'
+const DETECTOR_BACKEND = 'retinaface'
+// Label of a template registered without one
+const DEFAULT_TEMPLATE_LABEL = 'default'
+
+const iso = (date = new Date()) => date.toISOString()
+
+// Face table row as GET /face/templates returns it
+const toFaceRecord = (face) => ({
+  id: face.face_id,
+  UserID: face.user_id,
+  Label: face.label,
+  ModelName: face.model_name,
+  DetectorBackend: face.detector_backend,
+  QualityScore: face.quality_score,
+  FaceConfidence: face.face_confidence,
+  IsActive: face.is_active,
+  RegistrationSource: face.registration_source,
+  StorageType: 'database',
+  CreationDateTime: face.registered_at,
+  UpdateDateTime: face.updated_at
+})
+
+const createUser = (id) => {
+  const first = FIRST_NAMES[(id - 1) % FIRST_NAMES.length]
+  const last = LAST_NAMES[Math.floor((id - 1) / FIRST_NAMES.length) % LAST_NAMES.length]
+  const { role, roleId } = ROLES[(id - 1) % ROLES.length]
+  const created = new Date(Date.UTC(2024, 0, 1) + id * 3600 * 1000)
+
+  return {
+    id,
+    name: `${first} ${last}`,
+    email: `${first}.${last}${id > FIRST_NAMES.length ? id : ''}@example.com`.toLowerCase(),
+    mobile: `+1555${String(id).padStart(7, '0')}`,
+    role,
+    roleId,
+    status: 'active',
+    active: id % 17 !== 0,
+    lastLogin: id % 3 === 0 ? undefined : iso(new Date(Date.now() - id * 60000)),
+    createdAt: iso(created),
+    updatedAt: iso(created)
+  }
+}
+
+export const createStore = ({ userCount = 25, registeredUserIds = [2] } = {}) => {
+  const users = Array.from({ length: userCount }, (_, index) => createUser(index + 1))
+  // Templates by user ID, oldest first; users without templates have no entry
+  const faces = new Map()
+  const verifications = []
+  const sessions = new Map()
+  // Quiz proctoring reports by attempt_id
+  const proctoring = new Map()
+  let nextFaceId = 1
+  let nextVerificationId = 1
+
+  const getUser = (userId) => users.find(user => user.id === userId)
+
+  const templatesOf = (userId) => faces.get(userId) || []
+
+  // Replaces the template with the same label only now that the new one exists, so a failed re-enrollment keeps the old one
+  const registerFace = (userId, { label = DEFAULT_TEMPLATE_LABEL, qualityScore, faceConfidence, antispoofingScore, source = 'web' } = {}) => {
+    const templates = templatesOf(userId)
+    const previous = templates.find(template => template.label === label)
+    const now = iso()
+    const face = {
+      face_id: nextFaceId++,
+      user_id: userId,
+      label,
+      quality_score: qualityScore ?? 85 + Math.random() * 10,
+      face_confidence: faceConfidence ?? 0.95 + Math.random() * 0.04,
+      antispoofing_score: antispoofingScore ?? 0.9 + Math.random() * 0.09,
+      model_name: MODEL_NAME,
+      detector_backend: DETECTOR_BACKEND,
+      registration_source: source,
+      registered_at: now,
+      updated_at: now,
+      is_active: true
+    }
+    faces.set(userId, [...templates.filter(template => template !== previous), face])
+    return { ...face, replaced_face_id: previous?.face_id }
+  }
+
+  // Applies to all of the user's templates; returns the most recent one, or undefined when the user has none
+  const setFaceActive = (userId, active) => {
+    const templates = templatesOf(userId)
+    templates.forEach(template => {
+      template.is_active = active
+      template.updated_at = iso()
+    })
+    return templates[templates.length - 1]
+  }
+
+  const deleteFace = (userId) => {
+    const templates = templatesOf(userId)
+    faces.delete(userId)
+    return templates[templates.length - 1]
+  }
+
+  // Returns the removed template, or undefined when no user has it
+  const deleteTemplate = (faceId) => {
+    for (const [userId, templates] of faces) {
+      const face = templates.find(template => template.face_id === faceId)
+      if (!face) continue
+      const remaining = templates.filter(template => template !== face)
+      if (remaining.length) {
+        faces.set(userId, remaining)
+      } else {
+        faces.delete(userId)
+      }
+      return face
+    }
+    return undefined
+  }
+
+  const getTemplates = (userId) => templatesOf(userId).map(toFaceRecord)
+
+  const hasActiveFace = (userId) => templatesOf(userId).some(template => template.is_active)
+
+  // The active template a probe is compared against best; which one varies, like glasses on some days and not others
+  const matchTemplate = (userId) => {
+    const active = templatesOf(userId).filter(template => template.is_active)
+    return active[Math.floor(Math.random() * active.length)]
+  }
+
+  const recordVerification = (userId, { verified, similarityScore, qualityScore, antispoofingScore, quizId, courseId, threshold, matchedFace, source }) => {
+    const verification = {
+      verification_id: nextVerificationId++,
+      user_id: userId,
+      quiz_id: quizId || undefined,
+      course_id: courseId || undefined,
+      verified,
+      similarity_score: similarityScore,
+      distance: Number((1 - similarityScore / 100).toFixed(4)),
+      threshold_used: threshold,
+      model_name: MODEL_NAME,
+      quality_score: qualityScore,
+      antispoofing_score: antispoofingScore,
+      matched_face_id: matchedFace?.face_id,
+      matched_template_label: matchedFace?.label,
+      source: source || undefined,
+      verification_datetime: iso()
+    }
+    verifications.unshift(verification)
+    return verification
+  }
+
+  const getHistory = (userId, limit) =>
+    verifications.filter(verification => verification.user_id === userId).slice(0, limit)
+
+  const getFaceStatus = (userId) => {
+    const user = getUser(userId)
+    const templates = templatesOf(userId)
+    const face = templates[templates.length - 1]
+    return {
+      user_id: userId,
+      user_name: user.name,
+      registered: Boolean(face),
+      ...(face && {
+        face_id: face.face_id,
+        quality_score: face.quality_score,
+        face_confidence: face.face_confidence,
+        model_name: face.model_name,
+        detector_backend: face.detector_backend,
+        registration_source: face.registration_source,
+        registered_at: face.registered_at,
+        is_active: face.is_active,
+        template_count: templates.length
+      })
+    }
+  }
+
+  const startSession = (userId, sessionId, sessionType) => {
+    const session = {
+      id: sessions.size + 1,
+      SessionID: sessionId,
+      UserID: userId,
+      SessionType: sessionType,
+      Status: 'active',
+      FramesProcessed: 0,
+      StartTime: iso()
+    }
+    sessions.set(sessionId, session)
+    return session
+  }
+
+  const endSession = (sessionId, status = 'completed') => {
+    const session = sessions.get(sessionId)
+    if (session && session.Status === 'active') {
+      session.Status = status
+      session.EndTime = iso()
+    }
+  }
+
+  // A dropped session picked up again by a reconnect
+  const resumeSession = (sessionId) => {
+    const session = sessions.get(sessionId)
+    if (session) {
+      session.Status = 'active'
+      delete session.EndTime
+    }
+    return session
+  }
+
+  const getActiveSession = (userId) =>
+    [...sessions.values()].find(session => session.UserID === userId && session.Status === 'active')
+
+  const recordProctoringEvents = ({ attempt_id: attemptId, user_id: userId, quiz_id: quizId, course_id: courseId, verification_id: verificationId, events = [] }) => {
+    const attempt = proctoring.get(attemptId) || { attempt_id: attemptId, user_id: userId, quiz_id: quizId, course_id: courseId, verification_id: verificationId, events: new Map() }
+    events.forEach(event => attempt.events.set(event.id, event))
+    proctoring.set(attemptId, attempt)
+    return attempt.events.size
+  }
+
+  const getProctoringAttempt = (attemptId) => {
+    const attempt = proctoring.get(attemptId)
+    return attempt && { ...attempt, events: [...attempt.events.values()] }
+  }
+
+  const getUserStats = () => {
+    const count = (role) => users.filter(user => user.role === role).length
+    return {
+      total_users: users.length,
+      students: count('Student'),
+      instructors: count('Instructor'),
+      staff: count('Staff'),
+      admins: count('Admin'),
+      registered_faces: faces.size,
+      registration_rate: users.length ? Number((faces.size / users.length * 100).toFixed(1)) : 0
+    }
+  }
+
+  const getSystemStats = () => {
+    const dayAgo = Date.now() - 24 * 3600 * 1000
+    // Proctoring re-checks run many times per quiz; counting them would swamp the identity gate numbers
+    const recent = verifications.filter(verification =>
+      verification.source !== 'proctoring' && Date.parse(verification.verification_datetime) > dayAgo)
+    const successRate = recent.length ? recent.filter(verification => verification.verified).length / recent.length * 100 : 100
+
+    return {
+      total_users: users.length,
+      registered_faces: faces.size,
+      registration_rate: getUserStats().registration_rate,
+      success_rate_24h: Number(successRate.toFixed(1)),
+      system_health: successRate >= 90 ? 'excellent' : successRate >= 70 ? 'good' : 'poor',
+      active_sessions: [...sessions.values()].filter(session => session.Status === 'active').length,
+      avg_processing_time: 0.12,
+      total_verifications_today: recent.length
+    }
+  }
+
+  registeredUserIds.filter(getUser).forEach(userId => registerFace(userId, { source: 'seed' }))
+
+  return {
+    users,
+    sessions,
+    getUser,
+    registerFace,
+    setFaceActive,
+    deleteFace,
+    deleteTemplate,
+    getTemplates,
+    hasActiveFace,
+    matchTemplate,
+    recordVerification,
+    getHistory,
+    getFaceStatus,
+    startSession,
+    endSession,
+    resumeSession,
+    getActiveSession,
+    recordProctoringEvents,
+    getProctoringAttempt,
+    getUserStats,
+    getSystemStats,
+    modelName: MODEL_NAME,
+    detectorBackend: DETECTOR_BACKEND
+  }
+}
@@ -0,0 +1,439 @@
+// mock/faceSocket.mjs - /ws/face-registration and /ws/face-verification protocol with scriptable scenarios
+import { randomUUID } from 'node:crypto'
+
+export const SCENARIOS = {
+  success: 'Frames are accepted and registration/verification completes',
+  no_match: 'Verification frames stay below the similarity threshold and the attempt fails',
+  spoofing: 'Every third frame is flagged as a spoofing attempt, so the flow never completes',
+  timeout_warning: 'No face is ever detected; a timeout_warning follows every few frames',
+  close_4001: 'Socket closes with 4001 (unauthorized) right after connecting',
+  close_4003: 'Socket closes with 4003 (access denied) right after connecting',
+  close_4004: 'Socket closes with 4004 (user not found) right after connecting'
+}
+
+const REQUIRED_REGISTRATION_FRAMES = 5
+// Guided enrollment (?enrollment=multi_pose): one accepted frame per pose
+const ENROLLMENT_POSES = ['frontal', 'left', 'right', 'up', 'down']
+const REQUIRED_MATCHES = 3
+const MAX_VERIFICATION_ATTEMPTS = 5
+const SIMILARITY_THRESHOLD = 55.0
+const SPOOF_EVERY = 3
+const TIMEOUT_WARNING_AFTER = 5
+const AUTH_TIMEOUT = 5000
+// A challenge answered faster than a person could react looks scripted
+const MIN_CHALLENGE_DURATION = 300
+
+// How long a dropped session can be resumed with ?resume_session=<id>
+const RESUME_WINDOW = 60000
+
+// Session id -> { kind, userId, state, timer } for sessions whose connection dropped mid-flow
+const suspended = new Map()
+
+const CLOSE_REASONS = {
+  4001: 'Unauthorized',
+  4003: 'Access denied',
+  4004: 'User not found'
+}
+
+// Binary frames (?frame_format=binary): 16-byte big-endian header, then the JPEG bytes
+const BINARY_FRAME_VERSION = 1
+const BINARY_FRAME_HEADER_SIZE = 16
+const FRAME_POSES = { 1: 'frontal', 2: 'left', 3: 'right', 4: 'up', 5: 'down' }
+
+// version u8 | pose u8 | reserved u16 | sequence u32 | timestamp f64 - the image itself is not inspected
+const decodeBinaryFrame = (data) => {
+  if (data.length < BINARY_FRAME_HEADER_SIZE || data.readUInt8(0) !== BINARY_FRAME_VERSION) return null
+  return {
+    type: 'frame',
+    pose: FRAME_POSES[data.readUInt8(1)],
+    sequence: data.readUInt32BE(4),
+    timestamp: data.readDoubleBE(8)
+  }
+}
+
+const between = (min, max) => Number((min + Math.random() * (max - min)).toFixed(2))
+
+export const handleFaceSocket = (ws, { kind, userId, params, scenario, store, latency, requireAuth, token, binaryFrames, log }) => {
+  const user = store.getUser(userId)
+  const closeMatch = /^close_(\d{4})$/.exec(scenario)
+
+  if (!user || closeMatch) {
+    const code = closeMatch ? Number(closeMatch[1]) : 4004
+    log(`🚪 Closing ${kind} socket for user ${userId} with ${code}`)
+    ws.close(code, CLOSE_REASONS[code] || 'Closed by mock scenario')
+    return
+  }
+
+  // Same user and flow only; anything else silently starts a new session
+  const resumeId = params.get('resume_session')
+  const previous = resumeId ? suspended.get(resumeId) : null
+  const resumed = previous && previous.kind === kind && previous.userId === userId ? previous : null
+  if (resumed) {
+    clearTimeout(resumed.timer)
+    suspended.delete(resumeId)
+  }
+
+  const sessionId = resumed ? resumeId : randomUUID()
+  const livenessRequired = kind === 'verification' && params.get('liveness') === '1'
+  const multiPose = kind === 'registration' && params.get('enrollment') === 'multi_pose'
+  // Only offered when the client asks for it and the connection can carry binary messages
+  const frameFormat = binaryFrames && params.get('frame_format') === 'binary' ? 'binary' : 'json'
+  const state = resumed ? resumed.state : {
+    frames: 0,
+    misses: 0,
+    attempts: 0,
+    matches: 0,
+    maxSimilarity: 0,
+    scores: [],
+    // Poses covered so far in a guided enrollment
+    poses: new Set(),
+    done: false,
+    // { passed, message } once a liveness transcript has been checked
+    liveness: null,
+    // Match result held back until the liveness transcript arrives
+    pendingVerified: null,
+    // Sequence number of the binary frame being processed, echoed in frame_processed
+    sequence: undefined
+  }
+  // Per connection: a resumed session still has to authenticate again
+  let authenticated = !requireAuth || Boolean(token)
+  let session = null
+  let stopped = false
+
+  const send = (message) => {
+    if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message))
+  }
+
+  const sendFrameProcessed = (result) => {
+    send({ type: 'frame_processed', ...result, ...(state.sequence !== undefined ? { sequence: state.sequence } : {}) })
+  }
+
+  const requiredFrames = kind === 'registration'
+    ? (multiPose ? ENROLLMENT_POSES.length : REQUIRED_REGISTRATION_FRAMES)
+    : REQUIRED_MATCHES
+
+  const start = () => {
+    if (resumed) {
+      session = store.resumeSession(sessionId)
+      // Frame sequence numbers restart with the new connection
+      state.sequence = undefined
+      send({
+        type: 'session_resumed',
+        message: `Resumed ${kind} stream for ${user.name}`,
+        session_id: sessionId,
+        required_frames: requiredFrames,
+        frames_collected: kind === 'registration' ? state.frames : state.attempts,
+        ...(multiPose ? { poses: [...state.poses] } : {}),
+        ...(kind === 'verification' ? { attempts_remaining: Math.max(0, MAX_VERIFICATION_ATTEMPTS - state.attempts) } : {}),
+        frame_format: frameFormat
+      })
+      log(`🔁 ${kind} session ${sessionId} resumed for user ${userId}`)
+      return
+    }
+
+    session = store.startSession(userId, sessionId, kind)
+    send({
+      type: 'connected',
+      message: `Connected to ${kind} stream for ${user.name}`,
+      required_frames: requiredFrames,
+      session_id: sessionId,
+      frame_format: frameFormat
+    })
+    log(`🔌 ${kind} session ${sessionId} started for user ${userId} (scenario: ${scenario})`)
+  }
+
+  const frameMetrics = () => ({
+    quality_score: between(78, 96),
+    antispoofing_score: between(0.88, 0.99),
+    face_confidence: between(0.93, 0.995),
+    // ms, like the real backend: the simulated delay is most of it
+    processing_time: Number((latency * between(0.8, 1)).toFixed(1))
+  })
+
+  // Latest scores, as GET /api/v1/streaming/session reports them
+  const recordSessionScores = ({ quality_score, antispoofing_score }) => {
+    if (session) Object.assign(session, { QualityScore: quality_score, AntiSpoofingScore: antispoofing_score })
+  }
+
+  const processRegistrationFrame = (pose) => {
+    if (scenario === 'spoofing' && (state.frames + 1) % SPOOF_EVERY === 0) {
+      state.frames = 0
+      state.poses.clear()
+      send({ type: 'spoofing_detected', message: 'Spoofing attempt detected. Please use a live face.', antispoofing_score: between(0.05, 0.3), can_retry: true })
+      return
+    }
+
+    if (multiPose && !ENROLLMENT_POSES.includes(pose)) {
+      sendFrameProcessed({ success: false, message: 'Frame is missing an enrollment pose', frames_collected: state.frames, poses_collected: state.poses.size })
+      return
+    }
+
+    const metrics = frameMetrics()
+    recordSessionScores(metrics)
+    if (multiPose) {
+      // A retaken pose just counts once; coverage is what completes the enrollment
+      state.poses.add(pose)
+      state.frames = state.poses.size
+    } else {
+      state.frames++
+    }
+    state.scores.push(metrics)
+
+    const required = multiPose ? ENROLLMENT_POSES.length : REQUIRED_REGISTRATION_FRAMES
+    sendFrameProcessed({
+      success: true,
+      message: multiPose
+        ? `Pose "${pose}" captured (${state.poses.size}/${required})`
+        : `Frame ${state.frames}/${required} captured`,
+      frames_collected: state.frames,
+      ...(multiPose ? { pose, poses_collected: state.poses.size } : {}),
+      ...metrics
+    })
+
+    if (state.frames >= required) {
+      const average = (key) => state.scores.reduce((sum, score) => sum + score[key], 0) / state.scores.length
+      const face = store.registerFace(userId, {
+        label: params.get('template_label') || undefined,
+        qualityScore: average('quality_score'),
+        faceConfidence: average('face_confidence'),
+        antispoofingScore: average('antispoofing_score'),
+        source: multiPose ? 'stream_v2_multi_pose' : 'stream_v2'
+      })
+      state.done = true
+      store.endSession(sessionId)
+      send({
+        type: 'registration_complete',
+        face_id: face.face_id,
+        user_id: userId,
+        user_name: user.name,
+        quality_score: face.quality_score,
+        face_confidence: face.face_confidence,
+        antispoofing_score: face.antispoofing_score,
+        frames_processed: state.frames,
+        avg_processing_time: average('processing_time'),
+        model_name: face.model_name,
+        replaced_face_id: face.replaced_face_id,
+        template_label: face.label,
+        ...(multiPose ? { poses: [...state.poses] } : {})
+      })
+      log(`✅ Registered face ${face.face_id} ("${face.label}") for user ${userId}`)
+    }
+  }
+
+  const processVerificationFrame = () => {
+    if (!store.getFaceStatus(userId).registered) {
+      state.done = true
+      send({ type: 'error', message: 'No registered face found for this user. Please register first.', can_retry: false })
+      return
+    }
+    if (!store.hasActiveFace(userId)) {
+      state.done = true
+      send({ type: 'error', message: 'Face registration is deactivated. Reactivate or re-enroll it first.', can_retry: false })
+      return
+    }
+
+    if (scenario === 'spoofing' && (state.attempts + 1) % SPOOF_EVERY === 0) {
+      state.attempts++
+      send({ type: 'spoofing_detected', message: 'Spoofing attempt detected. Please use a live face.', antispoofing_score: between(0.05, 0.3), can_retry: true })
+      return
+    }
+
+    state.attempts++
+    const metrics = frameMetrics()
+    recordSessionScores(metrics)
+    const similarity = scenario === 'no_match' ? between(20, 45) : between(68, 92)
+    const isMatch = similarity >= SIMILARITY_THRESHOLD
+    state.matches += isMatch ? 1 : 0
+    state.maxSimilarity = Math.max(state.maxSimilarity, similarity)
+    state.scores.push({ ...metrics, similarity })
+
+    sendFrameProcessed({
+      success: true,
+      message: isMatch ? 'Face matched' : 'Face does not match',
+      frames_collected: state.attempts,
+      similarity_score: similarity,
+      is_match: isMatch,
+      comparison_time: between(0.01, 0.05),
+      attempts_remaining: Math.max(0, MAX_VERIFICATION_ATTEMPTS - state.attempts),
+      ...metrics
+    })
+
+    const matched = state.matches >= REQUIRED_MATCHES
+    if (!matched && state.attempts < MAX_VERIFICATION_ATTEMPTS) return
+
+    if (livenessRequired && !state.liveness) {
+      state.pendingVerified = matched
+      log(`⏳ User ${userId} matched=${matched}, waiting for liveness transcript`)
+      return
+    }
+    completeVerification(matched)
+  }
+
+  const completeVerification = (matched) => {
+    const verified = matched && (!livenessRequired || state.liveness.passed)
+    const average = (key) => state.scores.reduce((sum, score) => sum + score[key], 0) / state.scores.length
+    const verification = store.recordVerification(userId, {
+      matchedFace: store.matchTemplate(userId),
+      verified,
+      similarityScore: Number(average('similarity').toFixed(2)),
+      qualityScore: average('quality_score'),
+      antispoofingScore: average('antispoofing_score'),
+      quizId: params.get('quiz_id'),
+      courseId: params.get('course_id'),
+      threshold: SIMILARITY_THRESHOLD
+    })
+    state.done = true
+    store.endSession(sessionId)
+    send({
+      type: 'verification_complete',
+      verified,
+      verification_id: verification.verification_id,
+      user_id: userId,
+      user_name: user.name,
+      similarity_score: verification.similarity_score,
+      max_similarity_score: state.maxSimilarity,
+      quality_score: verification.quality_score,
+      antispoofing_score: verification.antispoofing_score,
+      match_ratio: state.matches / state.attempts,
+      confidence_score: between(0.85, 0.98),
+      frames_processed: state.attempts,
+      threshold_used: SIMILARITY_THRESHOLD,
+      verification_method: 'streaming',
+      model_name: store.modelName,
+      matched_face_id: verification.matched_face_id,
+      matched_template_label: verification.matched_template_label,
+      ...(livenessRequired ? { liveness_passed: state.liveness.passed } : {})
+    })
+    log(`${verified ? '✅' : '❌'} Verification ${verification.verification_id} for user ${userId}: ${verified ? 'passed' : 'failed'}`)
+  }
+
+  const checkLivenessTranscript = (transcript) => {
+    const challenges = Array.isArray(transcript?.challenges) ? transcript.challenges : []
+    if (transcript?.session_id !== sessionId) {
+      return { passed: false, message: 'Liveness transcript belongs to another session' }
+    }
+    if (challenges.length === 0 || !transcript.passed || challenges.some(challenge => !challenge.passed)) {
+      return { passed: false, message: 'Liveness challenges were not completed' }
+    }
+    const tooFast = challenges.some(challenge => challenge.completed_at - challenge.issued_at < MIN_CHALLENGE_DURATION)
+    const outOfOrder = challenges.some((challenge, i) => i > 0 && challenge.issued_at < challenges[i - 1].completed_at)
+    if (tooFast || outOfOrder) {
+      return { passed: false, message: 'Liveness responses look replayed or scripted' }
+    }
+    return { passed: true, message: `Liveness confirmed (${challenges.length} challenges)` }
+  }
+
+  const handleLivenessTranscript = (transcript) => {
+    if (!livenessRequired || state.done || state.liveness) return
+
+    state.liveness = checkLivenessTranscript(transcript)
+    if (session) session.LivenessScore = state.liveness.passed ? between(0.9, 0.99) : between(0.1, 0.4)
+    send({ type: 'liveness_result', ...state.liveness })
+    log(`${state.liveness.passed ? '🙂' : '🚫'} Liveness for user ${userId}: ${state.liveness.message}`)
+
+    if (state.pendingVerified !== null) {
+      completeVerification(state.pendingVerified)
+    }
+  }
+
+  const processFrame = (message) => {
+    if (state.done || state.pendingVerified !== null) return
+    if (session) session.FramesProcessed++
+    state.sequence = message.sequence
+
+    if (scenario === 'timeout_warning') {
+      state.misses++
+      sendFrameProcessed({ success: false, message: 'No face detected', frames_collected: state.frames })
+      if (state.misses % TIMEOUT_WARNING_AFTER === 0) {
+        send({ type: 'timeout_warning', message: 'No face detected for a while. Make sure your face is visible and well lit.', can_retry: true })
+      }
+      return
+    }
+
+    if (kind === 'registration') {
+      processRegistrationFrame(message.pose)
+    } else {
+      processVerificationFrame()
+    }
+  }
+
+  const authTimer = authenticated ? null : setTimeout(() => {
+    log(`🔒 No auth message from user ${userId} within ${AUTH_TIMEOUT}ms`)
+    ws.close(4001, CLOSE_REASONS[4001])
+  }, AUTH_TIMEOUT)
+
+  ws.on('message', (data, isBinary) => {
+    let message
+    if (isBinary) {
+      message = frameFormat === 'binary' ? decodeBinaryFrame(data) : null
+      if (!message) {
+        send({ type: 'error', message: 'Malformed binary frame', can_retry: true })
+        return
+      }
+    } else {
+      try {
+        message = JSON.parse(data.toString())
+      } catch {
+        send({ type: 'error', message: 'Malformed message', can_retry: true })
+        return
+      }
+    }
+
+    if (message.type === 'auth') {
+      if (authenticated) return
+      if (!message.token) {
+        ws.close(4001, CLOSE_REASONS[4001])
+        return
+      }
+      clearTimeout(authTimer)
+      authenticated = true
+      start()
+      return
+    }
+
+    if (!authenticated) {
+      ws.close(4001, CLOSE_REASONS[4001])
+      return
+    }
+
+    switch (message.type) {
+      case 'ping':
+        send({ type: 'pong', timestamp: message.timestamp })
+        break
+      case 'frame':
+        // Simulated processing delay so latency indicators have something to show
+        setTimeout(() => processFrame(message), latency)
+        break
+      case 'restart_verification':
+        Object.assign(state, { attempts: 0, matches: 0, maxSimilarity: 0, scores: [], done: false, liveness: null, pendingVerified: null })
+        send({ type: 'verification_restarted', message: 'Verification restarted' })
+        break
+      case 'liveness_transcript':
+        handleLivenessTranscript(message.transcript)
+        break
+      case 'stop':
+        stopped = true
+        store.endSession(sessionId, 'stopped')
+        ws.close(1000, 'Stopped by client')
+        break
+      default:
+        send({ type: 'error', message: `Unknown message type: ${message.type}`, can_retry: true })
+    }
+  })
+
+  ws.on('close', () => {
+    clearTimeout(authTimer)
+    store.endSession(sessionId, 'disconnected')
+    log(`👋 ${kind} socket for user ${userId} closed`)
+
+    // A flow cut off midway can be picked up by the client's next connection; terminated ones cannot
+    if (session && !state.done && !stopped && session.Status === 'disconnected') {
+      const timer = setTimeout(() => suspended.delete(sessionId), RESUME_WINDOW)
+      suspended.set(sessionId, { kind, userId, state, timer })
+    }
+  })
+
+  if (authenticated) start()
+
+  return { sessionId }
+}
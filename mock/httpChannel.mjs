@@ -0,0 +1,64 @@
+// mock/httpChannel.mjs - Socket-shaped channel so the face socket protocol also runs over HTTP polling
+import { EventEmitter } from 'node:events'
+import { randomUUID } from 'node:crypto'
+
+const OPEN = 1
+const CLOSED = 3
+export const POLL_INTERVAL = 250
+// A channel nobody polls is dropped like a socket whose connection was lost
+const IDLE_TIMEOUT = 30000
+
+// Looks enough like a `ws` socket for handleFaceSocket: send/close/readyState and 'message'/'close' events
+export const createHttpChannel = ({ log, onExpire }) => {
+  const channel = new EventEmitter()
+  let messages = []
+  let cursor = 0
+  let closed = null
+  let idleTimer = null
+
+  const touch = () => {
+    clearTimeout(idleTimer)
+    idleTimer = setTimeout(() => {
+      log(`⌛ HTTP channel ${channel.id} expired`)
+      channel.close(1006, 'Channel expired')
+      onExpire(channel)
+    }, IDLE_TIMEOUT)
+  }
+
+  Object.assign(channel, {
+    id: randomUUID(),
+    OPEN,
+    readyState: OPEN,
+
+    send(data) {
+      messages.push({ seq: ++cursor, message: JSON.parse(data) })
+    },
+
+    close(code = 1000, reason = '') {
+      if (channel.readyState === CLOSED) return
+      channel.readyState = CLOSED
+      closed = { code, reason }
+      channel.emit('close', code, Buffer.from(reason))
+    },
+
+    // A client message POSTed to the channel
+    receive(message) {
+      touch()
+      channel.emit('message', Buffer.from(JSON.stringify(message)))
+    },
+
+    // Messages after the client's cursor; older ones have been delivered and are dropped
+    poll(after) {
+      touch()
+      messages = messages.filter(entry => entry.seq > after)
+      return { messages: messages.map(entry => entry.message), cursor, closed }
+    },
+
+    dispose() {
+      clearTimeout(idleTimer)
+    }
+  })
+
+  touch()
+  return channel
+}
@@ -0,0 +1,472 @@
+// mock/server.mjs - Self-contained mock of the FastAPI face backend (REST + WebSockets) for offline development
+//
+// npm run mock                         Listen on :8000 with the 'success' scenario
+// npm run mock -- --scenario=spoofing  Default scenario for every socket
+// npm run mock -- --port=8001 --users=5000
+//
+// Environment equivalents: MOCK_PORT, MOCK_SCENARIO, MOCK_USERS, MOCK_LATENCY (ms per frame),
+// MOCK_REQUIRE_AUTH=1 (sockets need ?token= or an 'auth' message),
+// MOCK_BLOCK_WS=1 (refuse WebSocket upgrades like a stripping proxy, so clients fall back to HTTP polling).
+//
+// Scenarios can also be switched at runtime, globally or per user:
+//   curl -X POST localhost:8000/__mock/scenario -d '{"scenario":"close_4004","user_id":3}'
+import http from 'node:http'
+import { randomUUID } from 'node:crypto'
+import { WebSocketServer } from 'ws'
+import { createStore } from './data.mjs'
+import { SCENARIOS, handleFaceSocket } from './faceSocket.mjs'
+import { POLL_INTERVAL, createHttpChannel } from './httpChannel.mjs'
+
+const args = Object.fromEntries(
+  process.argv.slice(2)
+    .filter(arg => arg.startsWith('--'))
+    .map(arg => {
+      const [key, value = 'true'] = arg.slice(2).split('=')
+      return [key, value]
+    })
+)
+
+const PORT = Number(args.port || process.env.MOCK_PORT || 8000)
+const USER_COUNT = Number(args.users || process.env.MOCK_USERS || 25)
+const LATENCY = Number(args.latency || process.env.MOCK_LATENCY || 80)
+const REQUIRE_AUTH = (args['require-auth'] || process.env.MOCK_REQUIRE_AUTH) === '1' || args['require-auth'] === 'true'
+const BLOCK_WS = (args['block-ws'] || process.env.MOCK_BLOCK_WS) === '1' || args['block-ws'] === 'true'
+const TOKEN_TTL = 3600
+
+let defaultScenario = args.scenario || process.env.MOCK_SCENARIO || 'success'
+const userScenarios = new Map()
+
+if (!SCENARIOS[defaultScenario]) {
+  console.error(`Unknown scenario '${defaultScenario}'. Available: ${Object.keys(SCENARIOS).join(', ')}`)
+  process.exit(1)
+}
+
+const store = createStore({ userCount: USER_COUNT })
+const sockets = new Map()
+// HTTP polling channels by channel id
+const channels = new Map()
+
+const log = (message) => console.log(`[mock ${new Date().toISOString().slice(11, 19)}] ${message}`)
+
+// RESPONSE HELPERS
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type'
+}
+
+const json = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+  res.end(body === undefined ? '' : JSON.stringify(body))
+}
+
+// FastAPI-style error body
+const fail = (res, status, detail) => json(res, status, { detail })
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = []
+  req.on('data', chunk => chunks.push(chunk))
+  req.on('end', () => resolve(Buffer.concat(chunks)))
+  req.on('error', reject)
+})
+
+const readJson = async (req) => {
+  const body = (await readBody(req)).toString()
+  return body ? JSON.parse(body) : {}
+}
+
+// Only the text fields are needed; the uploaded image itself is ignored
+const readFormFields = async (req) => {
+  const body = (await readBody(req)).toString('latin1')
+  const fields = {}
+  for (const match of body.matchAll(/name="([^"]+)"\r\n\r\n([^\r]*)\r\n/g)) {
+    fields[match[1]] = match[2]
+  }
+  return fields
+}
+
+const issueTokens = () => ({
+  access_token: `mock-access-${randomUUID()}`,
+  refresh_token: `mock-refresh-${randomUUID()}`,
+  token_type: 'bearer',
+  expires_in: TOKEN_TTL
+})
+
+const bearerToken = (req) => /^Bearer (.+)$/.exec(req.headers.authorization || '')?.[1] || null
+
+// Runs the socket protocol on either a `ws` socket or an HTTP channel
+const startFaceSession = (ws, { kind, userId, url, token, binaryFrames = false }) => {
+  const { sessionId } = handleFaceSocket(ws, {
+    kind,
+    userId,
+    params: url.searchParams,
+    scenario: scenarioFor(userId, url.searchParams.get('scenario')),
+    store,
+    latency: LATENCY,
+    requireAuth: REQUIRE_AUTH,
+    token,
+    binaryFrames,
+    log
+  }) || {}
+
+  if (sessionId) {
+    sockets.set(sessionId, ws)
+    // A resumed session keeps its id, so only forget the socket that is still registered
+    ws.on('close', () => {
+      if (sockets.get(sessionId) === ws) sockets.delete(sessionId)
+    })
+  }
+}
+
+const requireUser = (res, userId) => {
+  const user = store.getUser(userId)
+  if (!user) fail(res, 404, `User ${userId} not found`)
+  return user
+}
+
+// REST ROUTES
+
+const routes = [
+  ['GET', /^\/api\/v1\/health$/, (req, res) => json(res, 200, {
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    engine: 'mock',
+    database: 'in-memory',
+    services: { deepface: 'healthy', database: 'healthy', api: 'healthy' },
+    configuration: {
+      model: store.modelName,
+      detector: store.detectorBackend,
+      distance_metric: 'cosine',
+      anti_spoofing: true,
+      threshold: 55.0
+    },
+    performance: { min_quality_score: 40, min_face_confidence: 0.8 },
+    version: 'mock',
+    active_connections: sockets.size
+  })],
+
+  ['GET', /^\/api\/v1\/stats$/, (req, res) => json(res, 200, store.getSystemStats())],
+
+  ['GET', /^\/api\/v1\/users$/, (req, res) => json(res, 200, store.users)],
+
+  ['GET', /^\/api\/v1\/users\/stats$/, (req, res) => json(res, 200, store.getUserStats())],
+
+  ['GET', /^\/api\/v1\/user\/(\d+)$/, (req, res, [userId]) => {
+    const user = requireUser(res, Number(userId))
+    if (user) json(res, 200, user)
+  }],
+
+  ['GET', /^\/api\/v1\/face\/status\/(\d+)$/, (req, res, [userId]) => {
+    if (requireUser(res, Number(userId))) json(res, 200, store.getFaceStatus(Number(userId)))
+  }],
+
+  ['GET', /^\/api\/v1\/face\/verifications\/(\d+)$/, (req, res, [userId], url) => {
+    if (!requireUser(res, Number(userId))) return
+    const limit = Number(url.searchParams.get('limit') || 10)
+    const verifications = store.getHistory(Number(userId), limit)
+    json(res, 200, { user_id: Number(userId), total_verifications: verifications.length, verifications })
+  }],
+
+  ['POST', /^\/api\/v1\/face\/register$/, async (req, res) => {
+    const fields = await readFormFields(req)
+    const userId = Number(fields.user_id)
+    const user = requireUser(res, userId)
+    if (!user) return
+
+    if (scenarioFor(userId) === 'spoofing') {
+      fail(res, 400, 'Spoofing attempt detected. Please use a live face.')
+      return
+    }
+
+    if (fields.re_enroll === 'true') log(`🔄 Re-enrolling user ${userId} from a single photo`)
+    const face = store.registerFace(userId, { label: fields.template_label || undefined, source: fields.source || 'web' })
+    json(res, 200, {
+      success: true,
+      face_id: face.face_id,
+      user_id: userId,
+      user_name: user.name,
+      quality_score: face.quality_score,
+      face_confidence: face.face_confidence,
+      antispoofing_score: face.antispoofing_score,
+      model_name: face.model_name,
+      processing_time: 0.4,
+      registration_source: face.registration_source,
+      replaced_face_id: face.replaced_face_id,
+      template_label: face.label,
+      message: 'Face registered successfully'
+    })
+  }],
+
+  ['GET', /^\/api\/v1\/face\/templates\/(\d+)$/, (req, res, [userId]) => {
+    if (requireUser(res, Number(userId))) json(res, 200, { user_id: Number(userId), templates: store.getTemplates(Number(userId)) })
+  }],
+
+  ['DELETE', /^\/api\/v1\/face\/templates\/(\d+)$/, (req, res, [faceId]) => {
+    const face = store.deleteTemplate(Number(faceId))
+    if (!face) {
+      fail(res, 404, 'Face template not found')
+      return
+    }
+    log(`🗑️ Template "${face.label}" (face ${face.face_id}) for user ${face.user_id} deleted`)
+    json(res, 200, { success: true, user_id: face.user_id, face_id: face.face_id, message: `Face template "${face.label}" deleted` })
+  }],
+
+  ['POST', /^\/api\/v1\/face\/(deactivate|reactivate)\/(\d+)$/, (req, res, [action, userId]) => {
+    if (!requireUser(res, Number(userId))) return
+    const face = store.setFaceActive(Number(userId), action === 'reactivate')
+    if (!face) {
+      fail(res, 404, 'No registered face found for this user')
+      return
+    }
+    log(`${face.is_active ? '▶️' : '⏸️'} Face ${face.face_id} for user ${userId} ${action}d`)
+    json(res, 200, { success: true, user_id: Number(userId), face_id: face.face_id, is_active: face.is_active, message: `Face registration ${action}d` })
+  }],
+
+  ['DELETE', /^\/api\/v1\/face\/(\d+)$/, (req, res, [userId]) => {
+    if (!requireUser(res, Number(userId))) return
+    const face = store.deleteFace(Number(userId))
+    if (!face) {
+      fail(res, 404, 'No registered face found for this user')
+      return
+    }
+    log(`🗑️ Face ${face.face_id} for user ${userId} deleted`)
+    json(res, 200, { success: true, user_id: Number(userId), face_id: face.face_id, message: 'Face registration deleted' })
+  }],
+
+  ['POST', /^\/api\/v1\/face\/verify$/, async (req, res) => {
+    const fields = await readFormFields(req)
+    const userId = Number(fields.user_id)
+    const user = requireUser(res, userId)
+    if (!user) return
+
+    if (!store.getFaceStatus(userId).registered) {
+      fail(res, 400, 'No registered face found for this user')
+      return
+    }
+    if (!store.hasActiveFace(userId)) {
+      fail(res, 400, 'Face registration is deactivated for this user')
+      return
+    }
+    if (scenarioFor(userId) === 'spoofing') {
+      fail(res, 400, 'Spoofing attempt detected. Please use a live face.')
+      return
+    }
+
+    const similarity = scenarioFor(userId) === 'no_match' ? 32.5 : 81.3
+    const verification = store.recordVerification(userId, {
+      matchedFace: store.matchTemplate(userId),
+      verified: similarity >= 55,
+      similarityScore: similarity,
+      qualityScore: 88,
+      antispoofingScore: 0.95,
+      quizId: fields.quiz_id,
+      courseId: fields.course_id,
+      threshold: 55.0,
+      source: fields.source
+    })
+    json(res, 200, {
+      success: true,
+      ...verification,
+      user_name: user.name,
+      threshold: 55.0,
+      match_ratio: verification.verified ? 1 : 0,
+      confidence_score: 0.92,
+      frames_processed: 1,
+      processing_time: 0.35,
+      avg_processing_time: 0.35,
+      verification_method: 'single_image',
+      message: verification.verified ? 'Face verified' : 'Face does not match'
+    })
+  }],
+
+  ['GET', /^\/api\/v1\/streaming\/session\/(\d+)$/, (req, res, [userId]) => {
+    const session = store.getActiveSession(Number(userId))
+    if (session) {
+      json(res, 200, session)
+    } else {
+      fail(res, 404, 'No active session')
+    }
+  }],
+
+  ['POST', /^\/api\/v1\/streaming\/terminate\/([\w-]+)$/, (req, res, [sessionId]) => {
+    if (!store.sessions.has(sessionId)) {
+      fail(res, 404, 'Session not found')
+      return
+    }
+    store.endSession(sessionId, 'terminated')
+    sockets.get(sessionId)?.close(4000, 'Session terminated')
+    json(res, 200, { success: true, session_id: sessionId })
+  }],
+
+  // HTTP polling fallback: the same messages as /ws/face-*, for networks that strip WebSocket upgrades
+  ['POST', /^\/api\/v1\/streaming\/http\/face-(registration|verification)\/(\d+)$/, (req, res, [kind, userId], url) => {
+    const channel = createHttpChannel({ log, onExpire: () => channels.delete(channel.id) })
+    channels.set(channel.id, channel)
+    log(`📮 HTTP ${kind} channel ${channel.id} opened for user ${userId}`)
+    startFaceSession(channel, { kind, userId: Number(userId), url, token: bearerToken(req) })
+    json(res, 200, { channel_id: channel.id, poll_interval: POLL_INTERVAL })
+  }],
+
+  ['POST', /^\/api\/v1\/streaming\/http\/([\w-]+)\/messages$/, async (req, res, [channelId]) => {
+    const channel = channels.get(channelId)
+    if (!channel || channel.readyState !== channel.OPEN) {
+      fail(res, 404, 'Channel not found or closed')
+      return
+    }
+    channel.receive(await readJson(req))
+    json(res, 202, { accepted: true })
+  }],
+
+  ['GET', /^\/api\/v1\/streaming\/http\/([\w-]+)\/messages$/, (req, res, [channelId], url) => {
+    const channel = channels.get(channelId)
+    if (!channel) {
+      fail(res, 404, 'Channel not found')
+      return
+    }
+    json(res, 200, channel.poll(Number(url.searchParams.get('after') || 0)))
+  }],
+
+  ['DELETE', /^\/api\/v1\/streaming\/http\/([\w-]+)$/, (req, res, [channelId]) => {
+    const channel = channels.get(channelId)
+    if (!channel) {
+      fail(res, 404, 'Channel not found')
+      return
+    }
+    channel.close(1000, 'Closed by client')
+    channel.dispose()
+    channels.delete(channelId)
+    json(res, 200, { success: true })
+  }],
+
+  ['POST', /^\/api\/v1\/proctoring\/events$/, async (req, res) => {
+    const report = await readJson(req)
+    if (!report.attempt_id || !Array.isArray(report.events)) {
+      fail(res, 422, 'attempt_id and events are required')
+      return
+    }
+    if (!requireUser(res, Number(report.user_id))) return
+
+    const total = store.recordProctoringEvents(report)
+    report.events.forEach(event => log(`🚩 Attempt ${report.attempt_id}: ${event.type}${event.ended_at ? ' (ended)' : ''}`))
+    json(res, 200, { success: true, attempt_id: report.attempt_id, total_events: total })
+  }],
+
+  // Instructor review
+  ['GET', /^\/api\/v1\/proctoring\/attempts\/([\w-]+)$/, (req, res, [attemptId]) => {
+    const attempt = store.getProctoringAttempt(attemptId)
+    if (attempt) {
+      json(res, 200, attempt)
+    } else {
+      fail(res, 404, 'Attempt not found')
+    }
+  }],
+
+  ['POST', /^\/api\/v1\/auth\/login$/, async (req, res) => {
+    const { username, password } = await readJson(req)
+    if (!username || !password || password === 'wrong') {
+      fail(res, 401, 'Invalid username or password')
+      return
+    }
+    json(res, 200, issueTokens())
+  }],
+
+  ['POST', /^\/api\/v1\/auth\/refresh$/, async (req, res) => {
+    const { refresh_token: refreshToken } = await readJson(req)
+    if (!refreshToken) {
+      fail(res, 401, 'Refresh token required')
+      return
+    }
+    json(res, 200, issueTokens())
+  }],
+
+  ['POST', /^\/api\/v1\/auth\/logout$/, (req, res) => json(res, 200, { success: true })],
+
+  // Mock controls
+  ['GET', /^\/__mock\/scenario$/, (req, res) => json(res, 200, {
+    default: defaultScenario,
+    users: Object.fromEntries(userScenarios),
+    available: SCENARIOS
+  })],
+
+  ['POST', /^\/__mock\/scenario$/, async (req, res) => {
+    const { scenario, user_id: userId } = await readJson(req)
+    if (scenario !== null && !SCENARIOS[scenario]) {
+      fail(res, 422, `Unknown scenario '${scenario}'. Available: ${Object.keys(SCENARIOS).join(', ')}`)
+      return
+    }
+
+    if (userId) {
+      if (scenario === null) {
+        userScenarios.delete(Number(userId))
+      } else {
+        userScenarios.set(Number(userId), scenario)
+      }
+    } else if (scenario !== null) {
+      defaultScenario = scenario
+    }
+    log(`🎬 Scenario ${userId ? `for user ${userId}` : 'default'} → ${scenario ?? defaultScenario}`)
+    json(res, 200, { default: defaultScenario, users: Object.fromEntries(userScenarios) })
+  }]
+]
+
+const scenarioFor = (userId, override) =>
+  (override && SCENARIOS[override] ? override : null) || userScenarios.get(userId) || defaultScenario
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`)
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS)
+    res.end()
+    return
+  }
+
+  for (const [method, pattern, handler] of routes) {
+    const match = req.method === method && pattern.exec(url.pathname)
+    if (!match) continue
+
+    try {
+      await handler(req, res, match.slice(1), url)
+    } catch (error) {
+      console.error('Mock handler failed:', error)
+      if (!res.headersSent) fail(res, 500, 'Mock backend error')
+    }
+    log(`${req.method} ${url.pathname} → ${res.statusCode}`)
+    return
+  }
+
+  fail(res, 404, 'Not Found')
+  log(`${req.method} ${url.pathname} → 404`)
+})
+
+// WEBSOCKETS
+
+const wss = new WebSocketServer({ noServer: true })
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`)
+  const match = /^\/ws\/face-(registration|verification)\/(\d+)$/.exec(url.pathname)
+
+  if (!match) {
+    socket.write('HTTP/1.1 404 Not Found\r\n\r\n')
+    socket.destroy()
+    return
+  }
+
+  if (BLOCK_WS) {
+    log(`🧱 Refusing WebSocket upgrade for ${url.pathname} (--block-ws)`)
+    socket.destroy()
+    return
+  }
+
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    const [, kind, userIdParam] = match
+    startFaceSession(ws, { kind, userId: Number(userIdParam), url, token: url.searchParams.get('token'), binaryFrames: true })
+  })
+})
+
+server.listen(PORT, () => {
+  log(`🚀 Mock face backend on http://localhost:${PORT} (ws://localhost:${PORT}/ws/...)`)
+  log(`👥 ${USER_COUNT} users, scenario '${defaultScenario}', ${LATENCY}ms frame latency${REQUIRE_AUTH ? ', socket auth required' : ''}${BLOCK_WS ? ', WebSockets blocked' : ''}`)
+})
@@ -1,15 +1,18 @@
 import type { NextConfig } from "next";
+import { getBackendRewriteUrl } from "./lib/config";
+
+const backendUrl = getBackendRewriteUrl();
 
 const nextConfig: NextConfig = {
   /* config options here */
   images: {
-    domains: ['localhost'],
+    domains: [new URL(backendUrl).hostname],
   },
   async rewrites() {
     return [
       {
         source: '/api/:path*',
-        destination: 'http://localhost:8000/api/:path*',
+        destination: `${backendUrl}/api/:path*`,
       },
     ];
   },